@@ -0,0 +1,29 @@
+// Compiles src/lib/wasm/kernels.wat and embeds the binary as base64 in
+// src/lib/wasm/kernels.wasm.ts, so the worker can instantiate it without a fetch
+import { readFileSync, writeFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import initWabt from "wabt";
+
+const watPath = fileURLToPath(
+  new URL("../src/lib/wasm/kernels.wat", import.meta.url),
+);
+const outPath = fileURLToPath(
+  new URL("../src/lib/wasm/kernels.wasm.ts", import.meta.url),
+);
+
+const wabt = await initWabt();
+const module = wabt.parseWat("kernels.wat", readFileSync(watPath, "utf8"), {
+  simd: true,
+  bulk_memory: true,
+});
+module.validate();
+const { buffer } = module.toBinary({});
+module.destroy();
+
+const base64 = Buffer.from(buffer).toString("base64");
+writeFileSync(
+  outPath,
+  `// Generated by scripts/build-wasm.mjs from kernels.wat - do not edit\n` +
+    `export const KERNELS_WASM_BASE64 =\n  "${base64}";\n`,
+);
+console.log(`Wrote ${outPath} (${buffer.length} bytes)`);
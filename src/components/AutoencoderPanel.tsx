@@ -0,0 +1,492 @@
+import { useCallback, useEffect, useId, useRef, useState } from "react";
+import {
+  AUTOENCODER_IMAGE_SIZE,
+  DEFAULT_LATENT_SIZE,
+  LATENT_SIZES,
+} from "../lib/autoencoder";
+import { upscaleFrame } from "../lib/gif-utils";
+import { layoutImage } from "../lib/image-layout";
+import { MOMENT_IMAGES } from "../lib/moments";
+import { randomSeed } from "../lib/random";
+
+// How often the reconstructions refresh while training
+const RENDER_INTERVAL_MS = 250;
+// Morph GIFs are enlarged this much (the decoder's images are tiny)
+const MORPH_GIF_SCALE = 4;
+const MORPH_GIF_FPS = 12;
+
+interface AutoencoderProgress {
+  iteration: number;
+  loss: number;
+  iterationsPerSecond: number;
+}
+
+// A photo center-cropped to a size x size square
+function loadSquareImage(url: string, size: number): Promise<ImageData> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const layout = layoutImage(img.naturalWidth, img.naturalHeight, size, "crop");
+      const canvas = document.createElement("canvas");
+      canvas.width = size;
+      canvas.height = size;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        reject(new Error("Canvas 2D context unavailable"));
+        return;
+      }
+      ctx.drawImage(
+        img,
+        layout.drawX,
+        layout.drawY,
+        layout.drawWidth,
+        layout.drawHeight,
+      );
+      resolve(ctx.getImageData(0, 0, size, size));
+    };
+    img.onerror = () => reject(new Error(`Failed to load ${url}`));
+    img.src = url;
+  });
+}
+
+function pixelsToUrl(pixels: Uint8ClampedArray, width: number, height: number) {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  canvas
+    .getContext("2d")
+    ?.putImageData(
+      new ImageData(new Uint8ClampedArray(pixels), width, height),
+      0,
+      0,
+    );
+  return canvas.toDataURL();
+}
+
+// Trains an autoencoder on every moment at once in its own training worker:
+// each photo has to pass through a latent vector of a few numbers, and the
+// decoder rebuilds all of them from those numbers alone
+export function AutoencoderPanel() {
+  const latentSizeId = useId();
+  const morphFromId = useId();
+  const morphToId = useId();
+  const morphFramesId = useId();
+  const workerRef = useRef<Worker | null>(null);
+  const gifEncoderWorkerRef = useRef<Worker | null>(null);
+  const imagesRef = useRef<ImageData[]>([]);
+  const [originals, setOriginals] = useState<string[]>([]);
+  const [reconstructions, setReconstructions] = useState<string[]>([]);
+  const [latentSize, setLatentSize] = useState(DEFAULT_LATENT_SIZE);
+  const [parameterCount, setParameterCount] = useState(0);
+  const [ready, setReady] = useState(false);
+  const [isTraining, setIsTraining] = useState(false);
+  const [progress, setProgress] = useState<AutoencoderProgress>({
+    iteration: 0,
+    loss: 0,
+    iterationsPerSecond: 0,
+  });
+  const [error, setError] = useState<string | null>(null);
+  // Latent morph between two images of the set
+  const [morphFrom, setMorphFrom] = useState(0);
+  const [morphTo, setMorphTo] = useState(1);
+  const [morphFrameCount, setMorphFrameCount] = useState(24);
+  const [morphStatus, setMorphStatus] = useState<string | null>(null);
+  const [morphGifUrl, setMorphGifUrl] = useState<string | null>(null);
+
+  // (Re)start from fresh weights on the loaded images
+  const initialize = useCallback((size: number) => {
+    if (!workerRef.current || imagesRef.current.length === 0) return;
+    setReady(false);
+    setIsTraining(false);
+    setProgress({ iteration: 0, loss: 0, iterationsPerSecond: 0 });
+    workerRef.current.postMessage({
+      type: "initAutoencoder",
+      images: imagesRef.current.map((image) => image.data),
+      latentSize: size,
+      seed: randomSeed(),
+    });
+  }, []);
+
+  useEffect(() => {
+    const worker = new Worker(
+      new URL("../lib/neural-network.worker.ts", import.meta.url),
+      { type: "module" },
+    );
+    workerRef.current = worker;
+
+    worker.onmessage = (e) => {
+      const { type, ...data } = e.data;
+
+      switch (type) {
+        case "ready":
+          setReady(true);
+          setParameterCount(data.parameterCount);
+          break;
+
+        case "progress":
+          setProgress({
+            iteration: data.iteration,
+            loss: data.loss,
+            iterationsPerSecond: data.iterationsPerSecond,
+          });
+          break;
+
+        case "render":
+          setReconstructions(
+            (data.frames as Uint8ClampedArray[]).map((frame) =>
+              pixelsToUrl(frame, data.width, data.height),
+            ),
+          );
+          break;
+
+        // Decoded morph frames, on their way to the GIF encoder
+        case "gifFrames": {
+          const frames = (data.frames as Uint8ClampedArray[]).map((frame) =>
+            upscaleFrame(frame, data.width, data.height, MORPH_GIF_SCALE),
+          );
+          setMorphStatus(`Encoding ${frames.length} frames`);
+          gifEncoderWorkerRef.current?.postMessage({
+            type: "encode",
+            frames,
+            width: data.width * MORPH_GIF_SCALE,
+            height: data.height * MORPH_GIF_SCALE,
+            fps: MORPH_GIF_FPS,
+          });
+          break;
+        }
+
+        case "gifError":
+          setMorphStatus(null);
+          setError(data.message);
+          break;
+      }
+    };
+
+    const gifEncoder = new Worker(
+      new URL("../lib/gif-encoder.worker.ts", import.meta.url),
+      { type: "module" },
+    );
+    gifEncoderWorkerRef.current = gifEncoder;
+
+    gifEncoder.onmessage = (e) => {
+      const { type, ...data } = e.data;
+
+      switch (type) {
+        case "complete":
+          setMorphStatus(null);
+          setMorphGifUrl(URL.createObjectURL(data.blob));
+          break;
+
+        case "error":
+          setMorphStatus(null);
+          setError(`GIF encoding failed: ${data.message}`);
+          break;
+      }
+    };
+
+    return () => {
+      worker.terminate();
+      gifEncoder.terminate();
+      workerRef.current = null;
+      gifEncoderWorkerRef.current = null;
+    };
+  }, []);
+
+  // Release each morph GIF once it's replaced or the panel goes away
+  useEffect(
+    () => () => {
+      if (morphGifUrl) URL.revokeObjectURL(morphGifUrl);
+    },
+    [morphGifUrl],
+  );
+
+  // Square thumbnails of the set, then a fresh autoencoder on them
+  const handleLoad = useCallback(async () => {
+    setError(null);
+    try {
+      const images = await Promise.all(
+        MOMENT_IMAGES.map((url) =>
+          loadSquareImage(url, AUTOENCODER_IMAGE_SIZE),
+        ),
+      );
+      imagesRef.current = images;
+      setOriginals(
+        images.map((image) =>
+          pixelsToUrl(image.data, image.width, image.height),
+        ),
+      );
+      initialize(latentSize);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : String(loadError));
+    }
+  }, [initialize, latentSize]);
+
+  const handleLatentSizeChange = useCallback(
+    (size: number) => {
+      setLatentSize(size);
+      initialize(size);
+    },
+    [initialize],
+  );
+
+  const toggleTraining = useCallback(() => {
+    workerRef.current?.postMessage({ type: isTraining ? "stop" : "start" });
+    setIsTraining(!isTraining);
+  }, [isTraining]);
+
+  const handleMorph = useCallback(() => {
+    setError(null);
+    setMorphStatus("Decoding frames");
+    workerRef.current?.postMessage({
+      type: "latentMorph",
+      from: morphFrom,
+      to: morphTo,
+      frameCount: morphFrameCount,
+    });
+  }, [morphFrom, morphTo, morphFrameCount]);
+
+  const handleDownloadMorph = useCallback(() => {
+    if (!morphGifUrl) return;
+    const a = document.createElement("a");
+    a.href = morphGifUrl;
+    a.download = `latent-morph-${morphFrom + 1}-${morphTo + 1}-${Date.now()}.gif`;
+    a.click();
+  }, [morphGifUrl, morphFrom, morphTo]);
+
+  // Refresh the reconstructions while training
+  useEffect(() => {
+    if (!isTraining) return;
+    const interval = window.setInterval(() => {
+      workerRef.current?.postMessage({ type: "render" });
+    }, RENDER_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isTraining]);
+
+  const pixelValues = AUTOENCODER_IMAGE_SIZE * AUTOENCODER_IMAGE_SIZE * 3;
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-4 md:p-6 my-8">
+      <h2 className="text-lg md:text-xl font-semibold mb-2">Autoencoder</h2>
+      <p className="text-xs md:text-sm text-muted-foreground mb-4">
+        The painter above memorizes one photo. Here a network learns all{" "}
+        {MOMENT_IMAGES.length} moments at once: an encoder squeezes each{" "}
+        {AUTOENCODER_IMAGE_SIZE}×{AUTOENCODER_IMAGE_SIZE} photo (
+        {pixelValues.toLocaleString()} numbers) into a latent vector of{" "}
+        {latentSize}, and a decoder has to rebuild the photo from those{" "}
+        {latentSize} numbers alone. The smaller the latent, the more it has to
+        keep only what the photos have in common.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        <div>
+          <label
+            htmlFor={latentSizeId}
+            className="block text-sm font-medium mb-1"
+          >
+            Latent Size
+          </label>
+          <select
+            id={latentSizeId}
+            value={latentSize}
+            onChange={(e) => handleLatentSizeChange(Number(e.target.value))}
+            disabled={isTraining}
+            className="bg-background border border-border rounded-md px-2 py-1 text-sm"
+          >
+            {LATENT_SIZES.map((size) => (
+              <option key={size} value={size}>
+                {size} numbers
+              </option>
+            ))}
+          </select>
+        </div>
+        {originals.length === 0 ? (
+          <button
+            type="button"
+            onClick={handleLoad}
+            className="px-4 py-2 bg-primary text-primary-foreground rounded-md text-sm font-medium hover:opacity-90 transition-opacity"
+          >
+            Load Moments
+          </button>
+        ) : (
+          <>
+            <button
+              type="button"
+              onClick={toggleTraining}
+              disabled={!ready}
+              className="px-4 py-2 bg-primary text-primary-foreground rounded-md text-sm font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+            >
+              {isTraining ? "Pause" : "Train"}
+            </button>
+            <button
+              type="button"
+              onClick={() => initialize(latentSize)}
+              disabled={!ready}
+              className="px-4 py-2 bg-secondary text-secondary-foreground rounded-md text-sm font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+            >
+              Reset
+            </button>
+          </>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-500 mb-4">{error}</p>}
+
+      {originals.length > 0 && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4 text-sm">
+            <div>
+              <div className="text-muted-foreground text-xs">Latent</div>
+              <div className="font-mono">
+                {pixelValues.toLocaleString()} → {latentSize} (
+                {Math.round(pixelValues / latentSize)}× smaller)
+              </div>
+            </div>
+            <div>
+              <div className="text-muted-foreground text-xs">Iteration</div>
+              <div className="font-mono">
+                {progress.iteration.toLocaleString()}
+              </div>
+            </div>
+            <div>
+              <div className="text-muted-foreground text-xs">Loss (MSE)</div>
+              <div className="font-mono">{progress.loss.toFixed(5)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground text-xs">
+                Parameters / Speed
+              </div>
+              <div className="font-mono">
+                {parameterCount.toLocaleString()} /{" "}
+                {progress.iterationsPerSecond.toFixed(0)} it/s
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 md:grid-cols-7 gap-2">
+            {originals.map((url, i) => (
+              <div key={MOMENT_IMAGES[i]} className="flex flex-col gap-1">
+                <img
+                  src={url}
+                  alt={`Moment ${i + 1}`}
+                  className="w-full rounded-sm"
+                  style={{ imageRendering: "pixelated" }}
+                />
+                {reconstructions[i] ? (
+                  <img
+                    src={reconstructions[i]}
+                    alt={`Reconstruction of moment ${i + 1}`}
+                    className="w-full rounded-sm"
+                    style={{ imageRendering: "pixelated" }}
+                  />
+                ) : (
+                  <div className="w-full aspect-square bg-muted rounded-sm" />
+                )}
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground mt-2">
+            Top: each photo as the encoder sees it. Bottom: what the decoder
+            makes of its latent vector.
+          </p>
+
+          {/* Latent Morph */}
+          <div className="mt-6 pt-4 border-t border-border">
+            <h3 className="text-md font-semibold mb-2">Latent Morph</h3>
+            <p className="text-xs text-muted-foreground mb-3">
+              Walks from one photo's latent vector to another's in a straight
+              line and decodes every step. Unlike a cross-fade of the pixels,
+              each frame is a picture the decoder believes in, so shapes and
+              colors shift rather than ghost through each other. Works best
+              once the reconstructions look like the photos.
+            </p>
+            <div className="flex flex-wrap items-end gap-3">
+              <div>
+                <label
+                  htmlFor={morphFromId}
+                  className="block text-sm font-medium mb-1"
+                >
+                  From
+                </label>
+                <select
+                  id={morphFromId}
+                  value={morphFrom}
+                  onChange={(e) => setMorphFrom(Number(e.target.value))}
+                  className="bg-background border border-border rounded-md px-2 py-1 text-sm"
+                >
+                  {MOMENT_IMAGES.map((url, i) => (
+                    <option key={url} value={i}>
+                      {i + 1}. {url.split("/").pop()}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label
+                  htmlFor={morphToId}
+                  className="block text-sm font-medium mb-1"
+                >
+                  To
+                </label>
+                <select
+                  id={morphToId}
+                  value={morphTo}
+                  onChange={(e) => setMorphTo(Number(e.target.value))}
+                  className="bg-background border border-border rounded-md px-2 py-1 text-sm"
+                >
+                  {MOMENT_IMAGES.map((url, i) => (
+                    <option key={url} value={i}>
+                      {i + 1}. {url.split("/").pop()}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label
+                  htmlFor={morphFramesId}
+                  className="block text-sm font-medium mb-1"
+                >
+                  Frames: {morphFrameCount}
+                </label>
+                <input
+                  id={morphFramesId}
+                  type="range"
+                  min="2"
+                  max="60"
+                  value={morphFrameCount}
+                  onChange={(e) => setMorphFrameCount(Number(e.target.value))}
+                  className="w-32"
+                />
+              </div>
+              <button
+                type="button"
+                onClick={handleMorph}
+                disabled={!ready || morphStatus !== null}
+                className="px-4 py-2 bg-primary text-primary-foreground rounded-md text-sm font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+              >
+                {morphStatus ?? "Create Morph GIF"}
+              </button>
+            </div>
+
+            {morphGifUrl && (
+              <div className="flex flex-col items-center gap-3 mt-4">
+                <img
+                  src={morphGifUrl}
+                  alt="Latent morph between two moments"
+                  className="rounded-md w-64"
+                  style={{ imageRendering: "pixelated" }}
+                />
+                <button
+                  type="button"
+                  onClick={handleDownloadMorph}
+                  className="px-4 py-2 bg-secondary text-secondary-foreground rounded-md text-sm font-medium hover:opacity-90 transition-opacity"
+                >
+                  Download GIF
+                </button>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import {
+  ERROR_MAP_CEILING,
+  type ErrorView,
+  heatColor,
+} from "../lib/error-map";
+
+// CSS version of the heat ramp, for the legend bar
+const HEAT_GRADIENT = `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1]
+  .map((t) => `rgb(${heatColor(t).join(", ")})`)
+  .join(", ")})`;
+
+// Key for an error map: the ramp with its error range, or what the
+// difference view's colors mean
+export function ErrorMapLegend({ view }: { view: ErrorView }) {
+  if (view === "difference") {
+    return (
+      <p className="text-xs text-muted-foreground mt-2 text-center">
+        Each channel shows its own error, brightened{" "}
+        {(255 / ERROR_MAP_CEILING).toFixed(0)}×: red where red is off, and so
+        on. Black is exact.
+      </p>
+    );
+  }
+
+  return (
+    <div className="w-full mt-2">
+      <div className="h-2 rounded-sm" style={{ background: HEAT_GRADIENT }} />
+      <div className="flex justify-between text-xs text-muted-foreground mt-1">
+        <span>0</span>
+        <span>{ERROR_MAP_CEILING / 2}</span>
+        <span>≥{ERROR_MAP_CEILING} / 255</span>
+      </div>
+    </div>
+  );
+}
@@ -8,53 +8,311 @@ import {
 } from "react";
 import Markdown from "react-markdown";
 import remarkGfm from "remark-gfm";
+import { DEFAULT_OMEGA_0, type LayerActivation } from "../lib/activations";
+import type { CheckpointSettings, CheckpointSummary } from "../lib/checkpoints";
+import { COLOR_SPACE_LABELS, type ColorSpace } from "../lib/color-spaces";
+import { BACKEND_LABELS, type BackendType } from "../lib/compute-backend";
+import {
+  ERROR_VIEW_LABELS,
+  type ErrorView,
+  errorMapImage,
+} from "../lib/error-map";
 import { calculateGifMemory } from "../lib/gif-utils";
+import {
+  DEFAULT_IN_BETWEEN_FRAMES,
+  INTERPOLATION_LABELS,
+  type InterpolationMode,
+  MAX_IN_BETWEEN_FRAMES,
+} from "../lib/snapshot-interpolation";
+import type { ImageMetrics } from "../lib/image-metrics";
+import {
+  ASPECT_MODE_LABELS,
+  type AspectMode,
+  type CropRegion,
+  cropRect,
+  layoutImage,
+} from "../lib/image-layout";
+import {
+  DEFAULT_LOSS,
+  describeLoss,
+  LOSS_LABELS,
+  type LossConfig,
+  type LossType,
+} from "../lib/loss-functions";
+import { MOMENT_IMAGES } from "../lib/moments";
+import { randomSeed } from "../lib/random";
+import { MAX_RENDER_SIZE } from "../lib/tiled-render";
+import { MAX_TRAINING_WORKERS } from "../lib/training-shards";
+import { DEFAULT_EMBEDDING_SIZE } from "../lib/worker-network";
+import { readZip } from "../lib/zip-reader";
+import {
+  DEFAULT_INPUT_ENCODING,
+  getEncodedInputSize,
+  type InputEncodingConfig,
+  type InputEncodingType,
+} from "../lib/input-encoding";
+import {
+  countParameters,
+  DEFAULT_ARCHITECTURE,
+  describeArchitecture,
+  estimateTrainingFlops,
+  type LayerSpec,
+  MAX_HIDDEN_LAYERS,
+  MAX_LAYER_SIZE,
+  type NetworkArchitecture,
+  withActivation,
+} from "../lib/network-architecture";
+import {
+  DEFAULT_MIN_LEARNING_RATE,
+  DEFAULT_SCHEDULER,
+  previewSchedule,
+  SCHEDULER_LABELS,
+  type SchedulerConfig,
+  type SchedulerType,
+} from "../lib/lr-schedulers";
+import {
+  type BatchMode,
+  DEFAULT_OPTIMIZER,
+  OPTIMIZER_LABELS,
+  type OptimizerConfig,
+  type OptimizerType,
+} from "../lib/optimizers";
+import { SAMPLING_LABELS, type SamplingMode } from "../lib/pixel-sampling";
 import {
   ChartContainer,
   ChartTooltip,
   ChartTooltipContent,
 } from "@/components/ui/chart";
+import { AutoencoderPanel } from "./AutoencoderPanel";
+import { ErrorMapLegend } from "./ErrorMapLegend";
+import { CropSelector, MaskPainter } from "./RegionSelector";
 import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
 
+// Settings that change the network's shape - changing them rebuilds it
+interface NetworkSettings {
+  inputEncoding: InputEncodingConfig;
+  architecture: NetworkArchitecture;
+  omega0: number;
+  colorSpace: ColorSpace;
+  backend: BackendType;
+  seed: number;
+}
+
 interface TrainingState {
   isTraining: boolean;
   iteration: number;
   loss: number;
   currentLearningRate: number;
+  // Full passes over the image (shuffled-epoch sampling only)
+  epoch: number;
+  // Training throughput measured by the worker
+  iterationsPerSecond: number;
+  // Full-image MSE, PSNR and SSIM, measured every so often by the worker
+  // (null until the current network has been measured)
+  metrics: ImageMetrics | null;
 }
 
-// Preset images in public/moments
-const MOMENT_IMAGES = [
-  "/moments/brussels.jpg",
-  "/moments/sausalito.jpg",
-  "/moments/surprise.JPG",
-  "/moments/france.JPG",
-];
+// Conversion functions for logarithmic slider
+function sliderToIterations(sliderValue: number): number {
+  const minLog = Math.log10(10_000);
+  const maxLog = Math.log10(1_000_000);
+  const logValue = minLog + (sliderValue / 100) * (maxLog - minLog);
+  return Math.round(Math.pow(10, logValue));
+}
 
-export function ImagePainter() {
-  // Conversion functions for logarithmic slider
-  function sliderToIterations(sliderValue: number): number {
-    const minLog = Math.log10(10_000);
-    const maxLog = Math.log10(1_000_000);
-    const logValue = minLog + (sliderValue / 100) * (maxLog - minLog);
-    return Math.round(Math.pow(10, logValue));
+function iterationsToSlider(iterations: number): number {
+  const minLog = Math.log10(10_000);
+  const maxLog = Math.log10(1_000_000);
+  const logValue = Math.log10(iterations);
+  return Math.round(((logValue - minLog) / (maxLog - minLog)) * 100);
+}
+
+// Draw a photo (or the cropped part of it) into a training image whose long
+// side is `size`, fitted according to the aspect mode (letterbox bars are
+// black)
+function rasterizeImage(
+  img: HTMLImageElement,
+  size: number,
+  mode: AspectMode,
+  crop: CropRegion | null = null,
+): { data: ImageData; url: string } | null {
+  const source = cropRect(img.naturalWidth, img.naturalHeight, crop);
+  const layout = layoutImage(source.width, source.height, size, mode);
+  const canvas = document.createElement("canvas");
+  canvas.width = layout.width;
+  canvas.height = layout.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+
+  ctx.fillStyle = "#000";
+  ctx.fillRect(0, 0, layout.width, layout.height);
+  ctx.drawImage(
+    img,
+    source.x,
+    source.y,
+    source.width,
+    source.height,
+    layout.drawX,
+    layout.drawY,
+    layout.drawWidth,
+    layout.drawHeight,
+  );
+  return {
+    data: ctx.getImageData(0, 0, layout.width, layout.height),
+    url: canvas.toDataURL(),
+  };
+}
+
+// A source image with the training image rasterized from it
+interface RasterizedImage {
+  img: HTMLImageElement;
+  data: ImageData;
+  url: string;
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load ${url}`));
+    img.src = url;
+  });
+}
+
+// Longest clip the network learns, and the rate frames are taken from a
+// video at (so a video gives at most MAX_CLIP_FRAMES / CLIP_FPS seconds)
+const MAX_CLIP_FRAMES = 24;
+const CLIP_FPS = 8;
+const FRAME_FILE = /\.(png|jpe?g|webp|gif|bmp)$/i;
+
+function seekVideo(video: HTMLVideoElement, time: number): Promise<void> {
+  return new Promise((resolve) => {
+    video.onseeked = () => resolve();
+    video.currentTime = time;
+  });
+}
+
+// Frames of a video file, CLIP_FPS a second from the start, as data URLs
+async function videoFrameUrls(file: File): Promise<string[]> {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement("video");
+  video.muted = true;
+  video.preload = "auto";
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadeddata = () => resolve();
+      video.onerror = () =>
+        reject(new Error("This browser can't decode the video"));
+      video.src = url;
+    });
+    // Streamed recordings (e.g. from MediaRecorder) can report an Infinity
+    // or NaN duration, which leaves nothing to count frames from
+    if (!Number.isFinite(video.duration)) {
+      throw new Error(
+        "The video's length is unknown; re-save it or upload a zip of frames",
+      );
+    }
+    const count = Math.min(
+      MAX_CLIP_FRAMES,
+      Math.max(1, Math.floor(video.duration * CLIP_FPS)),
+    );
+    const canvas = document.createElement("canvas");
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas 2D is unavailable");
+
+    const urls: string[] = [];
+    for (let i = 0; i < count; i++) {
+      await seekVideo(video, i / CLIP_FPS);
+      ctx.drawImage(video, 0, 0);
+      urls.push(canvas.toDataURL());
+    }
+    return urls;
+  } finally {
+    URL.revokeObjectURL(url);
   }
+}
+
+// The frames of an uploaded clip: a video, or a zip of images taken in
+// file name order (frame2 before frame10), at most MAX_CLIP_FRAMES of either
+async function loadClipFrames(file: File): Promise<HTMLImageElement[]> {
+  if (file.type.startsWith("video/")) {
+    return Promise.all((await videoFrameUrls(file)).map(loadImage));
+  }
+
+  const entries = (await readZip(await file.arrayBuffer()))
+    .filter((entry) => FRAME_FILE.test(entry.name))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
+    .slice(0, MAX_CLIP_FRAMES);
+  const urls = entries.map((entry) =>
+    URL.createObjectURL(new Blob([entry.data])),
+  );
+  try {
+    return await Promise.all(urls.map(loadImage));
+  } finally {
+    for (const url of urls) URL.revokeObjectURL(url);
+  }
+}
 
-  function iterationsToSlider(iterations: number): number {
-    const minLog = Math.log10(10_000);
-    const maxLog = Math.log10(1_000_000);
-    const logValue = Math.log10(iterations);
-    return Math.round(((logValue - minLog) / (maxLog - minLog)) * 100);
+// Draw how a rendered frame differs from the training image. Skipped when
+// they don't line up, e.g. a render from before the image changed.
+function drawErrorMap(
+  canvas: HTMLCanvasElement | null,
+  rendered: Uint8ClampedArray | undefined,
+  target: Uint8ClampedArray | null,
+  view: ErrorView,
+) {
+  const ctx = canvas?.getContext("2d");
+  if (!canvas || !ctx || !rendered || !target) return;
+  if (
+    rendered.length !== target.length ||
+    target.length !== canvas.width * canvas.height * 4
+  ) {
+    return;
   }
+  ctx.putImageData(
+    new ImageData(
+      errorMapImage(rendered, target, view),
+      canvas.width,
+      canvas.height,
+    ),
+    0,
+    0,
+  );
+}
 
+export function ImagePainter() {
   const imageUploadId = useId();
+  const clipUploadId = useId();
+  const clipTimeId = useId();
+  const clipGifFramesId = useId();
   const imageSizeId = useId();
+  const aspectModeId = useId();
+  const brushRadiusId = useId();
+  const maskEmphasisId = useId();
+  const eraseMaskId = useId();
   const learningRateId = useId();
   const momentumId = useId();
   const batchSizeId = useId();
+  const batchModeId = useId();
+  const samplingModeId = useId();
+  const backendId = useId();
+  const workerCountId = useId();
+  const seedId = useId();
   const renderIntervalId = useId();
   const maxIterationsId = useId();
   const snapshotModeId = useId();
+  const inputEncodingId = useId();
+  const encodingParamId = useId();
+  const layerCountId = useId();
+  const omega0Id = useId();
+  const colorSpaceId = useId();
+  const optimizerId = useId();
+  const lossId = useId();
+  const huberDeltaId = useId();
+  const weightDecayId = useId();
+  const schedulerId = useId();
 
   const [imageLoaded, setImageLoaded] = useState(false);
   const [originalImageUrl, setOriginalImageUrl] = useState<string | null>(null);
@@ -66,9 +324,24 @@ export function ImagePainter() {
     iteration: 0,
     loss: 0,
     currentLearningRate: 0.01,
+    epoch: 0,
+    iterationsPerSecond: 0,
+    metrics: null,
   });
   const [workerReady, setWorkerReady] = useState(false);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
+  // One network for every moment, told which to paint by a learned
+  // embedding per image (switching images then keeps the training going)
+  const [trainAllMoments, setTrainAllMoments] = useState(false);
+  // Moment blended with the current one by mixing their embeddings
+  const [blendWith, setBlendWith] = useState<number | null>(null);
+  const [blendAmount, setBlendAmount] = useState(0.5);
+  // Frames of the uploaded clip the network is learning (null = no clip),
+  // the position shown (0 = first frame, 1 = last) and the length of the
+  // exported GIF
+  const [clipFrameCount, setClipFrameCount] = useState<number | null>(null);
+  const [clipPosition, setClipPosition] = useState(0);
+  const [clipGifFrames, setClipGifFrames] = useState(24);
   const [parametersExpanded, setParametersExpanded] = useState(false);
   const [showFullResolution, setShowFullResolution] = useState(true);
   const [blogContent, setBlogContent] = useState("");
@@ -77,7 +350,61 @@ export function ImagePainter() {
   const [learningRate, setLearningRate] = useState(0.01); // Initial learning rate, will decay automatically
   const [momentum, setMomentum] = useState(0.9);
   const [batchSize, setBatchSize] = useState(5);
+  const [batchMode, setBatchMode] = useState<BatchMode>("minibatch");
+  const [samplingMode, setSamplingMode] =
+    useState<SamplingMode>("replacement");
   const [renderInterval, setRenderInterval] = useState(100);
+  const [inputEncoding, setInputEncoding] = useState<InputEncodingConfig>(
+    DEFAULT_INPUT_ENCODING,
+  );
+  const [architecture, setArchitecture] =
+    useState<NetworkArchitecture>(DEFAULT_ARCHITECTURE);
+  const [omega0, setOmega0] = useState(DEFAULT_OMEGA_0);
+  const [colorSpace, setColorSpace] = useState<ColorSpace>("rgb");
+  const [backend, setBackend] = useState<BackendType>("wasm");
+  // Backend the worker actually picked (WASM falls back to JS if unsupported)
+  const [activeBackend, setActiveBackend] = useState<BackendType | null>(
+    null,
+  );
+  const [workerCount, setWorkerCount] = useState(1);
+  // Run seed - the same seed, image and settings reproduce a run exactly
+  const [seed, setSeed] = useState(randomSeed);
+  // High-resolution PNG export: a multiple of the training size or any size
+  const [exportScale, setExportScale] = useState<number | "custom">(4);
+  const [exportCustomSize, setExportCustomSize] = useState({
+    width: 1024,
+    height: 1024,
+  });
+  const [exportProgress, setExportProgress] = useState<{
+    width: number;
+    height: number;
+    completed: number;
+    total: number;
+  } | null>(null);
+  // Latest checkpoint in IndexedDB (from this session or an earlier one)
+  const [savedCheckpoint, setSavedCheckpoint] =
+    useState<CheckpointSummary | null>(null);
+  // What the training worker reports after (re)starting its shard workers
+  const [trainingWorkers, setTrainingWorkers] = useState<{
+    count: number;
+    sharedMemory: boolean;
+    error?: string;
+  } | null>(null);
+  const maxWorkerCount = useMemo(
+    () =>
+      Math.min(
+        MAX_TRAINING_WORKERS,
+        typeof navigator !== "undefined"
+          ? navigator.hardwareConcurrency || 4
+          : 4,
+      ),
+    [],
+  );
+  const [optimizer, setOptimizer] =
+    useState<OptimizerConfig>(DEFAULT_OPTIMIZER);
+  const [loss, setLoss] = useState<LossConfig>(DEFAULT_LOSS);
+  const [scheduler, setScheduler] =
+    useState<SchedulerConfig>(DEFAULT_SCHEDULER);
   // Default to 128px on non-mobile, 64px on mobile
   const [imageSize, setImageSize] = useState(() => {
     if (typeof window !== "undefined") {
@@ -85,11 +412,52 @@ export function ImagePainter() {
     }
     return 128;
   });
+  const [aspectMode, setAspectMode] = useState<AspectMode>("native");
+  // Region of the photo to train on (null = whole photo)
+  const [crop, setCrop] = useState<CropRegion | null>(null);
+  // Painted pixels sampled `maskEmphasis` times as often as the rest
+  const [importanceMask, setImportanceMask] = useState<Uint8Array | null>(
+    null,
+  );
+  const [maskEmphasis, setMaskEmphasis] = useState(4);
+  const [brushRadius, setBrushRadius] = useState(6);
+  const [eraseMask, setEraseMask] = useState(false);
+  // Where the worker is drawing training pixels from (null = uniform)
+  const [samplingHeatmap, setSamplingHeatmap] = useState<ImageData | null>(
+    null,
+  );
+  const [showSamplingHeatmap, setShowSamplingHeatmap] = useState(false);
+  // The painted output itself, or how far it is from the original
+  const [outputView, setOutputView] = useState<"painted" | ErrorView>(
+    "painted",
+  );
+  // Latest frame from the worker, for the error view
+  const [latestRender, setLatestRender] = useState<ImageData | null>(null);
+  // Which overlay the original image shows
+  const [regionTool, setRegionTool] = useState<"none" | "crop" | "mask">(
+    "none",
+  );
+  // Actual training image size (the long side is imageSize)
+  const [trainingSize, setTrainingSize] = useState(() => ({
+    width: imageSize,
+    height: imageSize,
+  }));
 
   // GIF generation state
+  const exportScaleId = useId();
+  const exportWidthId = useId();
+  const exportHeightId = useId();
   const gifFrameCountId = useId();
+  const gifInterpolationId = useId();
+  const gifInBetweenId = useId();
   const autoCaptureId = useId();
   const [gifFrameCount, setGifFrameCount] = useState(50);
+  // Frames added between consecutive snapshots of the journey, and how
+  const [gifInterpolation, setGifInterpolation] =
+    useState<InterpolationMode>("none");
+  const [gifInBetweenFrames, setGifInBetweenFrames] = useState(
+    DEFAULT_IN_BETWEEN_FRAMES,
+  );
   const [autoCaptureEnabled, setAutoCaptureEnabled] = useState(true);
   const [maxIterations, setMaxIterations] = useState(100_000);
   const [maxIterationsSlider, setMaxIterationsSlider] = useState(() =>
@@ -111,27 +479,91 @@ export function ImagePainter() {
   // Snapshot metadata state
   interface SnapshotMetadata {
     iteration: number;
+    // Mini-batch loss when the snapshot was taken
     mse: number;
+    // Loss the network was being trained with
+    loss: LossConfig;
+    // Full-image metrics (null if the snapshot wasn't measured)
+    imageMse: number | null;
+    psnr: number | null;
+    ssim: number | null;
     learningRate: number;
+    architecture: NetworkArchitecture;
+    seed: number;
   }
   const [snapshotMetadata, setSnapshotMetadata] = useState<SnapshotMetadata[]>([]);
 
   // Generated GIF state
   const [generatedGifUrl, setGeneratedGifUrl] = useState<string | null>(null);
 
+  // Network size and training cost for the parameters panel
+  const networkCost = useMemo(() => {
+    const inputSize = getEncodedInputSize(inputEncoding);
+    return {
+      parameters: countParameters(architecture, inputSize, 3),
+      flopsPerIteration:
+        estimateTrainingFlops(architecture, inputSize, 3) * batchSize,
+    };
+  }, [architecture, inputEncoding, batchSize]);
+
+  // Losses the captured snapshots were trained with, in order, for labels
+  const snapshotLossLabel = [
+    ...new Set(snapshotMetadata.map((snapshot) => describeLoss(snapshot.loss))),
+  ].join(" → ");
+
+  // Scheduled learning-rate curve, merged with the rates actually captured
+  const learningRateChartData = useMemo(() => {
+    const preview = previewSchedule(scheduler, {
+      baseLearningRate: learningRate,
+      minLearningRate: DEFAULT_MIN_LEARNING_RATE,
+      totalIterations: maxIterations,
+    });
+    const captured = snapshotMetadata.map((m) => ({
+      iteration: m.iteration,
+      learningRate: m.learningRate,
+    }));
+    return [...preview, ...captured].sort((a, b) => a.iteration - b.iteration);
+  }, [scheduler, learningRate, maxIterations, snapshotMetadata]);
+
   // Calculate memory estimate for GIF
   const memoryEstimate = useMemo(
-    () => calculateGifMemory(imageSize, imageSize, gifFrameCount),
-    [imageSize, gifFrameCount],
+    () =>
+      calculateGifMemory(
+        trainingSize.width,
+        trainingSize.height,
+        gifFrameCount,
+        gifInterpolation === "none" ? 0 : gifInBetweenFrames,
+      ),
+    [trainingSize, gifFrameCount, gifInterpolation, gifInBetweenFrames],
   );
 
   const workerRef = useRef<Worker | null>(null);
   const gifEncoderWorkerRef = useRef<Worker | null>(null);
+  const modelInputRef = useRef<HTMLInputElement>(null);
+  // Canvas the export tiles are drawn into (also the progressive preview)
+  const exportCanvasRef = useRef<HTMLCanvasElement>(null);
+  // Id of the export in flight; tiles from older ones are ignored
+  const exportRequestRef = useRef(0);
   const outputCanvasRef = useRef<HTMLCanvasElement>(null);
+  const heatmapCanvasRef = useRef<HTMLCanvasElement>(null);
+  const errorCanvasRef = useRef<HTMLCanvasElement>(null);
+  const snapshotErrorCanvasRef = useRef<HTMLCanvasElement>(null);
+  // Rendered pixels of each snapshot, indexed like snapshotFrames
+  const snapshotPixelsRef = useRef<Uint8ClampedArray[]>([]);
   const renderIntervalRef = useRef<number | null>(null);
   // Store the original image element so we can resize it
   const originalImageRef = useRef<HTMLImageElement | null>(null);
   const imageDataRef = useRef<Uint8ClampedArray | null>(null);
+  // Every moment rasterized for the multi-image network, like MOMENT_IMAGES
+  const momentSetRef = useRef<RasterizedImage[] | null>(null);
+  // Every frame of the uploaded clip, rasterized
+  const clipFramesRef = useRef<RasterizedImage[] | null>(null);
+  // In-between frame settings for GIFs generated when training completes
+  // (the worker's message handler is set up once, so it reads them here)
+  const gifInBetweenRef = useRef({
+    interpolation: "none" as InterpolationMode,
+    frames: DEFAULT_IN_BETWEEN_FRAMES,
+  });
 
   // Load image from URL
   const loadImageFromUrl = useCallback(
@@ -150,30 +582,42 @@ export function ImagePainter() {
             // Process after a small delay to ensure worker is initialized
             setTimeout(() => {
               if (originalImageRef.current) {
-                const canvas = document.createElement("canvas");
-                canvas.width = imageSize;
-                canvas.height = imageSize;
-                const ctx = canvas.getContext("2d");
-                if (!ctx || !workerRef.current) return;
-
-                ctx.drawImage(img, 0, 0, imageSize, imageSize);
-                const data = ctx.getImageData(0, 0, imageSize, imageSize);
+                const image = rasterizeImage(img, imageSize, aspectMode);
+                if (!image || !workerRef.current) return;
+                const { data, url } = image;
 
                 // Store image data for GIF generation
                 imageDataRef.current = new Uint8ClampedArray(data.data);
 
-                setOriginalImageUrl(canvas.toDataURL());
+                setOriginalImageUrl(url);
+                setTrainingSize({ width: data.width, height: data.height });
+                setImportanceMask(null);
                 setImageLoaded(true);
                 setWorkerReady(false);
+                setTrainAllMoments(false);
+                setClipFrameCount(null);
 
                 workerRef.current.postMessage({
                   type: "init",
                   imageData: data.data,
-                  width: imageSize,
-                  height: imageSize,
+                  width: data.width,
+                  height: data.height,
                   learningRate,
                   momentum,
+                  optimizer,
+                  loss,
+                  scheduler,
+                  maxIterations,
                   batchSize,
+                  batchMode,
+                  samplingMode,
+                  inputEncoding,
+                  architecture,
+                  omega0,
+                  colorSpace,
+                  backend,
+                  workerCount,
+                  seed,
                 });
 
                 // Auto-start training if requested
@@ -215,9 +659,22 @@ export function ImagePainter() {
     },
     [
       imageSize,
+      aspectMode,
       learningRate,
       momentum,
+      optimizer,
+      loss,
+      scheduler,
       batchSize,
+      batchMode,
+      samplingMode,
+      inputEncoding,
+      architecture,
+      omega0,
+      colorSpace,
+      backend,
+      workerCount,
+      seed,
       autoCaptureEnabled,
       gifFrameCount,
       maxIterations,
@@ -225,8 +682,12 @@ export function ImagePainter() {
     ],
   );
 
-  // Load default image on mount
+  // Load default image on mount. Only once: loadImageFromUrl changes with
+  // every setting, and re-running would replace an imported or resumed run.
+  const defaultImageLoadedRef = useRef(false);
   useEffect(() => {
+    if (defaultImageLoadedRef.current) return;
+    defaultImageLoadedRef.current = true;
     loadImageFromUrl(MOMENT_IMAGES[0], true);
   }, [loadImageFromUrl]);
 
@@ -250,8 +711,28 @@ export function ImagePainter() {
     });
   }, []);
 
+  // Show another moment of the set: the worker swaps the embedding it
+  // renders with, and training carries on
+  const showMoment = useCallback((index: number) => {
+    const moment = momentSetRef.current?.[index];
+    if (!moment) return;
+    originalImageRef.current = moment.img;
+    imageDataRef.current = new Uint8ClampedArray(moment.data.data);
+    setCurrentImageIndex(index);
+    setFullResolutionImageUrl(MOMENT_IMAGES[index]);
+    setOriginalImageUrl(moment.url);
+    setTrainingSize({ width: moment.data.width, height: moment.data.height });
+    setBlendWith(null);
+    workerRef.current?.postMessage({ type: "selectImage", index });
+  }, []);
+
   // Navigate to next/previous image
   const goToNextImage = useCallback(() => {
+    if (trainAllMoments) {
+      showMoment((currentImageIndex + 1) % MOMENT_IMAGES.length);
+      return;
+    }
+
     // Stop training if running
     if (trainingState.isTraining) {
       setTrainingState((prev) => ({ ...prev, isTraining: false }));
@@ -260,13 +741,28 @@ export function ImagePainter() {
 
     // Reset snapshots but keep GIF preview
     resetSnapshotsOnly();
+    setCrop(null);
 
     const nextIndex = (currentImageIndex + 1) % MOMENT_IMAGES.length;
     setCurrentImageIndex(nextIndex);
     loadImageFromUrl(MOMENT_IMAGES[nextIndex], true);
-  }, [currentImageIndex, loadImageFromUrl, trainingState.isTraining, resetSnapshotsOnly]);
+  }, [
+    currentImageIndex,
+    loadImageFromUrl,
+    trainingState.isTraining,
+    resetSnapshotsOnly,
+    trainAllMoments,
+    showMoment,
+  ]);
 
   const goToPrevImage = useCallback(() => {
+    if (trainAllMoments) {
+      showMoment(
+        (currentImageIndex - 1 + MOMENT_IMAGES.length) % MOMENT_IMAGES.length,
+      );
+      return;
+    }
+
     // Stop training if running
     if (trainingState.isTraining) {
       setTrainingState((prev) => ({ ...prev, isTraining: false }));
@@ -275,35 +771,48 @@ export function ImagePainter() {
 
     // Reset snapshots but keep GIF preview
     resetSnapshotsOnly();
+    setCrop(null);
 
     const prevIndex =
       (currentImageIndex - 1 + MOMENT_IMAGES.length) % MOMENT_IMAGES.length;
     setCurrentImageIndex(prevIndex);
     loadImageFromUrl(MOMENT_IMAGES[prevIndex], true);
-  }, [currentImageIndex, loadImageFromUrl, trainingState.isTraining, resetSnapshotsOnly]);
+  }, [
+    currentImageIndex,
+    loadImageFromUrl,
+    trainingState.isTraining,
+    resetSnapshotsOnly,
+    trainAllMoments,
+    showMoment,
+  ]);
 
   // Process image at given size and initialize worker
   const processImage = useCallback(
-    (img: HTMLImageElement, size: number) => {
+    (
+      img: HTMLImageElement,
+      size: number,
+      mode: AspectMode,
+      region: CropRegion | null,
+    ) => {
       if (!workerRef.current) return;
 
-      // Create canvas to extract image data
-      const canvas = document.createElement("canvas");
-      canvas.width = size;
-      canvas.height = size;
-      const ctx = canvas.getContext("2d");
-      if (!ctx) return;
-
-      // Draw scaled image
-      ctx.drawImage(img, 0, 0, size, size);
-      const data = ctx.getImageData(0, 0, size, size);
+      // Draw the scaled (and cropped) image and extract its pixels
+      const image = rasterizeImage(img, size, mode, region);
+      if (!image) return;
+      const { data, url } = image;
 
       // Store image data for GIF generation
       imageDataRef.current = new Uint8ClampedArray(data.data);
 
-      setOriginalImageUrl(canvas.toDataURL());
+      setOriginalImageUrl(url);
+      setTrainingSize({ width: data.width, height: data.height });
+      // The worker drops the mask along with the old image
+      setImportanceMask(null);
       setImageLoaded(true);
       setWorkerReady(false);
+      // A single image replaces the set or clip
+      setTrainAllMoments(false);
+      setClipFrameCount(null);
 
       // Reset training state
       setTrainingState({
@@ -311,17 +820,33 @@ export function ImagePainter() {
         iteration: 0,
         loss: 0,
         currentLearningRate: learningRate,
+        epoch: 0,
+        iterationsPerSecond: 0,
+        metrics: null,
       });
 
       // Initialize worker with image data
       workerRef.current?.postMessage({
         type: "init",
         imageData: data.data,
-        width: size,
-        height: size,
+        width: data.width,
+        height: data.height,
         learningRate,
         momentum,
+        optimizer,
+        loss,
+        scheduler,
+        maxIterations,
         batchSize,
+        batchMode,
+        samplingMode,
+        inputEncoding,
+        architecture,
+        omega0,
+        colorSpace,
+        backend,
+        workerCount,
+        seed,
       });
 
       // Clear output canvas
@@ -329,11 +854,225 @@ export function ImagePainter() {
         const outputCtx = outputCanvasRef.current.getContext("2d");
         if (outputCtx) {
           outputCtx.fillStyle = "#000";
-          outputCtx.fillRect(0, 0, size, size);
+          outputCtx.fillRect(0, 0, data.width, data.height);
+        }
+      }
+    },
+    [
+      learningRate,
+      momentum,
+      optimizer,
+      loss,
+      scheduler,
+      maxIterations,
+      batchSize,
+      batchMode,
+      samplingMode,
+      inputEncoding,
+      architecture,
+      omega0,
+      colorSpace,
+      backend,
+      workerCount,
+      seed,
+    ],
+  );
+
+  // Start one network on a set of rasterized images: the moments (with
+  // `activeImage` on show) or the frames of a clip
+  const startImageSet = useCallback(
+    (
+      set: RasterizedImage[],
+      options: { activeImage?: number; clip?: boolean },
+    ) => {
+      if (!workerRef.current) return;
+      setCrop(null);
+      setRegionTool("none");
+      setImportanceMask(null);
+      setImageLoaded(true);
+      setWorkerReady(false);
+      setTrainingState({
+        isTraining: false,
+        iteration: 0,
+        loss: 0,
+        currentLearningRate: learningRate,
+        epoch: 0,
+        iterationsPerSecond: 0,
+        metrics: null,
+      });
+
+      workerRef.current.postMessage({
+        type: "init",
+        images: set.map(({ data }) => ({
+          imageData: data.data,
+          width: data.width,
+          height: data.height,
+        })),
+        ...options,
+        learningRate,
+        momentum,
+        optimizer,
+        loss,
+        scheduler,
+        maxIterations,
+        batchSize,
+        batchMode,
+        samplingMode,
+        inputEncoding,
+        architecture,
+        omega0,
+        colorSpace,
+        backend,
+        workerCount,
+        seed,
+      });
+    },
+    [
+      learningRate,
+      momentum,
+      optimizer,
+      loss,
+      scheduler,
+      maxIterations,
+      batchSize,
+      batchMode,
+      samplingMode,
+      inputEncoding,
+      architecture,
+      omega0,
+      colorSpace,
+      backend,
+      workerCount,
+      seed,
+    ],
+  );
+
+  // Rasterize every moment and start one network on all of them, showing
+  // moment `index`
+  const loadMomentSet = useCallback(
+    async (index: number) => {
+      const moments = await Promise.all(MOMENT_IMAGES.map(loadImage));
+      const set = [];
+      for (const img of moments) {
+        const image = rasterizeImage(img, imageSize, aspectMode);
+        if (!image) return;
+        set.push({ img, ...image });
+      }
+      if (!workerRef.current) return;
+
+      momentSetRef.current = set;
+      setTrainAllMoments(true);
+      setClipFrameCount(null);
+      showMoment(index);
+      startImageSet(set, { activeImage: index });
+    },
+    [imageSize, aspectMode, showMoment, startImageSet],
+  );
+
+  // Show the clip at `position` (0 = first frame, 1 = last): the frame
+  // nearest to it as the target, the network's painting at exactly that time
+  const showClipPosition = useCallback((position: number) => {
+    const frames = clipFramesRef.current;
+    if (!frames) return;
+    const frame = frames[Math.round(position * (frames.length - 1))];
+    originalImageRef.current = frame.img;
+    imageDataRef.current = new Uint8ClampedArray(frame.data.data);
+    setFullResolutionImageUrl(frame.img.src);
+    setOriginalImageUrl(frame.url);
+    setTrainingSize({ width: frame.data.width, height: frame.data.height });
+    setClipPosition(position);
+    workerRef.current?.postMessage({ type: "setTime", time: position * 2 - 1 });
+  }, []);
+
+  // Learn an uploaded clip (a video, or a zip of frames) as (x, y, t) -> rgb
+  const handleClipUpload = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file || !workerRef.current) return;
+
+      if (trainingState.isTraining) {
+        setTrainingState((prev) => ({ ...prev, isTraining: false }));
+        workerRef.current.postMessage({ type: "stop" });
+      }
+      try {
+        const frames = await loadClipFrames(file);
+        if (frames.length < 2) {
+          alert("A clip needs at least 2 frames");
+          return;
         }
+        const set = [];
+        for (const img of frames) {
+          const image = rasterizeImage(img, imageSize, aspectMode);
+          if (!image) return;
+          set.push({ img, ...image });
+        }
+
+        resetSnapshotsOnly();
+        clipFramesRef.current = set;
+        setClipFrameCount(set.length);
+        setTrainAllMoments(false);
+        setBlendWith(null);
+        showClipPosition(0);
+        startImageSet(set, { clip: true });
+      } catch (error) {
+        alert(
+          `Loading the clip failed: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+    },
+    [
+      trainingState.isTraining,
+      imageSize,
+      aspectMode,
+      resetSnapshotsOnly,
+      showClipPosition,
+      startImageSet,
+    ],
+  );
+
+  // Switch between one network per moment and one for all of them; either
+  // way training starts over
+  const handleTrainAllMomentsChange = useCallback(
+    (enabled: boolean) => {
+      if (trainingState.isTraining) {
+        setTrainingState((prev) => ({ ...prev, isTraining: false }));
+        workerRef.current?.postMessage({ type: "stop" });
+      }
+      resetSnapshotsOnly();
+      setBlendWith(null);
+
+      if (enabled) {
+        loadMomentSet(currentImageIndex).catch((error) =>
+          alert(`Loading the moments failed: ${error.message}`),
+        );
+      } else {
+        setCrop(null);
+        loadImageFromUrl(MOMENT_IMAGES[currentImageIndex]);
       }
     },
-    [learningRate, momentum, batchSize],
+    [
+      trainingState.isTraining,
+      resetSnapshotsOnly,
+      loadMomentSet,
+      loadImageFromUrl,
+      currentImageIndex,
+    ],
+  );
+
+  // Blend the current moment with another by mixing their embeddings
+  const handleBlendChange = useCallback(
+    (other: number | null, amount: number) => {
+      setBlendWith(other);
+      setBlendAmount(amount);
+      workerRef.current?.postMessage({
+        type: "selectImage",
+        index: currentImageIndex,
+        blendWith: other ?? currentImageIndex,
+        amount: other === null ? 0 : amount,
+      });
+    },
+    [currentImageIndex],
   );
 
   // Initialize worker
@@ -343,12 +1082,76 @@ export function ImagePainter() {
       { type: "module" },
     );
 
+    // Match every setting to a resumed checkpoint
+    const applyCheckpointSettings = (settings: CheckpointSettings) => {
+      setLearningRate(settings.learningRate);
+      setMomentum(settings.momentum);
+      setOptimizer(settings.optimizer);
+      setLoss(settings.loss ?? DEFAULT_LOSS);
+      setScheduler(settings.scheduler);
+      setMaxIterations(settings.maxIterations);
+      setMaxIterationsSlider(iterationsToSlider(settings.maxIterations));
+      setBatchSize(settings.batchSize);
+      setBatchMode(settings.batchMode);
+      setSamplingMode(settings.samplingMode);
+      setInputEncoding(settings.inputEncoding);
+      setArchitecture(settings.architecture);
+      setOmega0(settings.omega0);
+      setColorSpace(settings.colorSpace ?? "rgb");
+      setBackend(settings.backend);
+      setWorkerCount(settings.workerCount);
+      setSeed(settings.seed);
+    };
+
+    // Show the image a resumed checkpoint was trained on, and make it the one
+    // that resizing or GIF generation works from
+    const showResumedImage = (
+      pixels: Uint8ClampedArray,
+      width: number,
+      height: number,
+    ) => {
+      const canvas = document.createElement("canvas");
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return;
+      ctx.putImageData(
+        new ImageData(new Uint8ClampedArray(pixels), width, height),
+        0,
+        0,
+      );
+      const url = canvas.toDataURL();
+
+      const img = new Image();
+      img.src = url;
+      originalImageRef.current = img;
+      imageDataRef.current = new Uint8ClampedArray(pixels);
+      setImageSize(Math.max(width, height));
+      setTrainingSize({ width, height });
+      setCrop(null);
+      setImportanceMask(null);
+      setOriginalImageUrl(url);
+      setFullResolutionImageUrl(url);
+      setImageLoaded(true);
+    };
+
     workerRef.current.onmessage = (e) => {
       const { type, ...data } = e.data;
 
       switch (type) {
         case "ready":
           setWorkerReady(true);
+          setActiveBackend(data.backend);
+          break;
+
+        case "trainingWorkers":
+          setTrainingWorkers({
+            count: data.count,
+            sharedMemory: data.sharedMemory,
+            error: data.error,
+          });
+          // The worker falls back to training alone if shards can't start
+          if (data.error) setWorkerCount(data.count);
           break;
 
         case "progress":
@@ -357,6 +1160,9 @@ export function ImagePainter() {
             iteration: data.iteration,
             loss: data.loss,
             currentLearningRate: data.learningRate,
+            epoch: data.epoch,
+            iterationsPerSecond: data.iterationsPerSecond,
+            metrics: data.metrics,
           }));
           break;
 
@@ -372,15 +1178,31 @@ export function ImagePainter() {
             data.height,
           );
           ctx.putImageData(imageData, 0, 0);
+          setLatestRender(imageData);
           break;
         }
 
+        case "samplingHeatmap":
+          setSamplingHeatmap(
+            data.buffer
+              ? new ImageData(
+                  new Uint8ClampedArray(data.buffer),
+                  data.width,
+                  data.height,
+                )
+              : null,
+          );
+          break;
+
         case "reset":
           setTrainingState((prev) => ({
             ...prev,
             iteration: 0,
             loss: 0,
+            epoch: 0,
+            metrics: null,
           }));
+          setActiveBackend(data.backend);
           break;
 
         case "snapshotCaptured":
@@ -388,7 +1210,17 @@ export function ImagePainter() {
           // Store snapshot metadata
           setSnapshotMetadata(prev => [
             ...prev,
-            { iteration: data.iteration, mse: data.mse, learningRate: data.learningRate }
+            {
+              iteration: data.iteration,
+              mse: data.mse,
+              loss: data.loss ?? DEFAULT_LOSS,
+              imageMse: data.metrics?.mse ?? null,
+              psnr: data.metrics?.psnr ?? null,
+              ssim: data.metrics?.ssim ?? null,
+              learningRate: data.learningRate,
+              architecture: data.architecture,
+              seed: data.seed,
+            },
           ]);
           // Request a render of the latest snapshot for the carousel
           workerRef.current?.postMessage({
@@ -398,6 +1230,9 @@ export function ImagePainter() {
           break;
 
         case "snapshotRendered": {
+          snapshotPixelsRef.current[data.snapshotIndex] = new Uint8ClampedArray(
+            data.buffer,
+          );
           // Convert buffer to data URL for carousel
           const canvas = document.createElement("canvas");
           canvas.width = data.width;
@@ -434,7 +1269,7 @@ export function ImagePainter() {
             frames: data.frames,
             width: data.width,
             height: data.height,
-            fps: 10,
+            fps: data.fps ?? 10,
           });
           break;
         }
@@ -460,7 +1295,8 @@ export function ImagePainter() {
             workerRef.current?.postMessage({
               type: "generateGif",
               originalImageData: imageDataRef.current,
-              morphFrames: 3,
+              interpolation: gifInBetweenRef.current.interpolation,
+              morphFrames: gifInBetweenRef.current.frames,
             });
           }
           break;
@@ -470,6 +1306,129 @@ export function ImagePainter() {
           setIsGeneratingGif(false);
           alert(`GIF generation failed: ${data.message}`);
           break;
+
+        case "modelExported": {
+          const blob = new Blob([JSON.stringify(data.model)], {
+            type: "application/json",
+          });
+          const url = URL.createObjectURL(blob);
+          const a = document.createElement("a");
+          a.href = url;
+          a.download = `neural-painting-model-${data.model.training.iteration}.json`;
+          a.click();
+          URL.revokeObjectURL(url);
+          break;
+        }
+
+        case "modelImported":
+          // Match the settings to the imported network so it keeps training
+          // as-is; changing any of them afterwards rebuilds it as usual
+          setArchitecture(data.architecture);
+          setInputEncoding(data.inputEncoding);
+          setOmega0(data.omega0);
+          setColorSpace(data.colorSpace);
+          setSeed(data.seed);
+          setLoss(data.loss);
+          setTrainingState((prev) => ({
+            ...prev,
+            isTraining: false,
+            iteration: data.iteration,
+            loss: data.mse,
+            currentLearningRate: data.learningRate,
+            epoch: 0,
+            metrics: null,
+          }));
+          setCapturedSnapshots(0);
+          setSnapshotFrames([]);
+          setCurrentSnapshotIndex(0);
+          setSnapshotMetadata([]);
+          break;
+
+        case "modelError":
+          console.error("Model file error:", data.message);
+          alert(`Model import/export failed: ${data.message}`);
+          break;
+
+        case "renderTile": {
+          if (data.requestId !== exportRequestRef.current) break;
+          const canvas = exportCanvasRef.current;
+          const ctx = canvas?.getContext("2d");
+          if (!canvas || !ctx) break;
+
+          ctx.putImageData(
+            new ImageData(
+              new Uint8ClampedArray(data.buffer),
+              data.width,
+              data.height,
+            ),
+            data.left,
+            data.top,
+          );
+          setExportProgress((prev) =>
+            prev
+              ? { ...prev, completed: data.completed, total: data.total }
+              : prev,
+          );
+
+          if (data.completed === data.total) {
+            canvas.toBlob((blob) => {
+              if (!blob) return;
+              const url = URL.createObjectURL(blob);
+              const a = document.createElement("a");
+              a.href = url;
+              a.download = `neural-painting-${canvas.width}x${canvas.height}.png`;
+              a.click();
+              URL.revokeObjectURL(url);
+            }, "image/png");
+          }
+          break;
+        }
+
+        case "renderError":
+          if (data.requestId !== exportRequestRef.current) break;
+          console.error("Render error:", data.message);
+          setExportProgress(null);
+          alert(`Export failed: ${data.message}`);
+          break;
+
+        case "checkpointAvailable":
+        case "checkpointSaved":
+          setSavedCheckpoint(data.checkpoint);
+          break;
+
+        case "checkpointResumed":
+          applyCheckpointSettings(data.settings);
+          setSavedCheckpoint(data.checkpoint);
+          setActiveBackend(data.backend);
+          showResumedImage(
+            data.imageData,
+            data.checkpoint.width,
+            data.checkpoint.height,
+          );
+          // The worker restored the checkpoint's mask along with its sampler
+          setImportanceMask(data.importanceMask?.mask ?? null);
+          if (data.importanceMask) {
+            setMaskEmphasis(data.importanceMask.emphasis);
+          }
+          setTrainingState((prev) => ({
+            ...prev,
+            isTraining: false,
+            iteration: data.checkpoint.iteration,
+            loss: data.checkpoint.loss,
+            currentLearningRate: data.learningRate,
+            epoch: data.epoch,
+            metrics: null,
+          }));
+          setCapturedSnapshots(0);
+          setSnapshotFrames([]);
+          setCurrentSnapshotIndex(0);
+          setSnapshotMetadata([]);
+          break;
+
+        case "checkpointError":
+          console.error("Checkpoint error:", data.message);
+          alert(`Checkpoint failed: ${data.message}`);
+          break;
       }
     };
 
@@ -534,13 +1493,14 @@ export function ImagePainter() {
           originalImageRef.current = img;
           // Store full resolution image
           setFullResolutionImageUrl(e.target?.result as string);
-          processImage(img, imageSize);
+          setCrop(null);
+          processImage(img, imageSize, aspectMode, null);
         };
         img.src = e.target?.result as string;
       };
       reader.readAsDataURL(file);
     },
-    [imageSize, processImage],
+    [imageSize, aspectMode, processImage],
   );
 
   // Handle image size change - reprocess image at new size
@@ -548,10 +1508,46 @@ export function ImagePainter() {
     (newSize: number) => {
       setImageSize(newSize);
       if (originalImageRef.current) {
-        processImage(originalImageRef.current, newSize);
+        processImage(originalImageRef.current, newSize, aspectMode, crop);
+      }
+    },
+    [aspectMode, crop, processImage],
+  );
+
+  // Handle aspect mode change - reprocess image with the new fit
+  const handleAspectModeChange = useCallback(
+    (mode: AspectMode) => {
+      setAspectMode(mode);
+      if (originalImageRef.current) {
+        processImage(originalImageRef.current, imageSize, mode, crop);
+      }
+    },
+    [imageSize, crop, processImage],
+  );
+
+  // Train on a region of the photo (null = the whole photo)
+  const handleCropChange = useCallback(
+    (region: CropRegion | null) => {
+      setCrop(region);
+      if (originalImageRef.current) {
+        processImage(originalImageRef.current, imageSize, aspectMode, region);
       }
     },
-    [processImage],
+    [imageSize, aspectMode, processImage],
+  );
+
+  // Send the painted importance mask to the worker (null = uniform sampling)
+  const handleImportanceMaskChange = useCallback(
+    (mask: Uint8Array | null, emphasis: number) => {
+      setImportanceMask(mask);
+      setMaskEmphasis(emphasis);
+      workerRef.current?.postMessage({
+        type: "setImportanceMask",
+        mask,
+        emphasis,
+      });
+    },
+    [],
   );
 
   // Request render at interval
@@ -610,33 +1606,57 @@ export function ImagePainter() {
     snapshotMode,
   ]);
 
-  // Reset training
-  const resetTraining = useCallback(() => {
-    setTrainingState((prev) => ({
-      ...prev,
-      isTraining: false,
-    }));
+  // Reset training (optionally rebuilding the network with new settings)
+  const resetTraining = useCallback(
+    (overrides: Partial<NetworkSettings> = {}) => {
+      setTrainingState((prev) => ({
+        ...prev,
+        isTraining: false,
+      }));
 
-    setCapturedSnapshots(0);
-    setSnapshotFrames([]);
-    setCurrentSnapshotIndex(0);
-    setSnapshotMetadata([]);
+      setCapturedSnapshots(0);
+      setSnapshotFrames([]);
+      setCurrentSnapshotIndex(0);
+      setSnapshotMetadata([]);
 
-    workerRef.current?.postMessage({
-      type: "reset",
-      learningRate,
-      momentum,
-    });
+      workerRef.current?.postMessage({
+        type: "reset",
+        learningRate,
+        momentum,
+        optimizer,
+        loss,
+        scheduler,
+        inputEncoding: overrides.inputEncoding ?? inputEncoding,
+        architecture: overrides.architecture ?? architecture,
+        omega0: overrides.omega0 ?? omega0,
+        colorSpace: overrides.colorSpace ?? colorSpace,
+        backend: overrides.backend ?? backend,
+        seed: overrides.seed ?? seed,
+      });
 
-    // Clear output canvas
-    if (outputCanvasRef.current) {
-      const ctx = outputCanvasRef.current.getContext("2d");
-      if (ctx) {
-        ctx.fillStyle = "#000";
-        ctx.fillRect(0, 0, imageSize, imageSize);
+      // Clear output canvas
+      if (outputCanvasRef.current) {
+        const ctx = outputCanvasRef.current.getContext("2d");
+        if (ctx) {
+          ctx.fillStyle = "#000";
+          ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+        }
       }
-    }
-  }, [learningRate, momentum, imageSize]);
+    },
+    [
+      learningRate,
+      momentum,
+      optimizer,
+      loss,
+      scheduler,
+      inputEncoding,
+      architecture,
+      omega0,
+      colorSpace,
+      backend,
+      seed,
+    ],
+  );
 
   // Generate GIF
   const handleGenerateGif = useCallback(() => {
@@ -658,9 +1678,34 @@ export function ImagePainter() {
     workerRef.current.postMessage({
       type: "generateGif",
       originalImageData: imageDataRef.current,
-      morphFrames: 3,
+      interpolation: gifInterpolation,
+      morphFrames: gifInBetweenFrames,
+    });
+  }, [gifFrameCount, generatedGifUrl, gifInterpolation, gifInBetweenFrames]);
+
+  // Animated GIF of the learned clip, played at the rate it was taken at
+  const handleClipGif = useCallback(() => {
+    if (!workerRef.current || clipFrameCount === null) return;
+
+    if (generatedGifUrl) {
+      URL.revokeObjectURL(generatedGifUrl);
+      setGeneratedGifUrl(null);
+    }
+
+    setIsGeneratingGif(true);
+    setGifProgress({
+      stage: "Generating frames",
+      current: 0,
+      total: clipGifFrames,
+    });
+
+    workerRef.current.postMessage({
+      type: "clipGif",
+      frameCount: clipGifFrames,
+      // Same duration as the clip, however many frames it's rendered with
+      fps: (CLIP_FPS * clipGifFrames) / clipFrameCount,
     });
-  }, [gifFrameCount, generatedGifUrl]);
+  }, [clipFrameCount, clipGifFrames, generatedGifUrl]);
 
   // Download GIF
   const handleDownloadGif = useCallback(() => {
@@ -672,9 +1717,118 @@ export function ImagePainter() {
     a.click();
   }, [generatedGifUrl]);
 
-  // Cleanup blob URL on unmount
-  useEffect(() => {
-    return () => {
+  // Output size of the high-resolution export
+  const exportSize = useMemo(
+    () =>
+      exportScale === "custom"
+        ? exportCustomSize
+        : {
+            width: trainingSize.width * exportScale,
+            height: trainingSize.height * exportScale,
+          },
+    [exportScale, exportCustomSize, trainingSize],
+  );
+
+  // Render the network at exportSize, tile by tile, and download it as PNG
+  const handleExportImage = useCallback(() => {
+    const canvas = exportCanvasRef.current;
+    if (!canvas) return;
+    canvas.width = exportSize.width;
+    canvas.height = exportSize.height;
+
+    exportRequestRef.current++;
+    setExportProgress({ ...exportSize, completed: 0, total: 1 });
+    workerRef.current?.postMessage({
+      type: "renderAtSize",
+      requestId: exportRequestRef.current,
+      width: exportSize.width,
+      height: exportSize.height,
+    });
+  }, [exportSize]);
+
+  const handleCancelExport = useCallback(() => {
+    exportRequestRef.current++;
+    setExportProgress(null);
+    workerRef.current?.postMessage({ type: "cancelRender" });
+  }, []);
+
+  // Save a checkpoint now (training also autosaves every 30 seconds)
+  const handleSaveCheckpoint = useCallback(() => {
+    workerRef.current?.postMessage({ type: "saveCheckpoint" });
+  }, []);
+
+  // Replace the current run with the saved checkpoint
+  const handleResumeCheckpoint = useCallback(() => {
+    if (trainingState.isTraining) {
+      setTrainingState((prev) => ({ ...prev, isTraining: false }));
+      workerRef.current?.postMessage({ type: "stop" });
+    }
+    workerRef.current?.postMessage({ type: "resumeCheckpoint" });
+  }, [trainingState.isTraining]);
+
+  const handleDiscardCheckpoint = useCallback(() => {
+    workerRef.current?.postMessage({ type: "discardCheckpoint" });
+  }, []);
+
+  // Export the trained weights as a portable JSON model file
+  const handleExportModel = useCallback(() => {
+    workerRef.current?.postMessage({ type: "exportModel" });
+  }, []);
+
+  // Load a model file exported earlier; the worker validates it
+  const handleImportModel = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file) return;
+
+      let model: unknown;
+      try {
+        model = JSON.parse(await file.text());
+      } catch {
+        alert(`Model import failed: ${file.name} is not valid JSON`);
+        return;
+      }
+      workerRef.current?.postMessage({ type: "importModel", model });
+    },
+    [],
+  );
+
+  // Keep the error views in step with the latest render and the snapshot
+  // on show
+  useEffect(() => {
+    if (outputView === "painted" || !latestRender) return;
+    drawErrorMap(
+      errorCanvasRef.current,
+      latestRender.data,
+      imageDataRef.current,
+      outputView,
+    );
+  }, [latestRender, outputView]);
+
+  useEffect(() => {
+    if (outputView === "painted" || !snapshotFrames[currentSnapshotIndex]) {
+      return;
+    }
+    drawErrorMap(
+      snapshotErrorCanvasRef.current,
+      snapshotPixelsRef.current[currentSnapshotIndex],
+      imageDataRef.current,
+      outputView,
+    );
+  }, [outputView, snapshotFrames, currentSnapshotIndex]);
+
+  // Draw the sampling heatmap whenever it changes or is shown
+  useEffect(() => {
+    if (!showSamplingHeatmap || !samplingHeatmap) return;
+    heatmapCanvasRef.current
+      ?.getContext("2d")
+      ?.putImageData(samplingHeatmap, 0, 0);
+  }, [samplingHeatmap, showSamplingHeatmap]);
+
+  // Cleanup blob URL on unmount
+  useEffect(() => {
+    return () => {
       if (generatedGifUrl) {
         URL.revokeObjectURL(generatedGifUrl);
       }
@@ -699,6 +1853,24 @@ export function ImagePainter() {
     });
   }, []);
 
+  // Update optimizer - can be switched mid-run to compare convergence
+  const handleOptimizerChange = useCallback((value: OptimizerConfig) => {
+    setOptimizer(value);
+    workerRef.current?.postMessage({
+      type: "setOptimizer",
+      optimizer: value,
+    });
+  }, []);
+
+  // Update learning-rate schedule
+  const handleSchedulerChange = useCallback((value: SchedulerConfig) => {
+    setScheduler(value);
+    workerRef.current?.postMessage({
+      type: "setScheduler",
+      scheduler: value,
+    });
+  }, []);
+
   // Update batch size
   const handleBatchSizeChange = useCallback((value: number) => {
     setBatchSize(value);
@@ -708,6 +1880,120 @@ export function ImagePainter() {
     });
   }, []);
 
+  // Update how a batch is applied - can be switched mid-run for comparison
+  const handleBatchModeChange = useCallback((value: BatchMode) => {
+    setBatchMode(value);
+    workerRef.current?.postMessage({
+      type: "setBatchMode",
+      batchMode: value,
+    });
+  }, []);
+
+  // Update how training pixels are drawn
+  const handleSamplingModeChange = useCallback((value: SamplingMode) => {
+    setSamplingMode(value);
+    workerRef.current?.postMessage({
+      type: "setSamplingMode",
+      samplingMode: value,
+    });
+  }, []);
+
+  // Update the loss - like the optimizer, it can change mid-run
+  const handleLossChange = useCallback((value: LossConfig) => {
+    setLoss(value);
+    workerRef.current?.postMessage({ type: "setLoss", loss: value });
+  }, []);
+
+  // Update input encoding - the input layer changes size, so the network is rebuilt
+  const handleInputEncodingChange = useCallback(
+    (value: InputEncodingConfig) => {
+      setInputEncoding(value);
+      resetTraining({ inputEncoding: value });
+    },
+    [resetTraining],
+  );
+
+  // Update layer layout / activations - rebuilds the network
+  const handleArchitectureChange = useCallback(
+    (value: NetworkArchitecture) => {
+      setArchitecture(value);
+      resetTraining({ architecture: value });
+    },
+    [resetTraining],
+  );
+
+  const handleLayerCountChange = useCallback(
+    (count: number) => {
+      const layers = architecture.hiddenLayers.slice(0, count);
+      const last =
+        layers[layers.length - 1] ?? DEFAULT_ARCHITECTURE.hiddenLayers[0];
+      while (layers.length < count) {
+        layers.push({ ...last });
+      }
+      handleArchitectureChange({ hiddenLayers: layers });
+    },
+    [architecture, handleArchitectureChange],
+  );
+
+  const handleLayerChange = useCallback(
+    (index: number, changes: Partial<LayerSpec>) => {
+      handleArchitectureChange({
+        hiddenLayers: architecture.hiddenLayers.map((layer, i) =>
+          i === index ? { ...layer, ...changes } : layer,
+        ),
+      });
+    },
+    [architecture, handleArchitectureChange],
+  );
+
+  const handleOmega0Change = useCallback(
+    (value: number) => {
+      setOmega0(value);
+      resetTraining({ omega0: value });
+    },
+    [resetTraining],
+  );
+
+  // The network's outputs change meaning, so it starts over
+  const handleColorSpaceChange = useCallback(
+    (value: ColorSpace) => {
+      setColorSpace(value);
+      // The CIELAB loss is only defined on RGB outputs
+      if (value !== "rgb" && loss.type === "lab") {
+        handleLossChange({ ...loss, type: "mse" });
+      }
+      resetTraining({ colorSpace: value });
+    },
+    [loss, handleLossChange, resetTraining],
+  );
+
+  // Update number of training workers - takes effect on the next iteration
+  const handleWorkerCountChange = useCallback((value: number) => {
+    setWorkerCount(value);
+    workerRef.current?.postMessage({
+      type: "setWorkerCount",
+      workerCount: value,
+    });
+  }, []);
+
+  // Update run seed - restarts training from the seed's initial weights
+  const handleSeedChange = useCallback(
+    (value: number) => {
+      setSeed(value);
+      resetTraining({ seed: value });
+    },
+    [resetTraining],
+  );
+
+  // Update compute backend - the network is rebuilt on the new backend
+  const handleBackendChange = useCallback(
+    (value: BackendType) => {
+      setBackend(value);
+      resetTraining({ backend: value });
+    },
+    [resetTraining],
+  );
+
   return (
     <div className="min-h-screen bg-background p-4 md:p-8">
       <div className="max-w-4xl mx-auto">
@@ -751,7 +2037,29 @@ export function ImagePainter() {
                 className="flex items-center justify-center bg-muted rounded-lg overflow-hidden"
                 style={{ minHeight: imageSize * 2 + 32 }}
               >
-                {originalImageUrl ? (
+                {regionTool === "crop" && fullResolutionImageUrl ? (
+                  <div className="w-full">
+                    <CropSelector
+                      imageUrl={fullResolutionImageUrl}
+                      crop={crop}
+                      onChange={handleCropChange}
+                    />
+                  </div>
+                ) : regionTool === "mask" && originalImageUrl ? (
+                  <div className="w-full">
+                    <MaskPainter
+                      imageUrl={originalImageUrl}
+                      width={trainingSize.width}
+                      height={trainingSize.height}
+                      mask={importanceMask}
+                      brushRadius={brushRadius}
+                      erase={eraseMask}
+                      onChange={(mask) =>
+                        handleImportanceMaskChange(mask, maskEmphasis)
+                      }
+                    />
+                  </div>
+                ) : originalImageUrl ? (
                   <img
                     src={
                       showFullResolution
@@ -775,25 +2083,60 @@ export function ImagePainter() {
 
             {/* Neural Network Output */}
             <div>
-              <h2 className="text-sm md:text-xl font-semibold mb-2 md:mb-4 text-center">
-                Painted
-              </h2>
+              <div className="flex items-center justify-center gap-2 mb-2 md:mb-4">
+                <h2 className="text-sm md:text-xl font-semibold text-center">
+                  Painted
+                </h2>
+                <select
+                  aria-label="Output view"
+                  value={outputView}
+                  onChange={(e) =>
+                    setOutputView(e.target.value as "painted" | ErrorView)
+                  }
+                  className="bg-background border border-border rounded-md px-1 py-1 text-xs md:text-sm max-w-[9rem] md:max-w-none"
+                >
+                  <option value="painted">Output</option>
+                  {(Object.keys(ERROR_VIEW_LABELS) as ErrorView[]).map(
+                    (view) => (
+                      <option key={view} value={view}>
+                        {ERROR_VIEW_LABELS[view]}
+                      </option>
+                    ),
+                  )}
+                </select>
+              </div>
               <div
                 className="flex items-center justify-center bg-muted rounded-lg overflow-hidden"
                 style={{ minHeight: imageSize * 2 + 32 }}
               >
+                {/* Stays mounted so renders land while an error view is up */}
                 <canvas
                   ref={outputCanvasRef}
-                  width={imageSize}
-                  height={imageSize}
+                  width={trainingSize.width}
+                  height={trainingSize.height}
                   style={{
                     width: "100%",
                     height: "auto",
                     imageRendering: "pixelated",
+                    display: outputView === "painted" ? undefined : "none",
                   }}
                   className="bg-black"
                 />
+                {outputView !== "painted" && (
+                  <canvas
+                    ref={errorCanvasRef}
+                    width={trainingSize.width}
+                    height={trainingSize.height}
+                    style={{
+                      width: "100%",
+                      height: "auto",
+                      imageRendering: "pixelated",
+                    }}
+                    className="bg-black"
+                  />
+                )}
               </div>
+              {outputView !== "painted" && <ErrorMapLegend view={outputView} />}
             </div>
           </div>
 
@@ -819,6 +2162,274 @@ export function ImagePainter() {
               Next
             </button>
           </div>
+
+          {/* One network for every moment */}
+          <div className="flex flex-col items-center gap-2 mt-3">
+            <label className="flex items-center gap-2 text-xs md:text-sm">
+              <input
+                type="checkbox"
+                checked={trainAllMoments}
+                onChange={(e) => handleTrainAllMomentsChange(e.target.checked)}
+              />
+              Learn all {MOMENT_IMAGES.length} moments in one network
+            </label>
+            {trainAllMoments && (
+              <>
+                <div className="flex flex-wrap items-center justify-center gap-2 text-xs md:text-sm">
+                  <select
+                    aria-label="Blend with moment"
+                    value={blendWith ?? ""}
+                    onChange={(e) =>
+                      handleBlendChange(
+                        e.target.value === "" ? null : Number(e.target.value),
+                        blendAmount,
+                      )
+                    }
+                    className="bg-background border border-border rounded-md px-2 py-1"
+                  >
+                    <option value="">No blend</option>
+                    {MOMENT_IMAGES.map((url, i) =>
+                      i === currentImageIndex ? null : (
+                        <option key={url} value={i}>
+                          Blend with {i + 1} / {MOMENT_IMAGES.length}
+                        </option>
+                      ),
+                    )}
+                  </select>
+                  {blendWith !== null && (
+                    <input
+                      type="range"
+                      aria-label="Blend amount"
+                      min="0"
+                      max="1"
+                      step="0.01"
+                      value={blendAmount}
+                      onChange={(e) =>
+                        handleBlendChange(blendWith, Number(e.target.value))
+                      }
+                      className="w-32"
+                    />
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground text-center max-w-md">
+                  Each moment has a learned embedding of{" "}
+                  {DEFAULT_EMBEDDING_SIZE} numbers fed to the network with the
+                  coordinates. Prev and Next only swap the embedding, so
+                  training carries on; blending mixes two embeddings to paint
+                  somewhere between the memories. Runs on one worker, without
+                  checkpoints, region masks or error-driven sampling.
+                </p>
+              </>
+            )}
+          </div>
+
+          {/* Clip: scrub through time and export the learned animation */}
+          {clipFrameCount !== null && (
+            <div className="flex flex-col items-center gap-2 mt-3">
+              <label
+                htmlFor={clipTimeId}
+                className="text-xs md:text-sm font-medium"
+              >
+                Time: frame{" "}
+                {Math.round(clipPosition * (clipFrameCount - 1)) + 1} /{" "}
+                {clipFrameCount}
+              </label>
+              <input
+                id={clipTimeId}
+                type="range"
+                min="0"
+                max="1"
+                step="0.005"
+                value={clipPosition}
+                onChange={(e) => showClipPosition(Number(e.target.value))}
+                className="w-64"
+              />
+              <div className="flex flex-wrap items-center justify-center gap-2 text-xs md:text-sm">
+                <label htmlFor={clipGifFramesId}>GIF frames</label>
+                <input
+                  id={clipGifFramesId}
+                  type="number"
+                  min="2"
+                  max="120"
+                  value={clipGifFrames}
+                  onChange={(e) =>
+                    setClipGifFrames(
+                      Math.max(2, Math.min(120, Number(e.target.value) || 2)),
+                    )
+                  }
+                  className="w-16 bg-background border border-border rounded-md px-2 py-1"
+                />
+                <button
+                  type="button"
+                  onClick={handleClipGif}
+                  disabled={!workerReady || isGeneratingGif}
+                  className="px-3 py-1 bg-primary text-primary-foreground rounded-md font-medium
+                  disabled:opacity-50 disabled:cursor-not-allowed hover:opacity-90 transition-opacity"
+                >
+                  Export Clip GIF
+                </button>
+              </div>
+              <p className="text-xs text-muted-foreground text-center max-w-md">
+                The network learns (x, y, t) → rgb over all {clipFrameCount}{" "}
+                frames. Between frames it paints times it never saw, so the
+                slider and the GIF (with more frames than the clip) show how
+                it fills the gaps. Runs on one worker, without checkpoints,
+                region masks or error-driven sampling.
+              </p>
+            </div>
+          )}
+
+          {/* Region of Interest */}
+          {imageLoaded && (
+            <div className="mt-4 md:mt-6 pt-4 border-t border-border">
+              <div className="flex flex-wrap items-center justify-center gap-2">
+                <button
+                  type="button"
+                  onClick={() =>
+                    setRegionTool(regionTool === "crop" ? "none" : "crop")
+                  }
+                  disabled={!fullResolutionImageUrl}
+                  className="px-3 py-1.5 bg-secondary text-secondary-foreground rounded-md font-medium text-sm
+                    disabled:opacity-50 disabled:cursor-not-allowed hover:opacity-90 transition-opacity"
+                >
+                  {regionTool === "crop" ? "Done Selecting" : "Select Region"}
+                </button>
+                {crop && (
+                  <button
+                    type="button"
+                    onClick={() => handleCropChange(null)}
+                    className="px-3 py-1.5 bg-secondary text-secondary-foreground rounded-md font-medium text-sm
+                      hover:opacity-90 transition-opacity"
+                  >
+                    Use Whole Photo
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() =>
+                    setRegionTool(regionTool === "mask" ? "none" : "mask")
+                  }
+                  className="px-3 py-1.5 bg-secondary text-secondary-foreground rounded-md font-medium text-sm
+                    hover:opacity-90 transition-opacity"
+                >
+                  {regionTool === "mask" ? "Done Painting" : "Paint Focus"}
+                </button>
+                {importanceMask && (
+                  <button
+                    type="button"
+                    onClick={() => handleImportanceMaskChange(null, maskEmphasis)}
+                    className="px-3 py-1.5 bg-secondary text-secondary-foreground rounded-md font-medium text-sm
+                      hover:opacity-90 transition-opacity"
+                  >
+                    Clear Focus
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setShowSamplingHeatmap(!showSamplingHeatmap)}
+                  className="px-3 py-1.5 bg-secondary text-secondary-foreground rounded-md font-medium text-sm
+                    hover:opacity-90 transition-opacity"
+                >
+                  {showSamplingHeatmap ? "Hide Sampling" : "Show Sampling"}
+                </button>
+              </div>
+
+              {showSamplingHeatmap && (
+                <div className="flex flex-col items-center mt-3">
+                  {samplingHeatmap ? (
+                    <canvas
+                      ref={heatmapCanvasRef}
+                      width={samplingHeatmap.width}
+                      height={samplingHeatmap.height}
+                      className="w-full rounded-md"
+                      style={{
+                        maxWidth: imageSize * 2,
+                        imageRendering: "pixelated",
+                      }}
+                    />
+                  ) : null}
+                  <p className="text-xs text-muted-foreground mt-2 text-center">
+                    {samplingHeatmap
+                      ? "How often each pixel is drawn for training: dark is rarely, bright is often. With error-driven sampling it follows what the network still gets wrong and refreshes as training goes."
+                      : "Every pixel is equally likely to be drawn. Choose error-driven sampling or paint a focus to weight them."}
+                  </p>
+                </div>
+              )}
+
+              {regionTool === "crop" && (
+                <p className="text-xs text-muted-foreground mt-3 text-center">
+                  Drag over the photo to choose the part to train on, such as
+                  a face or a detail. The region is fitted using the Aspect
+                  Ratio setting and training restarts on it.
+                </p>
+              )}
+
+              {regionTool === "mask" && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-3">
+                  <div>
+                    <label
+                      htmlFor={brushRadiusId}
+                      className="block text-sm font-medium mb-2"
+                    >
+                      Brush Size: {brushRadius}px
+                    </label>
+                    <input
+                      id={brushRadiusId}
+                      type="range"
+                      min="1"
+                      max="32"
+                      step="1"
+                      value={brushRadius}
+                      onChange={(e) => setBrushRadius(Number(e.target.value))}
+                      className="w-full"
+                    />
+                  </div>
+                  <div>
+                    <label
+                      htmlFor={maskEmphasisId}
+                      className="block text-sm font-medium mb-2"
+                    >
+                      Focus Weight: {maskEmphasis}×
+                    </label>
+                    <input
+                      id={maskEmphasisId}
+                      type="range"
+                      min="2"
+                      max="32"
+                      step="1"
+                      value={maskEmphasis}
+                      onChange={(e) =>
+                        handleImportanceMaskChange(
+                          importanceMask,
+                          Number(e.target.value),
+                        )
+                      }
+                      className="w-full"
+                    />
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <input
+                      id={eraseMaskId}
+                      type="checkbox"
+                      checked={eraseMask}
+                      onChange={(e) => setEraseMask(e.target.checked)}
+                      className="w-4 h-4"
+                    />
+                    <label htmlFor={eraseMaskId} className="text-sm font-medium">
+                      Erase
+                    </label>
+                  </div>
+                  <p className="md:col-span-3 text-xs text-muted-foreground">
+                    Paint over the input image to mark what matters most.
+                    Painted pixels are sampled {maskEmphasis}× as often as the
+                    rest, so they sharpen first. Applies to random and
+                    error-driven sampling; shuffled epochs still visit every
+                    pixel once per epoch.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Combined Snapshots and GIF Section */}
@@ -842,7 +2453,19 @@ export function ImagePainter() {
                       className="bg-muted rounded-lg overflow-hidden mb-4 w-full"
                       style={{ maxWidth: imageSize * 2 }}
                     >
-                      {snapshotFrames[currentSnapshotIndex] ? (
+                      {snapshotFrames[currentSnapshotIndex] &&
+                      outputView !== "painted" ? (
+                        <canvas
+                          ref={snapshotErrorCanvasRef}
+                          width={trainingSize.width}
+                          height={trainingSize.height}
+                          style={{
+                            width: "100%",
+                            height: "auto",
+                            imageRendering: "pixelated",
+                          }}
+                        />
+                      ) : snapshotFrames[currentSnapshotIndex] ? (
                         <img
                           src={snapshotFrames[currentSnapshotIndex]}
                           alt={`Snapshot ${currentSnapshotIndex + 1}`}
@@ -858,6 +2481,14 @@ export function ImagePainter() {
                         </div>
                       )}
                     </div>
+                    {outputView !== "painted" && (
+                      <div
+                        className="w-full -mt-2 mb-4"
+                        style={{ maxWidth: imageSize * 2 }}
+                      >
+                        <ErrorMapLegend view={outputView} />
+                      </div>
+                    )}
 
                     {/* Snapshot Metadata */}
                     {snapshotMetadata[currentSnapshotIndex] && (
@@ -869,7 +2500,9 @@ export function ImagePainter() {
                           </div>
                         </div>
                         <div className="bg-muted rounded p-2">
-                          <div className="text-xs text-muted-foreground">MSE</div>
+                          <div className="text-xs text-muted-foreground">
+                            Batch {describeLoss(snapshotMetadata[currentSnapshotIndex].loss)}
+                          </div>
                           <div className="text-sm font-mono font-bold">
                             {snapshotMetadata[currentSnapshotIndex].mse.toFixed(6)}
                           </div>
@@ -880,6 +2513,31 @@ export function ImagePainter() {
                             {snapshotMetadata[currentSnapshotIndex].learningRate.toFixed(6)}
                           </div>
                         </div>
+                        <div className="bg-muted rounded p-2">
+                          <div className="text-xs text-muted-foreground">Image MSE</div>
+                          <div className="text-sm font-mono font-bold">
+                            {snapshotMetadata[currentSnapshotIndex].imageMse?.toFixed(6) ?? "–"}
+                          </div>
+                        </div>
+                        <div className="bg-muted rounded p-2">
+                          <div className="text-xs text-muted-foreground">PSNR</div>
+                          <div className="text-sm font-mono font-bold">
+                            {snapshotMetadata[currentSnapshotIndex].psnr?.toFixed(2) ?? "–"}
+                          </div>
+                        </div>
+                        <div className="bg-muted rounded p-2">
+                          <div className="text-xs text-muted-foreground">SSIM</div>
+                          <div className="text-sm font-mono font-bold">
+                            {snapshotMetadata[currentSnapshotIndex].ssim?.toFixed(4) ?? "–"}
+                          </div>
+                        </div>
+                        <div className="col-span-3 text-xs text-muted-foreground">
+                          Network:{" "}
+                          {describeArchitecture(
+                            snapshotMetadata[currentSnapshotIndex].architecture,
+                          )}{" "}
+                          · Seed: {snapshotMetadata[currentSnapshotIndex].seed}
+                        </div>
                       </div>
                     )}
 
@@ -976,7 +2634,7 @@ export function ImagePainter() {
               </button>
               <button
                 type="button"
-                onClick={resetTraining}
+                onClick={() => resetTraining()}
                 disabled={!imageLoaded}
                 className="px-4 py-2 bg-secondary text-secondary-foreground rounded-md font-medium
                 disabled:opacity-50 disabled:cursor-not-allowed hover:opacity-90 transition-opacity text-sm md:text-base"
@@ -1002,6 +2660,40 @@ export function ImagePainter() {
               >
                 {isGeneratingGif ? "Generating..." : "Generate GIF Journey"}
               </button>
+              <button
+                type="button"
+                onClick={handleExportModel}
+                disabled={!workerReady}
+                className="px-4 py-2 bg-secondary text-secondary-foreground rounded-md font-medium
+                disabled:opacity-50 disabled:cursor-not-allowed hover:opacity-90 transition-opacity text-sm md:text-base"
+              >
+                Export Model
+              </button>
+              <button
+                type="button"
+                onClick={() => modelInputRef.current?.click()}
+                disabled={!workerReady}
+                className="px-4 py-2 bg-secondary text-secondary-foreground rounded-md font-medium
+                disabled:opacity-50 disabled:cursor-not-allowed hover:opacity-90 transition-opacity text-sm md:text-base"
+              >
+                Import Model
+              </button>
+              <button
+                type="button"
+                onClick={handleSaveCheckpoint}
+                disabled={!workerReady}
+                className="px-4 py-2 bg-secondary text-secondary-foreground rounded-md font-medium
+                disabled:opacity-50 disabled:cursor-not-allowed hover:opacity-90 transition-opacity text-sm md:text-base"
+              >
+                Save Checkpoint
+              </button>
+              <input
+                ref={modelInputRef}
+                type="file"
+                accept="application/json,.json"
+                onChange={handleImportModel}
+                className="hidden"
+              />
             </div>
 
             {/* GIF Generation Progress */}
@@ -1027,38 +2719,243 @@ export function ImagePainter() {
               </div>
             )}
 
-            {/* Configuration Options */}
-            {parametersExpanded && (
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6 pt-6 border-t border-border">
-                {/* Training Stats */}
-                <div className="md:col-span-2 grid grid-cols-3 gap-2 md:gap-4 text-center pb-6 border-b border-border">
-                  <div>
-                    <div className="text-lg md:text-2xl font-mono font-bold text-primary">
-                      {trainingState.iteration.toLocaleString()}
-                    </div>
-                    <div className="text-xs md:text-sm text-muted-foreground">
-                      Iteration
-                    </div>
-                  </div>
-                  <div>
-                    <div className="text-lg md:text-2xl font-mono font-bold text-primary">
-                      {trainingState.loss.toFixed(6)}
-                    </div>
-                    <div className="text-xs md:text-sm text-muted-foreground">
-                      Loss (MSE)
-                    </div>
-                  </div>
-                  <div>
-                    <div className="text-lg md:text-2xl font-mono font-bold text-primary">
-                      {trainingState.currentLearningRate.toFixed(6)}
-                    </div>
-                    <div className="text-xs md:text-sm text-muted-foreground">
-                      Current LR
-                    </div>
+            {/* Saved Checkpoint */}
+            {savedCheckpoint && (
+              <div className="bg-muted border border-border rounded-lg p-4 mt-4 flex flex-wrap items-center gap-3">
+                <div className="flex-1 min-w-48">
+                  <div className="font-medium">Saved checkpoint</div>
+                  <div className="text-sm text-muted-foreground">
+                    Iteration {savedCheckpoint.iteration.toLocaleString()} · Loss{" "}
+                    {savedCheckpoint.loss.toFixed(6)} · {savedCheckpoint.width}×
+                    {savedCheckpoint.height}px · saved{" "}
+                    {new Date(savedCheckpoint.savedAt).toLocaleString()}
                   </div>
                 </div>
-
-                {/* File Upload */}
+                <button
+                  type="button"
+                  onClick={handleResumeCheckpoint}
+                  disabled={!workerReady}
+                  className="px-4 py-2 bg-primary text-primary-foreground rounded-md font-medium text-sm
+                  disabled:opacity-50 disabled:cursor-not-allowed hover:opacity-90 transition-opacity"
+                >
+                  Resume
+                </button>
+                <button
+                  type="button"
+                  onClick={handleDiscardCheckpoint}
+                  className="px-4 py-2 bg-secondary text-secondary-foreground rounded-md font-medium text-sm
+                  hover:opacity-90 transition-opacity"
+                >
+                  Discard
+                </button>
+              </div>
+            )}
+
+            {/* High-Resolution Export */}
+            <div className="border border-border rounded-lg p-4 mt-4">
+              <div className="flex flex-wrap items-end gap-3">
+                <div>
+                  <label
+                    htmlFor={exportScaleId}
+                    className="block text-sm font-medium mb-2"
+                  >
+                    Export PNG at
+                  </label>
+                  <select
+                    id={exportScaleId}
+                    value={exportScale}
+                    onChange={(e) =>
+                      setExportScale(
+                        e.target.value === "custom"
+                          ? "custom"
+                          : Number(e.target.value),
+                      )
+                    }
+                    className="bg-background border border-border rounded-md px-2 py-1 text-sm"
+                  >
+                    <option value={2}>
+                      2× ({trainingSize.width * 2}×
+                      {trainingSize.height * 2}px)
+                    </option>
+                    <option value={4}>
+                      4× ({trainingSize.width * 4}×
+                      {trainingSize.height * 4}px)
+                    </option>
+                    <option value={8}>
+                      8× ({trainingSize.width * 8}×
+                      {trainingSize.height * 8}px)
+                    </option>
+                    <option value="custom">Custom size</option>
+                  </select>
+                </div>
+                {exportScale === "custom" && (
+                  <>
+                    <div>
+                      <label
+                        htmlFor={exportWidthId}
+                        className="block text-sm font-medium mb-2"
+                      >
+                        Width
+                      </label>
+                      <input
+                        id={exportWidthId}
+                        type="number"
+                        min="1"
+                        max={MAX_RENDER_SIZE}
+                        value={exportCustomSize.width}
+                        onChange={(e) =>
+                          setExportCustomSize((prev) => ({
+                            ...prev,
+                            width: Number(e.target.value),
+                          }))
+                        }
+                        className="w-24 bg-background border border-border rounded-md px-2 py-1 text-sm font-mono"
+                      />
+                    </div>
+                    <div>
+                      <label
+                        htmlFor={exportHeightId}
+                        className="block text-sm font-medium mb-2"
+                      >
+                        Height
+                      </label>
+                      <input
+                        id={exportHeightId}
+                        type="number"
+                        min="1"
+                        max={MAX_RENDER_SIZE}
+                        value={exportCustomSize.height}
+                        onChange={(e) =>
+                          setExportCustomSize((prev) => ({
+                            ...prev,
+                            height: Number(e.target.value),
+                          }))
+                        }
+                        className="w-24 bg-background border border-border rounded-md px-2 py-1 text-sm font-mono"
+                      />
+                    </div>
+                  </>
+                )}
+                {exportProgress &&
+                exportProgress.completed < exportProgress.total ? (
+                  <button
+                    type="button"
+                    onClick={handleCancelExport}
+                    className="px-4 py-2 bg-secondary text-secondary-foreground rounded-md font-medium text-sm
+                    hover:opacity-90 transition-opacity"
+                  >
+                    Cancel
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={handleExportImage}
+                    disabled={!workerReady}
+                    className="px-4 py-2 bg-primary text-primary-foreground rounded-md font-medium text-sm
+                    disabled:opacity-50 disabled:cursor-not-allowed hover:opacity-90 transition-opacity"
+                  >
+                    Export PNG
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground mt-2">
+                The network is a continuous function of position, so it can
+                be rendered at any size up to {MAX_RENDER_SIZE}px per side -
+                detail between training pixels is the network's own
+                interpolation. Large sizes render in tiles while training
+                carries on.
+              </p>
+              {exportProgress && (
+                <div className="mt-4">
+                  <div className="text-sm text-muted-foreground mb-2">
+                    {exportProgress.width}×{exportProgress.height}px ·{" "}
+                    {exportProgress.completed} / {exportProgress.total} tiles
+                  </div>
+                  <div className="w-full bg-muted rounded-full h-2">
+                    <div
+                      className="bg-primary h-2 rounded-full transition-all duration-300"
+                      style={{
+                        width: `${(exportProgress.completed / exportProgress.total) * 100}%`,
+                      }}
+                    />
+                  </div>
+                </div>
+              )}
+              <canvas
+                ref={exportCanvasRef}
+                className={exportProgress ? "mt-4 bg-muted rounded" : "hidden"}
+                style={{
+                  width: "100%",
+                  maxWidth: imageSize * 2,
+                  height: "auto",
+                }}
+              />
+            </div>
+
+            {/* Configuration Options */}
+            {parametersExpanded && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6 pt-6 border-t border-border">
+                {/* Training Stats */}
+                <div className="md:col-span-2 grid grid-cols-2 md:grid-cols-3 gap-2 md:gap-4 text-center pb-6 border-b border-border">
+                  <div>
+                    <div className="text-lg md:text-2xl font-mono font-bold text-primary">
+                      {trainingState.iteration.toLocaleString()}
+                    </div>
+                    <div className="text-xs md:text-sm text-muted-foreground">
+                      Iteration
+                      {samplingMode === "epoch" &&
+                        ` · epoch ${trainingState.epoch}`}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-lg md:text-2xl font-mono font-bold text-primary">
+                      {trainingState.loss.toFixed(6)}
+                    </div>
+                    <div className="text-xs md:text-sm text-muted-foreground">
+                      Loss ({describeLoss(loss)})
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-lg md:text-2xl font-mono font-bold text-primary">
+                      {trainingState.currentLearningRate.toFixed(6)}
+                    </div>
+                    <div className="text-xs md:text-sm text-muted-foreground">
+                      Current LR
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-lg md:text-2xl font-mono font-bold text-primary">
+                      {Math.round(
+                        trainingState.iterationsPerSecond,
+                      ).toLocaleString()}
+                    </div>
+                    <div className="text-xs md:text-sm text-muted-foreground">
+                      Iterations / sec
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-lg md:text-2xl font-mono font-bold text-primary">
+                      {trainingState.metrics
+                        ? `${trainingState.metrics.psnr.toFixed(2)} dB`
+                        : "–"}
+                    </div>
+                    <div className="text-xs md:text-sm text-muted-foreground">
+                      PSNR (full image)
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-lg md:text-2xl font-mono font-bold text-primary">
+                      {trainingState.metrics
+                        ? trainingState.metrics.ssim.toFixed(4)
+                        : "–"}
+                    </div>
+                    <div className="text-xs md:text-sm text-muted-foreground">
+                      SSIM (full image)
+                    </div>
+                  </div>
+                </div>
+
+                {/* File Upload */}
                 <div>
                   <label
                     htmlFor={imageUploadId}
@@ -1080,6 +2977,32 @@ export function ImagePainter() {
                   />
                 </div>
 
+                {/* Clip Upload */}
+                <div>
+                  <label
+                    htmlFor={clipUploadId}
+                    className="block text-sm font-medium mb-2"
+                  >
+                    Upload Clip (video or zip of frames)
+                  </label>
+                  <input
+                    id={clipUploadId}
+                    type="file"
+                    accept="video/*,.zip,application/zip"
+                    onChange={handleClipUpload}
+                    className="block w-full text-sm text-muted-foreground
+                      file:mr-4 file:py-2 file:px-4
+                      file:rounded-md file:border-0
+                      file:text-sm file:font-medium
+                      file:bg-primary file:text-primary-foreground
+                      hover:file:opacity-90 cursor-pointer"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Up to {MAX_CLIP_FRAMES} frames, taken {CLIP_FPS} a second
+                    from a video or in file name order from a zip
+                  </p>
+                </div>
+
                 {/* Image Size */}
                 <div>
                   <label
@@ -1107,6 +3030,40 @@ export function ImagePainter() {
                   </p>
                 </div>
 
+                {/* Aspect Ratio */}
+                <div>
+                  <label
+                    htmlFor={aspectModeId}
+                    className="block text-sm font-medium mb-2"
+                  >
+                    Aspect Ratio
+                  </label>
+                  <select
+                    id={aspectModeId}
+                    value={aspectMode}
+                    onChange={(e) =>
+                      handleAspectModeChange(e.target.value as AspectMode)
+                    }
+                    disabled={trainingState.isTraining}
+                    className="w-full bg-background border border-border rounded-md px-2 py-1 text-sm"
+                  >
+                    {(Object.keys(ASPECT_MODE_LABELS) as AspectMode[]).map(
+                      (mode) => (
+                        <option key={mode} value={mode}>
+                          {ASPECT_MODE_LABELS[mode]}
+                        </option>
+                      ),
+                    )}
+                  </select>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    How photos fit the training image. Native keeps the whole
+                    photo at its own proportions ({trainingSize.width}×
+                    {trainingSize.height}px now); crop and letterbox make it
+                    square. Coordinates are scaled by the long side, so the
+                    network never sees a stretched image.
+                  </p>
+                </div>
+
                 {/* Learning Rate */}
                 <div>
                   <label
@@ -1118,9 +3075,9 @@ export function ImagePainter() {
                   <input
                     id={learningRateId}
                     type="range"
-                    min="0.001"
+                    min="0.0001"
                     max="0.05"
-                    step="0.001"
+                    step="0.0001"
                     value={learningRate}
                     onChange={(e) =>
                       handleLearningRateChange(Number(e.target.value))
@@ -1129,13 +3086,13 @@ export function ImagePainter() {
                     className="w-full"
                   />
                   <div className="flex justify-between text-xs text-muted-foreground mt-1">
-                    <span>0.001 (slow)</span>
+                    <span>0.0001 (slow)</span>
                     <span>0.05 (fast)</span>
                   </div>
                   <p className="text-xs text-muted-foreground mt-2">
                     Controls how fast the network learns. Higher values learn
-                    faster but may be unstable. Automatically decreases over
-                    time for better results.
+                    faster but may be unstable. Automatically changes over
+                    time according to the learning rate schedule.
                   </p>
                 </div>
 
@@ -1170,6 +3127,306 @@ export function ImagePainter() {
                   </p>
                 </div>
 
+                {/* Learning Rate Schedule */}
+                <div>
+                  <label
+                    htmlFor={schedulerId}
+                    className="block text-sm font-medium mb-2"
+                  >
+                    Learning Rate Schedule
+                  </label>
+                  <select
+                    id={schedulerId}
+                    value={scheduler.type}
+                    onChange={(e) =>
+                      handleSchedulerChange({
+                        ...scheduler,
+                        type: e.target.value as SchedulerType,
+                      })
+                    }
+                    disabled={trainingState.isTraining}
+                    className="w-full bg-background border border-border rounded-md px-2 py-1 text-sm"
+                  >
+                    {(Object.keys(SCHEDULER_LABELS) as SchedulerType[]).map(
+                      (type) => (
+                        <option key={type} value={type}>
+                          {SCHEDULER_LABELS[type]}
+                        </option>
+                      ),
+                    )}
+                  </select>
+                  {scheduler.type === "cosineRestarts" && (
+                    <div className="grid grid-cols-2 gap-2 mt-3">
+                      <label className="text-xs text-muted-foreground">
+                        First cycle (iterations)
+                        <input
+                          type="number"
+                          min="100"
+                          step="1000"
+                          value={scheduler.restartPeriod}
+                          onChange={(e) =>
+                            handleSchedulerChange({
+                              ...scheduler,
+                              restartPeriod: Math.max(
+                                100,
+                                Number(e.target.value),
+                              ),
+                            })
+                          }
+                          disabled={trainingState.isTraining}
+                          className="w-full mt-1 bg-background border border-border rounded-md px-2 py-1 text-sm text-foreground"
+                        />
+                      </label>
+                      <label className="text-xs text-muted-foreground">
+                        Cycle growth
+                        <select
+                          value={scheduler.restartMultiplier}
+                          onChange={(e) =>
+                            handleSchedulerChange({
+                              ...scheduler,
+                              restartMultiplier: Number(e.target.value),
+                            })
+                          }
+                          disabled={trainingState.isTraining}
+                          className="w-full mt-1 bg-background border border-border rounded-md px-2 py-1 text-sm text-foreground"
+                        >
+                          <option value={1}>×1</option>
+                          <option value={2}>×2</option>
+                          <option value={3}>×3</option>
+                        </select>
+                      </label>
+                    </div>
+                  )}
+                  {(scheduler.type === "step" ||
+                    scheduler.type === "exponential") && (
+                    <div className="grid grid-cols-2 gap-2 mt-3">
+                      <label className="text-xs text-muted-foreground">
+                        Every (iterations)
+                        <input
+                          type="number"
+                          min="100"
+                          step="1000"
+                          value={scheduler.stepSize}
+                          onChange={(e) =>
+                            handleSchedulerChange({
+                              ...scheduler,
+                              stepSize: Math.max(100, Number(e.target.value)),
+                            })
+                          }
+                          disabled={trainingState.isTraining}
+                          className="w-full mt-1 bg-background border border-border rounded-md px-2 py-1 text-sm text-foreground"
+                        />
+                      </label>
+                      <label className="text-xs text-muted-foreground">
+                        Multiply by
+                        <input
+                          type="number"
+                          min="0.05"
+                          max="0.99"
+                          step="0.05"
+                          value={scheduler.gamma}
+                          onChange={(e) =>
+                            handleSchedulerChange({
+                              ...scheduler,
+                              gamma: Math.min(
+                                0.99,
+                                Math.max(0.05, Number(e.target.value)),
+                              ),
+                            })
+                          }
+                          disabled={trainingState.isTraining}
+                          className="w-full mt-1 bg-background border border-border rounded-md px-2 py-1 text-sm text-foreground"
+                        />
+                      </label>
+                    </div>
+                  )}
+                  {scheduler.type === "oneCycle" && (
+                    <label className="block text-xs text-muted-foreground mt-3">
+                      Warm-up: {Math.round(scheduler.warmupFraction * 100)}% of
+                      the run
+                      <input
+                        type="range"
+                        min="0.05"
+                        max="0.5"
+                        step="0.05"
+                        value={scheduler.warmupFraction}
+                        onChange={(e) =>
+                          handleSchedulerChange({
+                            ...scheduler,
+                            warmupFraction: Number(e.target.value),
+                          })
+                        }
+                        disabled={trainingState.isTraining}
+                        className="w-full"
+                      />
+                    </label>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-2">
+                    How the learning rate changes over the run, starting from
+                    the initial learning rate. Cosine and one-cycle span Max
+                    Iterations. The curve is previewed in the Learning Rate
+                    chart below.
+                  </p>
+                </div>
+
+                {/* Optimizer */}
+                <div>
+                  <label
+                    htmlFor={optimizerId}
+                    className="block text-sm font-medium mb-2"
+                  >
+                    Optimizer
+                  </label>
+                  <select
+                    id={optimizerId}
+                    value={optimizer.type}
+                    onChange={(e) =>
+                      handleOptimizerChange({
+                        ...optimizer,
+                        type: e.target.value as OptimizerType,
+                      })
+                    }
+                    className="w-full bg-background border border-border rounded-md px-2 py-1 text-sm"
+                  >
+                    {(Object.keys(OPTIMIZER_LABELS) as OptimizerType[]).map(
+                      (type) => (
+                        <option key={type} value={type}>
+                          {OPTIMIZER_LABELS[type]}
+                        </option>
+                      ),
+                    )}
+                  </select>
+                  <label
+                    htmlFor={weightDecayId}
+                    className="block text-sm font-medium mt-3 mb-2"
+                  >
+                    Weight Decay
+                  </label>
+                  <select
+                    id={weightDecayId}
+                    value={optimizer.weightDecay}
+                    onChange={(e) =>
+                      handleOptimizerChange({
+                        ...optimizer,
+                        weightDecay: Number(e.target.value),
+                      })
+                    }
+                    className="w-full bg-background border border-border rounded-md px-2 py-1 text-sm"
+                  >
+                    {[0, 0.00001, 0.0001, 0.001, 0.01].map((value) => (
+                      <option key={value} value={value}>
+                        {value === 0 ? "None" : value}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    How each update is computed from the gradient. Adam,
+                    AdamW and RMSProp adapt the step size per weight and
+                    usually want a learning rate around 0.001. Switching
+                    mid-run keeps the weights, so you can compare how fast
+                    each one converges on the same photo.
+                  </p>
+                </div>
+
+                {/* Loss */}
+                <div>
+                  <label
+                    htmlFor={lossId}
+                    className="block text-sm font-medium mb-2"
+                  >
+                    Loss Function
+                  </label>
+                  <select
+                    id={lossId}
+                    value={loss.type}
+                    onChange={(e) =>
+                      handleLossChange({
+                        ...loss,
+                        type: e.target.value as LossType,
+                      })
+                    }
+                    className="w-full bg-background border border-border rounded-md px-2 py-1 text-sm"
+                  >
+                    {(Object.keys(LOSS_LABELS) as LossType[]).map((type) => (
+                      <option
+                        key={type}
+                        value={type}
+                        disabled={type === "lab" && colorSpace !== "rgb"}
+                      >
+                        {LOSS_LABELS[type]}
+                      </option>
+                    ))}
+                  </select>
+                  {loss.type === "huber" && (
+                    <>
+                      <label
+                        htmlFor={huberDeltaId}
+                        className="block text-sm font-medium mt-3 mb-2"
+                      >
+                        Huber Delta: {loss.huberDelta}
+                      </label>
+                      <input
+                        id={huberDeltaId}
+                        type="range"
+                        min="0.01"
+                        max="0.5"
+                        step="0.01"
+                        value={loss.huberDelta}
+                        onChange={(e) =>
+                          handleLossChange({
+                            ...loss,
+                            huberDelta: Number(e.target.value),
+                          })
+                        }
+                        className="w-full"
+                      />
+                    </>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-2">
+                    What counts as a mistake. MSE punishes big errors most;
+                    L1 treats every error alike, which keeps edges sharper;
+                    Huber is squared for errors below the delta and linear
+                    above it. Perceptual MSE measures the error in CIELAB,
+                    where equal distances look about equally different
+                    (RGB color space only). Takes effect immediately.
+                  </p>
+                </div>
+
+                {/* Color Space */}
+                <div>
+                  <label
+                    htmlFor={colorSpaceId}
+                    className="block text-sm font-medium mb-2"
+                  >
+                    Color Space
+                  </label>
+                  <select
+                    id={colorSpaceId}
+                    value={colorSpace}
+                    onChange={(e) =>
+                      handleColorSpaceChange(e.target.value as ColorSpace)
+                    }
+                    disabled={trainingState.isTraining}
+                    className="w-full bg-background border border-border rounded-md px-2 py-1 text-sm"
+                  >
+                    {(Object.keys(COLOR_SPACE_LABELS) as ColorSpace[]).map(
+                      (space) => (
+                        <option key={space} value={space}>
+                          {COLOR_SPACE_LABELS[space]}
+                        </option>
+                      ),
+                    )}
+                  </select>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    The colors the network learns to output, converted back
+                    to RGB for display. YCbCr and CIELAB separate brightness
+                    from color, so the painting often gets its light and
+                    shade before its hues; HSV's hue wraps around at red,
+                    which the network has to learn as a jump. Changing it
+                    restarts training.
+                  </p>
+                </div>
+
                 {/* Batch Size */}
                 <div>
                   <label
@@ -1194,10 +3451,400 @@ export function ImagePainter() {
                     <span>1 (SGD)</span>
                     <span>32 (mini-batch)</span>
                   </div>
+                  <label
+                    htmlFor={batchModeId}
+                    className="block text-sm font-medium mt-3 mb-2"
+                  >
+                    Batch Mode
+                  </label>
+                  <select
+                    id={batchModeId}
+                    value={batchMode}
+                    onChange={(e) =>
+                      handleBatchModeChange(e.target.value as BatchMode)
+                    }
+                    className="w-full bg-background border border-border rounded-md px-2 py-1 text-sm"
+                  >
+                    <option value="minibatch">
+                      Mini-batch (average gradients)
+                    </option>
+                    <option value="perSample">
+                      Per-sample (update after every pixel)
+                    </option>
+                  </select>
+                  <label
+                    htmlFor={samplingModeId}
+                    className="block text-sm font-medium mt-3 mb-2"
+                  >
+                    Pixel Sampling
+                  </label>
+                  <select
+                    id={samplingModeId}
+                    value={samplingMode}
+                    onChange={(e) =>
+                      handleSamplingModeChange(e.target.value as SamplingMode)
+                    }
+                    className="w-full bg-background border border-border rounded-md px-2 py-1 text-sm"
+                  >
+                    {(Object.keys(SAMPLING_LABELS) as SamplingMode[]).map(
+                      (mode) => (
+                        <option key={mode} value={mode}>
+                          {SAMPLING_LABELS[mode]}
+                        </option>
+                      ),
+                    )}
+                  </select>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Number of pixels to learn from at once. In mini-batch mode
+                    their gradients are averaged into a single update, so
+                    larger batches give smoother, more stable learning.
+                    Per-sample mode updates the weights after every pixel (the
+                    original convnetjs behaviour). Shuffled epochs visit every
+                    pixel once before repeating any. Error-driven sampling
+                    draws the pixels the network currently gets most wrong
+                    more often, re-measuring every few thousand iterations.
+                  </p>
+                </div>
+
+                {/* Input Encoding */}
+                <div>
+                  <label
+                    htmlFor={inputEncodingId}
+                    className="block text-sm font-medium mb-2"
+                  >
+                    Input Encoding: {getEncodedInputSize(inputEncoding)} inputs
+                  </label>
+                  <select
+                    id={inputEncodingId}
+                    value={inputEncoding.type}
+                    onChange={(e) =>
+                      handleInputEncodingChange({
+                        ...inputEncoding,
+                        type: e.target.value as InputEncodingType,
+                      })
+                    }
+                    disabled={trainingState.isTraining}
+                    className="w-full bg-background border border-border rounded-md px-2 py-1 text-sm"
+                  >
+                    <option value="raw">Raw (x, y)</option>
+                    <option value="fourier">Random Fourier features</option>
+                    <option value="positional">Positional (sin/cos octaves)</option>
+                  </select>
+                  {inputEncoding.type === "fourier" && (
+                    <>
+                      <label
+                        htmlFor={encodingParamId}
+                        className="block text-sm font-medium mt-3 mb-2"
+                      >
+                        Fourier Scale: {inputEncoding.fourierScale}
+                      </label>
+                      <input
+                        id={encodingParamId}
+                        type="range"
+                        min="1"
+                        max="20"
+                        step="1"
+                        value={inputEncoding.fourierScale}
+                        onChange={(e) =>
+                          handleInputEncodingChange({
+                            ...inputEncoding,
+                            fourierScale: Number(e.target.value),
+                          })
+                        }
+                        disabled={trainingState.isTraining}
+                        className="w-full"
+                      />
+                    </>
+                  )}
+                  {inputEncoding.type === "positional" && (
+                    <>
+                      <label
+                        htmlFor={encodingParamId}
+                        className="block text-sm font-medium mt-3 mb-2"
+                      >
+                        Octaves: {inputEncoding.octaves}
+                      </label>
+                      <input
+                        id={encodingParamId}
+                        type="range"
+                        min="1"
+                        max="10"
+                        step="1"
+                        value={inputEncoding.octaves}
+                        onChange={(e) =>
+                          handleInputEncodingChange({
+                            ...inputEncoding,
+                            octaves: Number(e.target.value),
+                          })
+                        }
+                        disabled={trainingState.isTraining}
+                        className="w-full"
+                      />
+                    </>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Maps the pixel coordinates to sines and cosines before the
+                    first layer so fine detail appears much sooner. Higher
+                    scales or more octaves capture sharper detail but can look
+                    noisy. Changing this resets training.
+                  </p>
+                </div>
+
+                {/* Network Architecture */}
+                <div className="md:col-span-2">
+                  <label
+                    htmlFor={layerCountId}
+                    className="block text-sm font-medium mb-2"
+                  >
+                    Hidden Layers: {architecture.hiddenLayers.length}
+                  </label>
+                  <input
+                    id={layerCountId}
+                    type="range"
+                    min="1"
+                    max={MAX_HIDDEN_LAYERS}
+                    step="1"
+                    value={architecture.hiddenLayers.length}
+                    onChange={(e) =>
+                      handleLayerCountChange(Number(e.target.value))
+                    }
+                    disabled={trainingState.isTraining}
+                    className="w-full"
+                  />
+                  <div className="flex flex-wrap gap-2 mt-3">
+                    {(
+                      [
+                        ["relu", "All ReLU"],
+                        ["tanh", "All tanh"],
+                        ["sine", "SIREN (all sine)"],
+                      ] as const
+                    ).map(([value, label]) => (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() =>
+                          handleArchitectureChange(
+                            withActivation(architecture, value),
+                          )
+                        }
+                        disabled={trainingState.isTraining}
+                        className="px-3 py-1 bg-secondary text-secondary-foreground rounded-md text-xs font-medium
+                        disabled:opacity-50 disabled:cursor-not-allowed hover:opacity-90 transition-opacity"
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-3">
+                    {architecture.hiddenLayers.map((layer, i) => (
+                      // biome-ignore lint/suspicious/noArrayIndexKey: layers are identified by their position
+                      <div key={i} className="flex items-center gap-2">
+                        <span className="text-xs text-muted-foreground w-14">
+                          Layer {i + 1}
+                        </span>
+                        <input
+                          type="number"
+                          min="1"
+                          max={MAX_LAYER_SIZE}
+                          value={layer.size}
+                          aria-label={`Layer ${i + 1} width`}
+                          onChange={(e) =>
+                            handleLayerChange(i, {
+                              size: Math.max(
+                                1,
+                                Math.min(MAX_LAYER_SIZE, Number(e.target.value)),
+                              ),
+                            })
+                          }
+                          disabled={trainingState.isTraining}
+                          className="w-20 bg-background border border-border rounded-md px-2 py-1 text-sm"
+                        />
+                        <select
+                          value={layer.activation}
+                          aria-label={`Layer ${i + 1} activation`}
+                          onChange={(e) =>
+                            handleLayerChange(i, {
+                              activation: e.target.value as LayerActivation,
+                            })
+                          }
+                          disabled={trainingState.isTraining}
+                          className="flex-1 bg-background border border-border rounded-md px-2 py-1 text-sm"
+                        >
+                          <option value="relu">ReLU</option>
+                          <option value="tanh">tanh</option>
+                          <option value="sine">sine</option>
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                  {architecture.hiddenLayers[0]?.activation === "sine" && (
+                    <>
+                      <label
+                        htmlFor={omega0Id}
+                        className="block text-sm font-medium mt-3 mb-2"
+                      >
+                        First-layer frequency (ω₀): {omega0}
+                      </label>
+                      <input
+                        id={omega0Id}
+                        type="range"
+                        min="1"
+                        max="60"
+                        step="1"
+                        value={omega0}
+                        onChange={(e) =>
+                          handleOmega0Change(Number(e.target.value))
+                        }
+                        disabled={trainingState.isTraining}
+                        className="w-full"
+                      />
+                    </>
+                  )}
+                  <div className="grid grid-cols-2 gap-2 text-center mt-3">
+                    <div className="bg-muted rounded p-2">
+                      <div className="text-xs text-muted-foreground">
+                        Parameters
+                      </div>
+                      <div className="text-sm font-mono font-bold">
+                        {networkCost.parameters.toLocaleString()}
+                      </div>
+                    </div>
+                    <div className="bg-muted rounded p-2">
+                      <div className="text-xs text-muted-foreground">
+                        Est. cost / iteration
+                      </div>
+                      <div className="text-sm font-mono font-bold">
+                        {(networkCost.flopsPerIteration / 1e6).toFixed(2)} MFLOP
+                      </div>
+                    </div>
+                  </div>
                   <p className="text-xs text-muted-foreground mt-2">
-                    Number of pixels to learn from at once. Smaller values (1-5)
-                    give faster, more varied updates. Larger values give
-                    smoother, more stable learning.
+                    Wider and deeper networks can paint more detail but each
+                    iteration costs more. SIREN uses sine activations, which
+                    represent sharp edges and texture far better but usually
+                    want a lower learning rate. Changing this resets training.
+                  </p>
+                </div>
+
+                {/* Compute Backend */}
+                <div>
+                  <label
+                    htmlFor={backendId}
+                    className="block text-sm font-medium mb-2"
+                  >
+                    Compute Backend
+                  </label>
+                  <select
+                    id={backendId}
+                    value={backend}
+                    onChange={(e) =>
+                      handleBackendChange(e.target.value as BackendType)
+                    }
+                    className="w-full bg-background border border-border rounded-md px-2 py-1 text-sm"
+                  >
+                    {(Object.keys(BACKEND_LABELS) as BackendType[]).map(
+                      (type) => (
+                        <option key={type} value={type}>
+                          {BACKEND_LABELS[type]}
+                        </option>
+                      ),
+                    )}
+                  </select>
+                  {activeBackend && activeBackend !== backend && (
+                    <p className="text-xs text-destructive mt-2">
+                      WebAssembly SIMD isn't available in this browser, so
+                      training is running on the JavaScript backend.
+                    </p>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Where the matrix math runs. WebAssembly SIMD processes four
+                    values per instruction and is noticeably faster on large
+                    images and wide layers; watch Iterations / sec to compare.
+                    Changing this resets training.
+                  </p>
+                </div>
+
+                {/* Seed */}
+                <div>
+                  <label
+                    htmlFor={seedId}
+                    className="block text-sm font-medium mb-2"
+                  >
+                    Seed
+                  </label>
+                  <div className="flex gap-2">
+                    <input
+                      id={seedId}
+                      type="number"
+                      min="0"
+                      max="4294967295"
+                      step="1"
+                      value={seed}
+                      onChange={(e) =>
+                        handleSeedChange(Number(e.target.value) >>> 0)
+                      }
+                      className="flex-1 min-w-0 bg-background border border-border rounded-md px-2 py-1 text-sm font-mono"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => handleSeedChange(randomSeed())}
+                      className="px-3 py-1 text-sm border border-border rounded-md hover:bg-muted"
+                    >
+                      New seed
+                    </button>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Seeds the initial weights and the order pixels are
+                    sampled in. The same seed, image and settings reproduce a
+                    run - snapshots and GIFs included - exactly, as long as
+                    nothing is changed mid-run. Changing this resets training.
+                  </p>
+                </div>
+
+                {/* Training Workers */}
+                <div>
+                  <label
+                    htmlFor={workerCountId}
+                    className="block text-sm font-medium mb-2"
+                  >
+                    Training Workers: {workerCount}
+                  </label>
+                  <input
+                    id={workerCountId}
+                    type="range"
+                    min="1"
+                    max={maxWorkerCount}
+                    step="1"
+                    value={workerCount}
+                    onChange={(e) =>
+                      handleWorkerCountChange(Number(e.target.value))
+                    }
+                    className="w-full"
+                  />
+                  <div className="flex justify-between text-xs text-muted-foreground mt-1">
+                    <span>1 (single worker)</span>
+                    <span>{maxWorkerCount} (one per core)</span>
+                  </div>
+                  {trainingWorkers?.error && (
+                    <p className="text-xs text-destructive mt-2">
+                      Couldn't start extra workers ({trainingWorkers.error}),
+                      so training is running on a single worker.
+                    </p>
+                  )}
+                  {trainingWorkers &&
+                    trainingWorkers.count > 1 &&
+                    !trainingWorkers.sharedMemory && (
+                      <p className="text-xs text-muted-foreground mt-2">
+                        This page isn't cross-origin isolated, so weights and
+                        gradients are copied between workers every step.
+                      </p>
+                    )}
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Splits the image between several workers. Each one
+                    computes gradients on a batch of its own pixels, and the
+                    averaged gradient makes one update, so the effective
+                    batch is Batch Size × workers and always uses mini-batch
+                    mode. Helps most with large batches and wide layers.
                   </p>
                 </div>
 
@@ -1264,14 +3911,72 @@ export function ImagePainter() {
                       </p>
                     </div>
 
+                    {/* In-between Frames */}
+                    <div>
+                      <label
+                        htmlFor={gifInterpolationId}
+                        className="block text-sm font-medium mb-2"
+                      >
+                        In-between Frames
+                      </label>
+                      <select
+                        id={gifInterpolationId}
+                        value={gifInterpolation}
+                        onChange={(e) => {
+                          const mode = e.target.value as InterpolationMode;
+                          setGifInterpolation(mode);
+                          gifInBetweenRef.current.interpolation = mode;
+                        }}
+                        className="w-full bg-background border border-border rounded-md px-2 py-1 text-sm"
+                      >
+                        {Object.entries(INTERPOLATION_LABELS).map(
+                          ([mode, label]) => (
+                            <option key={mode} value={mode}>
+                              {label}
+                            </option>
+                          ),
+                        )}
+                      </select>
+                      {gifInterpolation !== "none" && (
+                        <>
+                          <label
+                            htmlFor={gifInBetweenId}
+                            className="block text-xs text-muted-foreground mt-3 mb-1"
+                          >
+                            {gifInBetweenFrames} between each pair of snapshots
+                          </label>
+                          <input
+                            id={gifInBetweenId}
+                            type="range"
+                            min="1"
+                            max={MAX_IN_BETWEEN_FRAMES}
+                            step="1"
+                            value={gifInBetweenFrames}
+                            onChange={(e) => {
+                              const frames = Number(e.target.value);
+                              setGifInBetweenFrames(frames);
+                              gifInBetweenRef.current.frames = frames;
+                            }}
+                            className="w-full"
+                          />
+                        </>
+                      )}
+                      <p className="text-xs text-muted-foreground mt-2">
+                        Smooths the jumps between snapshots. Weight
+                        interpolation renders networks part-way between two
+                        snapshots (spherical keeps the weights from shrinking
+                        mid-way); a cross-fade blends their pixels.
+                      </p>
+                    </div>
+
                     {/* Memory Estimate */}
                     <div className="bg-muted rounded p-3">
                       <div className="text-sm font-medium mb-2">
                         Memory Estimate
                       </div>
                       <div className="text-xs text-muted-foreground">
-                        {memoryEstimate.totalFrames} frames × {imageSize}×
-                        {imageSize}px
+                        {memoryEstimate.totalFrames} frames ×{" "}
+                        {trainingSize.width}×{trainingSize.height}px
                       </div>
                       <div className="text-lg font-mono font-bold text-primary mt-1">
                         {memoryEstimate.megabytes.toFixed(2)} MB
@@ -1409,7 +4114,7 @@ export function ImagePainter() {
         )}
 
         {/* Training Metrics Charts */}
-        {snapshotMetadata.length > 0 && (
+        {imageLoaded && (
           <div className="bg-card border border-border rounded-lg p-4 md:p-6 my-8">
             <h2 className="text-lg md:text-xl font-semibold mb-3 md:mb-4">
               Training Metrics Evolution
@@ -1418,55 +4123,146 @@ export function ImagePainter() {
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               {/* MSE Chart */}
               <div>
-                <h3 className="text-sm font-medium mb-2">Loss (MSE)</h3>
-                <ChartContainer
-                  config={{
-                    mse: { label: "MSE", color: "hsl(var(--chart-1))" },
-                  }}
-                  className="h-[200px]"
-                >
-                  <AreaChart data={snapshotMetadata}>
-                    <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis
-                      dataKey="iteration"
-                      tickFormatter={(value) => `${(value / 1000).toFixed(0)}k`}
-                    />
-                    <YAxis />
-                    <ChartTooltip content={<ChartTooltipContent />} />
-                    <Area
-                      type="monotone"
-                      dataKey="mse"
-                      stroke="hsl(var(--chart-1))"
-                      fill="hsl(var(--chart-1))"
-                      fillOpacity={0.2}
-                    />
-                  </AreaChart>
-                </ChartContainer>
+                <h3 className="text-sm font-medium mb-2">
+                  Loss ({snapshotLossLabel || describeLoss(loss)})
+                </h3>
+                {snapshotMetadata.length === 0 ? (
+                  <div className="h-[200px] flex items-center justify-center bg-muted rounded-lg text-xs text-muted-foreground">
+                    Loss appears here once snapshots are captured
+                  </div>
+                ) : (
+                  <ChartContainer
+                    config={{
+                      mse: {
+                        label: `Batch ${snapshotLossLabel}`,
+                        color: "hsl(var(--chart-1))",
+                      },
+                      imageMse: { label: "Image MSE", color: "hsl(var(--chart-4))" },
+                    }}
+                    className="h-[200px]"
+                  >
+                    <AreaChart data={snapshotMetadata}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis
+                        dataKey="iteration"
+                        tickFormatter={(value) => `${(value / 1000).toFixed(0)}k`}
+                      />
+                      <YAxis />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Area
+                        type="monotone"
+                        dataKey="mse"
+                        stroke="hsl(var(--chart-1))"
+                        fill="hsl(var(--chart-1))"
+                        fillOpacity={0.2}
+                      />
+                      <Area
+                        type="monotone"
+                        dataKey="imageMse"
+                        stroke="hsl(var(--chart-4))"
+                        fill="none"
+                        connectNulls
+                      />
+                    </AreaChart>
+                  </ChartContainer>
+                )}
+              </div>
+
+              {/* Image Quality Chart */}
+              <div>
+                <h3 className="text-sm font-medium mb-2">
+                  Image Quality
+                  <span className="text-xs text-muted-foreground font-normal">
+                    {" "}
+                    (PSNR in dB, left · SSIM, right)
+                  </span>
+                </h3>
+                {snapshotMetadata.length === 0 ? (
+                  <div className="h-[200px] flex items-center justify-center bg-muted rounded-lg text-xs text-muted-foreground">
+                    PSNR and SSIM appear here once snapshots are captured
+                  </div>
+                ) : (
+                  <ChartContainer
+                    config={{
+                      psnr: { label: "PSNR", color: "hsl(var(--chart-2))" },
+                      ssim: { label: "SSIM", color: "hsl(var(--chart-5))" },
+                    }}
+                    className="h-[200px]"
+                  >
+                    <AreaChart data={snapshotMetadata}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis
+                        dataKey="iteration"
+                        tickFormatter={(value) => `${(value / 1000).toFixed(0)}k`}
+                      />
+                      <YAxis yAxisId="psnr" />
+                      <YAxis yAxisId="ssim" orientation="right" domain={[0, 1]} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Area
+                        yAxisId="psnr"
+                        type="monotone"
+                        dataKey="psnr"
+                        stroke="hsl(var(--chart-2))"
+                        fill="hsl(var(--chart-2))"
+                        fillOpacity={0.2}
+                        connectNulls
+                      />
+                      <Area
+                        yAxisId="ssim"
+                        type="monotone"
+                        dataKey="ssim"
+                        stroke="hsl(var(--chart-5))"
+                        fill="none"
+                        connectNulls
+                      />
+                    </AreaChart>
+                  </ChartContainer>
+                )}
               </div>
 
               {/* Learning Rate Chart */}
               <div>
-                <h3 className="text-sm font-medium mb-2">Learning Rate</h3>
+                <h3 className="text-sm font-medium mb-2">
+                  Learning Rate
+                  {scheduler.type === "plateau" && (
+                    <span className="text-xs text-muted-foreground font-normal">
+                      {" "}
+                      (decays when the loss plateaus)
+                    </span>
+                  )}
+                </h3>
                 <ChartContainer
                   config={{
+                    scheduled: { label: "Scheduled", color: "hsl(var(--chart-3))" },
                     learningRate: { label: "Learning Rate", color: "hsl(var(--chart-2))" },
                   }}
                   className="h-[200px]"
                 >
-                  <AreaChart data={snapshotMetadata}>
+                  <AreaChart data={learningRateChartData}>
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis
                       dataKey="iteration"
+                      type="number"
+                      domain={[0, "dataMax"]}
                       tickFormatter={(value) => `${(value / 1000).toFixed(0)}k`}
                     />
                     <YAxis />
                     <ChartTooltip content={<ChartTooltipContent />} />
+                    <Area
+                      type="monotone"
+                      dataKey="scheduled"
+                      stroke="hsl(var(--chart-3))"
+                      strokeDasharray="4 4"
+                      fill="none"
+                      connectNulls
+                    />
                     <Area
                       type="monotone"
                       dataKey="learningRate"
                       stroke="hsl(var(--chart-2))"
                       fill="hsl(var(--chart-2))"
                       fillOpacity={0.2}
+                      connectNulls
                     />
                   </AreaChart>
                 </ChartContainer>
@@ -1475,6 +4271,9 @@ export function ImagePainter() {
           </div>
         )}
 
+        {/* Autoencoder over the whole set of moments */}
+        <AutoencoderPanel />
+
         {/* Blog Post */}
         {blogContent && (
           <div className="mt-8 bg-card px-4 md:px-6">
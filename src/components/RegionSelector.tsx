@@ -0,0 +1,210 @@
+import { useEffect, useRef, useState } from "react";
+import type { CropRegion } from "../lib/image-layout";
+
+// Smallest crop side (fraction of the photo); shorter drags are treated as
+// clicks and leave the crop unchanged
+const MIN_CROP_SIZE = 0.02;
+
+// Pointer position as a fraction of the element, clamped to [0, 1]
+function relativePosition(
+  event: React.PointerEvent<HTMLElement>,
+): { x: number; y: number } {
+  const rect = event.currentTarget.getBoundingClientRect();
+  return {
+    x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+    y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height)),
+  };
+}
+
+interface CropSelectorProps {
+  imageUrl: string;
+  crop: CropRegion | null;
+  onChange: (crop: CropRegion) => void;
+}
+
+// Drag a rectangle over the full photo to choose the region to train on
+export function CropSelector({ imageUrl, crop, onChange }: CropSelectorProps) {
+  const [start, setStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<CropRegion | null>(null);
+  const shown = draft ?? crop;
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = relativePosition(event);
+    setStart(point);
+    setDraft({ ...point, width: 0, height: 0 });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!start) return;
+    const point = relativePosition(event);
+    setDraft({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (
+      draft &&
+      draft.width >= MIN_CROP_SIZE &&
+      draft.height >= MIN_CROP_SIZE
+    ) {
+      onChange(draft);
+    }
+    setStart(null);
+    setDraft(null);
+  };
+
+  return (
+    <div
+      role="presentation"
+      className="relative overflow-hidden cursor-crosshair select-none touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <img
+        src={imageUrl}
+        alt="Select the region to train on"
+        draggable={false}
+        style={{ width: "100%", height: "auto", display: "block" }}
+      />
+      {shown && (
+        <div
+          className="absolute border-2 border-primary pointer-events-none"
+          style={{
+            left: `${shown.x * 100}%`,
+            top: `${shown.y * 100}%`,
+            width: `${shown.width * 100}%`,
+            height: `${shown.height * 100}%`,
+            // Dim everything outside the selection
+            boxShadow: "0 0 0 9999px rgba(0, 0, 0, 0.5)",
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+// Show painted pixels as a translucent red overlay
+function drawMask(
+  canvas: HTMLCanvasElement | null,
+  mask: Uint8Array,
+  width: number,
+  height: number,
+) {
+  const ctx = canvas?.getContext("2d");
+  if (!ctx) return;
+  const overlay = ctx.createImageData(width, height);
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i]) {
+      overlay.data[i * 4] = 255;
+      overlay.data[i * 4 + 3] = 120;
+    }
+  }
+  ctx.putImageData(overlay, 0, 0);
+}
+
+interface MaskPainterProps {
+  imageUrl: string;
+  width: number;
+  height: number;
+  // One byte per training pixel, non-zero where painted
+  mask: Uint8Array | null;
+  // Brush radius in training pixels
+  brushRadius: number;
+  erase: boolean;
+  onChange: (mask: Uint8Array) => void;
+}
+
+// Paint over the training image to mark pixels that should be sampled more
+export function MaskPainter({
+  imageUrl,
+  width,
+  height,
+  mask,
+  brushRadius,
+  erase,
+  onChange,
+}: MaskPainterProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Mask being painted; committed through onChange when the stroke ends
+  const workingMaskRef = useRef<Uint8Array>(new Uint8Array(0));
+  const paintingRef = useRef(false);
+
+  useEffect(() => {
+    workingMaskRef.current =
+      mask?.length === width * height
+        ? new Uint8Array(mask)
+        : new Uint8Array(width * height);
+    drawMask(canvasRef.current, workingMaskRef.current, width, height);
+  }, [mask, width, height]);
+
+  const paintAt = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = relativePosition(event);
+    const cx = point.x * width;
+    const cy = point.y * height;
+    const working = workingMaskRef.current;
+    const value = erase ? 0 : 1;
+    const r = brushRadius;
+    const x0 = Math.max(0, Math.floor(cx - r));
+    const x1 = Math.min(width, Math.ceil(cx + r));
+    const y0 = Math.max(0, Math.floor(cy - r));
+    const y1 = Math.min(height, Math.ceil(cy + r));
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const dx = x + 0.5 - cx;
+        const dy = y + 0.5 - cy;
+        if (dx * dx + dy * dy <= r * r) working[y * width + x] = value;
+      }
+    }
+    drawMask(canvasRef.current, working, width, height);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    paintingRef.current = true;
+    paintAt(event);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (paintingRef.current) paintAt(event);
+  };
+
+  const handlePointerUp = () => {
+    if (!paintingRef.current) return;
+    paintingRef.current = false;
+    onChange(new Uint8Array(workingMaskRef.current));
+  };
+
+  return (
+    <div className="relative select-none">
+      <img
+        src={imageUrl}
+        alt="Paint the region to emphasize"
+        draggable={false}
+        style={{
+          width: "100%",
+          height: "auto",
+          display: "block",
+          imageRendering: "pixelated",
+        }}
+      />
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        className="absolute inset-0 cursor-crosshair touch-none"
+        style={{ width: "100%", height: "100%", imageRendering: "pixelated" }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      />
+    </div>
+  );
+}
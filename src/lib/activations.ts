@@ -0,0 +1,109 @@
+// Hidden-layer activations shared by both network implementations
+// "sine" layers follow SIREN (Sitzmann et al. 2020, Implicit Neural
+// Representations with Periodic Activation Functions)
+
+export type LayerActivation = "relu" | "sine" | "tanh";
+
+// Frequency applied when the first layer is a sine layer: sin(omega_0 * (Wx + b))
+export const DEFAULT_OMEGA_0 = 30;
+
+// Uniform init bound for a SIREN layer. The first layer spans the input range
+// directly (omega_0 does the frequency scaling); later layers keep activations
+// arcsine-distributed so the signal survives through depth.
+export function sirenWeightBound(fanIn: number, isFirstLayer: boolean): number {
+  return isFirstLayer ? 1 / fanIn : Math.sqrt(6 / fanIn);
+}
+
+// Uniform init bound for a layer feeding into the given activation
+export function weightBound(
+  activation: LayerActivation,
+  fanIn: number,
+  fanOut: number,
+  isFirstLayer: boolean,
+): number {
+  switch (activation) {
+    case "sine":
+      return sirenWeightBound(fanIn, isFirstLayer);
+    case "tanh":
+      return Math.sqrt(6 / (fanIn + fanOut));
+    default:
+      return Math.sqrt(2 / fanIn);
+  }
+}
+
+// omega is the layer's frequency multiplier (only used by sine layers)
+export function activate(
+  activation: LayerActivation,
+  z: number,
+  omega: number,
+): number {
+  switch (activation) {
+    case "sine":
+      return Math.sin(omega * z);
+    case "tanh":
+      return Math.tanh(z);
+    default:
+      return z > 0 ? z : 0;
+  }
+}
+
+export function activationDerivative(
+  activation: LayerActivation,
+  z: number,
+  omega: number,
+): number {
+  switch (activation) {
+    case "sine":
+      return omega * Math.cos(omega * z);
+    case "tanh": {
+      const t = Math.tanh(z);
+      return 1 - t * t;
+    }
+    default:
+      return z > 0 ? 1 : 0;
+  }
+}
+
+// Batched versions for the worker kernel: the switch happens once per layer
+// instead of once per unit. out[i] = f(z[i]) for the first `count` entries.
+export function activateBatch(
+  activation: LayerActivation,
+  z: Float32Array,
+  out: Float32Array,
+  count: number,
+  omega: number,
+) {
+  switch (activation) {
+    case "sine":
+      for (let i = 0; i < count; i++) out[i] = Math.sin(omega * z[i]);
+      break;
+    case "tanh":
+      for (let i = 0; i < count; i++) out[i] = Math.tanh(z[i]);
+      break;
+    default:
+      for (let i = 0; i < count; i++) out[i] = z[i] > 0 ? z[i] : 0;
+  }
+}
+
+// delta[i] *= f'(z[i]) for the first `count` entries
+export function multiplyByDerivative(
+  activation: LayerActivation,
+  z: Float32Array,
+  delta: Float32Array,
+  count: number,
+  omega: number,
+) {
+  switch (activation) {
+    case "sine":
+      for (let i = 0; i < count; i++) delta[i] *= omega * Math.cos(omega * z[i]);
+      break;
+    case "tanh":
+      for (let i = 0; i < count; i++) {
+        const t = Math.tanh(z[i]);
+        delta[i] *= 1 - t * t;
+      }
+      break;
+    default:
+      for (let i = 0; i < count; i++) if (z[i] <= 0) delta[i] = 0;
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { Autoencoder, imageToRow } from "./autoencoder";
+import { createRandom } from "./random";
+
+function createAutoencoder(seed: number): Autoencoder {
+  return new Autoencoder({
+    imageSize: 4,
+    hiddenSize: 16,
+    latentSize: 2,
+    learningRate: 0.01,
+    backend: "js",
+    random: createRandom(seed),
+  });
+}
+
+// Opaque 4 x 4 RGBA images: a horizontal ramp, a vertical one and a flat grey
+function createImages(): Uint8ClampedArray[] {
+  const ramps = [(x: number) => x, (_x: number, y: number) => y, () => 1.5];
+  return ramps.map((ramp) => {
+    const image = new Uint8ClampedArray(4 * 4 * 4);
+    for (let y = 0; y < 4; y++) {
+      for (let x = 0; x < 4; x++) {
+        const value = ramp(x, y) * 80;
+        image.set([value, 255 - value, value / 2, 255], (y * 4 + x) * 4);
+      }
+    }
+    return image;
+  });
+}
+
+describe("Autoencoder", () => {
+  it("learns to reconstruct a small set of images", () => {
+    const autoencoder = createAutoencoder(7);
+    const images = createImages();
+    const rows = new Float32Array(images.length * autoencoder.pixelValues);
+    for (const [i, image] of images.entries()) imageToRow(image, rows, i);
+
+    const initialLoss = autoencoder.train(rows, images.length);
+    let loss = initialLoss;
+    for (let step = 0; step < 500; step++) {
+      loss = autoencoder.train(rows, images.length);
+    }
+    expect(loss).toBeLessThan(initialLoss / 10);
+
+    // The decoded latent matches its image to within a few levels
+    for (const [i, image] of images.entries()) {
+      const latent = autoencoder.encode(rows, i);
+      expect(latent).toHaveLength(2);
+      const decoded = autoencoder.decode(latent);
+      expect(decoded).toHaveLength(image.length);
+      for (let p = 0; p < image.length; p++) {
+        expect(Math.abs(decoded[p] - image[p])).toBeLessThan(24);
+      }
+    }
+  });
+
+  it("starts from the same weights for the same seed", () => {
+    const a = createAutoencoder(3).getParams();
+    const b = createAutoencoder(3).getParams();
+    expect(Array.from(a)).toEqual(Array.from(b));
+    expect(a.some((value) => value !== 0)).toBe(true);
+  });
+});
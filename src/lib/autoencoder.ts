@@ -0,0 +1,334 @@
+// Image autoencoder trained by the worker: an encoder squeezes a whole
+// (small) image into a latent vector of a few numbers and a decoder rebuilds
+// the image from it. Where the coordinate network memorizes one picture,
+// this has to find what a set of pictures share to fit them all through the
+// bottleneck.
+//
+// Layers: pixels -> hidden (ReLU) -> latent (linear) -> hidden (ReLU) ->
+// pixels (clamped to [0, 1]), trained on the squared error with Adam. Buffers
+// follow the same flat layout as NeuralNetwork and run on the same kernels.
+
+import { weightBound } from "./activations";
+import {
+  type BackendType,
+  type ComputeBackend,
+  createComputeBackend,
+} from "./compute-backend";
+import { DEFAULT_OPTIMIZER } from "./optimizers";
+import type { Random } from "./random";
+
+// Side of the square images the autoencoder sees (inputs are 3 values per
+// pixel, so 32 x 32 is 3,072 numbers in and out)
+export const AUTOENCODER_IMAGE_SIZE = 32;
+export const AUTOENCODER_HIDDEN_SIZE = 128;
+export const LATENT_SIZES = [2, 4, 8, 16, 32, 64];
+export const DEFAULT_LATENT_SIZE = 16;
+export const DEFAULT_AUTOENCODER_LEARNING_RATE = 0.001;
+
+export interface AutoencoderConfig {
+  imageSize: number;
+  hiddenSize: number;
+  latentSize: number;
+  learningRate: number;
+  // Falls back to "js" when WebAssembly SIMD isn't available
+  backend: BackendType;
+  // Source for the initial weights
+  random: Random;
+}
+
+// Index of the latent layer's output in layerSizes
+const LATENT_LAYER = 2;
+
+export class Autoencoder {
+  readonly imageSize: number;
+  readonly latentSize: number;
+  private layerSizes: number[];
+  private learningRate: number;
+  private backend: ComputeBackend;
+
+  // Every weight and bias in one buffer, [W0, b0, W1, b1, ...], with
+  // gradients and Adam's moment estimates in the same layout
+  private params!: Float32Array;
+  private gradients!: Float32Array;
+  private moments!: Float32Array;
+  private squares!: Float32Array;
+  private optimizerStep = 0;
+  private weights: Float32Array[] = [];
+  private biases: Float32Array[] = [];
+  private weightGradients: Float32Array[] = [];
+  private biasGradients: Float32Array[] = [];
+
+  // Batch scratch, one image per row: activations[0] is the input,
+  // activations[l + 1] and zValues[l] the output of layer l, deltas[l] the
+  // error at that output. Grown on demand, never shrunk.
+  private batchCapacity = 0;
+  private activations: Float32Array[] = [];
+  private zValues: Float32Array[] = [];
+  private deltas: Float32Array[] = [];
+
+  constructor(config: AutoencoderConfig) {
+    this.imageSize = config.imageSize;
+    this.latentSize = config.latentSize;
+    this.learningRate = config.learningRate;
+    this.backend = createComputeBackend(config.backend);
+    const pixels = config.imageSize * config.imageSize * 3;
+    this.layerSizes = [
+      pixels,
+      config.hiddenSize,
+      config.latentSize,
+      config.hiddenSize,
+      pixels,
+    ];
+    this.allocate(1);
+
+    // He for the layers feeding a ReLU, Xavier for the linear ones
+    for (let l = 0; l < this.weights.length; l++) {
+      const fanIn = this.layerSizes[l];
+      const fanOut = this.layerSizes[l + 1];
+      const scale = weightBound(
+        this.isReluLayer(l) ? "relu" : "tanh",
+        fanIn,
+        fanOut,
+        false,
+      );
+      const weights = this.weights[l];
+      for (let j = 0; j < weights.length; j++) {
+        weights[j] = (config.random() * 2 - 1) * scale;
+      }
+    }
+  }
+
+  // Values in one input (or output) row: r, g, b per pixel, row by row
+  get pixelValues(): number {
+    return this.layerSizes[0];
+  }
+
+  get parameterCount(): number {
+    return this.params.length;
+  }
+
+  // The layers out of the image and out of the latent feed the two hidden
+  // layers; the latent and output layers are linear
+  private isReluLayer(layer: number): boolean {
+    return layer === 0 || layer === LATENT_LAYER;
+  }
+
+  // (Re)create the flat buffers and batch scratch in one backend allocation.
+  // Parameters and optimizer state start at zero.
+  private allocate(batchCapacity: number) {
+    const offsets: number[] = [];
+    let total = 0;
+    for (let l = 0; l < this.layerSizes.length - 1; l++) {
+      offsets.push(total);
+      total += (this.layerSizes[l] + 1) * this.layerSizes[l + 1];
+    }
+
+    const hiddenAndOutput = this.layerSizes.slice(1);
+    const buffers = this.backend.allocate([
+      total,
+      total,
+      total,
+      total,
+      ...this.layerSizes.map((size) => batchCapacity * size),
+      ...hiddenAndOutput.map((size) => batchCapacity * size),
+      ...hiddenAndOutput.map((size) => batchCapacity * size),
+    ]);
+    [this.params, this.gradients, this.moments, this.squares] = buffers;
+    const layers = this.layerSizes.length;
+    this.activations = buffers.slice(4, 4 + layers);
+    this.zValues = buffers.slice(4 + layers, 4 + layers + hiddenAndOutput.length);
+    this.deltas = buffers.slice(4 + layers + hiddenAndOutput.length);
+    this.batchCapacity = batchCapacity;
+
+    this.weights = [];
+    this.biases = [];
+    this.weightGradients = [];
+    this.biasGradients = [];
+    for (let l = 0; l < offsets.length; l++) {
+      const biasStart = offsets[l] + this.layerSizes[l] * this.layerSizes[l + 1];
+      const biasEnd = biasStart + this.layerSizes[l + 1];
+      this.weights.push(this.params.subarray(offsets[l], biasStart));
+      this.biases.push(this.params.subarray(biasStart, biasEnd));
+      this.weightGradients.push(this.gradients.subarray(offsets[l], biasStart));
+      this.biasGradients.push(this.gradients.subarray(biasStart, biasEnd));
+    }
+  }
+
+  // Grow the batch scratch, carrying parameters and optimizer state over
+  private ensureBatchCapacity(batch: number) {
+    if (batch <= this.batchCapacity) return;
+    const saved = [this.params, this.gradients, this.moments, this.squares].map(
+      (buffer) => buffer.slice(),
+    );
+    this.allocate(batch);
+    this.params.set(saved[0]);
+    this.gradients.set(saved[1]);
+    this.moments.set(saved[2]);
+    this.squares.set(saved[3]);
+  }
+
+  getBackendType(): BackendType {
+    return this.backend.type;
+  }
+
+  setLearningRate(lr: number) {
+    this.learningRate = lr;
+  }
+
+  getLearningRate(): number {
+    return this.learningRate;
+  }
+
+  getParams(): Float32Array {
+    return this.params;
+  }
+
+  // Run layers [from, to) for `batch` rows whose input to layer `from` is
+  // already in activations[from]
+  private forwardLayers(batch: number, from: number, to: number) {
+    const last = this.weights.length - 1;
+    for (let l = from; l < to; l++) {
+      const outputSize = this.layerSizes[l + 1];
+      const z = this.zValues[l];
+      const out = this.activations[l + 1];
+      const count = batch * outputSize;
+
+      this.backend.denseForward(
+        z,
+        this.activations[l],
+        this.weights[l],
+        this.biases[l],
+        batch,
+        this.layerSizes[l],
+        outputSize,
+      );
+
+      if (this.isReluLayer(l)) {
+        for (let i = 0; i < count; i++) out[i] = z[i] > 0 ? z[i] : 0;
+      } else if (l === last) {
+        // Clamp output to [0, 1] for RGB
+        for (let i = 0; i < count; i++) out[i] = Math.max(0, Math.min(1, z[i]));
+      } else {
+        out.set(z.subarray(0, count));
+      }
+    }
+  }
+
+  // One Adam step on images [0, count) of `images` (one image per row of
+  // pixelValues channels in [0, 1]), which are both input and target.
+  // Returns the mean squared error per channel.
+  train(images: Float32Array, count: number): number {
+    const numLayers = this.weights.length;
+    const pixels = this.pixelValues;
+    this.ensureBatchCapacity(count);
+    this.activations[0].set(images.subarray(0, count * pixels));
+    this.forwardLayers(count, 0, numLayers);
+
+    // Output delta points downhill: target - output
+    const output = this.activations[numLayers];
+    const outputDelta = this.deltas[numLayers - 1];
+    let loss = 0;
+    for (let i = 0; i < count * pixels; i++) {
+      const error = images[i] - output[i];
+      outputDelta[i] = error;
+      loss += error * error;
+    }
+
+    // Back through the hidden layers (the input layer needs no delta)
+    for (let l = numLayers - 2; l >= 0; l--) {
+      const outputSize = this.layerSizes[l + 1];
+      this.backend.denseBackward(
+        this.deltas[l],
+        this.deltas[l + 1],
+        this.weights[l + 1],
+        count,
+        outputSize,
+        this.layerSizes[l + 2],
+      );
+      if (this.isReluLayer(l)) {
+        const z = this.zValues[l];
+        const delta = this.deltas[l];
+        for (let i = 0; i < count * outputSize; i++) {
+          if (z[i] <= 0) delta[i] = 0;
+        }
+      }
+    }
+
+    for (let l = 0; l < numLayers; l++) {
+      this.backend.accumulateGradients(
+        this.weightGradients[l],
+        this.biasGradients[l],
+        this.deltas[l],
+        this.activations[l],
+        count,
+        this.layerSizes[l],
+        this.layerSizes[l + 1],
+      );
+    }
+    this.applyGradients(count);
+
+    return loss / (count * pixels);
+  }
+
+  // Adam over every parameter with the batch's average gradient
+  private applyGradients(sampleCount: number) {
+    const { beta1, beta2, epsilon } = DEFAULT_OPTIMIZER;
+    const scale = 1 / sampleCount;
+    const lr = this.learningRate;
+    this.optimizerStep++;
+    const correction1 = 1 - beta1 ** this.optimizerStep;
+    const correction2 = 1 - beta2 ** this.optimizerStep;
+    const { params, gradients, moments, squares } = this;
+
+    for (let i = 0; i < params.length; i++) {
+      const g = gradients[i] * scale;
+      moments[i] = beta1 * moments[i] + (1 - beta1) * g;
+      squares[i] = beta2 * squares[i] + (1 - beta2) * g * g;
+      params[i] +=
+        (lr * (moments[i] / correction1)) /
+        (Math.sqrt(squares[i] / correction2) + epsilon);
+    }
+    gradients.fill(0);
+  }
+
+  // Latent vector of row `index` of `images`
+  encode(images: Float32Array, index: number): Float32Array {
+    const pixels = this.pixelValues;
+    this.activations[0].set(
+      images.subarray(index * pixels, (index + 1) * pixels),
+    );
+    this.forwardLayers(1, 0, LATENT_LAYER);
+    return this.activations[LATENT_LAYER].slice(0, this.latentSize);
+  }
+
+  // Opaque RGBA image the decoder makes of a latent vector
+  decode(latent: Float32Array): Uint8ClampedArray {
+    this.activations[LATENT_LAYER].set(latent);
+    this.forwardLayers(1, LATENT_LAYER, this.weights.length);
+    const output = this.activations[this.weights.length];
+
+    const image = new Uint8ClampedArray(this.imageSize * this.imageSize * 4);
+    for (let p = 0; p < image.length / 4; p++) {
+      image[p * 4] = Math.round(output[p * 3] * 255);
+      image[p * 4 + 1] = Math.round(output[p * 3 + 1] * 255);
+      image[p * 4 + 2] = Math.round(output[p * 3 + 2] * 255);
+      image[p * 4 + 3] = 255;
+    }
+    return image;
+  }
+}
+
+// Copy an RGBA image into row `index` of an autoencoder batch (channels in
+// [0, 1], alpha dropped)
+export function imageToRow(
+  rgba: Uint8ClampedArray,
+  rows: Float32Array,
+  index: number,
+) {
+  const offset = index * (rgba.length / 4) * 3;
+  for (let p = 0; p < rgba.length / 4; p++) {
+    rows[offset + p * 3] = rgba[p * 4] / 255;
+    rows[offset + p * 3 + 1] = rgba[p * 4 + 1] / 255;
+    rows[offset + p * 3 + 2] = rgba[p * 4 + 2] / 255;
+  }
+}
@@ -0,0 +1,155 @@
+// Full training checkpoints: network, optimizer, schedule, sampler and the
+// settings they were trained with, persisted to IndexedDB so a long run
+// survives a page reload. Typed arrays are stored as-is (IndexedDB keeps
+// structured clones), so saving doesn't serialize the parameters.
+
+import type { ColorSpace } from "./color-spaces";
+import type { BackendType } from "./compute-backend";
+import type { InputEncodingConfig } from "./input-encoding";
+import type { LossConfig } from "./loss-functions";
+import type { SchedulerConfig, SchedulerState } from "./lr-schedulers";
+import type { NetworkArchitecture } from "./network-architecture";
+import type { BatchMode, OptimizerConfig } from "./optimizers";
+import type { SamplerState, SamplingMode } from "./pixel-sampling";
+import type { OptimizerState } from "./worker-network";
+
+export interface CheckpointSettings {
+  // Learning rate the schedule starts from (set by the user)
+  learningRate: number;
+  minLearningRate: number;
+  momentum: number;
+  optimizer: OptimizerConfig;
+  // Missing from checkpoints saved before losses were selectable (MSE)
+  loss?: LossConfig;
+  scheduler: SchedulerConfig;
+  maxIterations: number;
+  batchSize: number;
+  batchMode: BatchMode;
+  samplingMode: SamplingMode;
+  inputEncoding: InputEncodingConfig;
+  architecture: NetworkArchitecture;
+  omega0: number;
+  // Missing from checkpoints saved before color spaces (RGB)
+  colorSpace?: ColorSpace;
+  backend: BackendType;
+  workerCount: number;
+  seed: number;
+}
+
+// Painted region of the training image, sampled `emphasis` times as often
+// as the rest: one byte per pixel, non-zero inside the region
+export interface ImportanceMask {
+  mask: Uint8Array;
+  emphasis: number;
+}
+
+export interface TrainingCheckpoint {
+  // Identifies the run the checkpoint belongs to, so autosaves from a fresh
+  // run don't overwrite a longer one that hasn't been resumed yet
+  runId: string;
+  savedAt: number;
+  iteration: number;
+  loss: number;
+  settings: CheckpointSettings;
+  params: Float32Array;
+  // Fourier frequency matrix the weights were trained against
+  frequencies: Float64Array | null;
+  optimizerState: OptimizerState;
+  schedulerState: SchedulerState;
+  // Only the coordinator's own sampler - shard workers restart their streams
+  samplerState: SamplerState;
+  // Missing from checkpoints saved before masks were kept (no mask)
+  importanceMask?: ImportanceMask | null;
+  // Weights the sampler draws from (mask times error in "error" mode) and
+  // the iteration the error part was measured at, so a resumed sampler
+  // carries on with the same distribution and refresh schedule
+  samplingWeights?: Float32Array | null;
+  errorWeightsIteration?: number | null;
+  // The training image, so a resumed run doesn't depend on where it came from
+  image: {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+  };
+}
+
+// What the UI needs to offer a resume
+export interface CheckpointSummary {
+  runId: string;
+  savedAt: number;
+  iteration: number;
+  loss: number;
+  width: number;
+  height: number;
+}
+
+const DB_NAME = "deconstructing-perception";
+const DB_VERSION = 1;
+const STORE = "checkpoints";
+// One slot: the latest checkpoint
+const LATEST_KEY = "latest";
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Run one request against the checkpoint store and close the database
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = run(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export function isCheckpointStorageAvailable(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+export async function saveCheckpoint(
+  checkpoint: TrainingCheckpoint,
+): Promise<void> {
+  await withStore("readwrite", (store) => store.put(checkpoint, LATEST_KEY));
+}
+
+export async function loadCheckpoint(): Promise<TrainingCheckpoint | null> {
+  const checkpoint = await withStore<TrainingCheckpoint | undefined>(
+    "readonly",
+    (store) => store.get(LATEST_KEY),
+  );
+  return checkpoint ?? null;
+}
+
+export async function deleteCheckpoint(): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(LATEST_KEY));
+}
+
+export function summarizeCheckpoint(
+  checkpoint: TrainingCheckpoint,
+): CheckpointSummary {
+  return {
+    runId: checkpoint.runId,
+    savedAt: checkpoint.savedAt,
+    iteration: checkpoint.iteration,
+    loss: checkpoint.loss,
+    width: checkpoint.image.width,
+    height: checkpoint.image.height,
+  };
+}
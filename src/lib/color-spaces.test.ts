@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import {
+  type ColorSpace,
+  decodeColor,
+  encodeColor,
+  rgbToLab,
+} from "./color-spaces";
+
+const COLORS: [number, number, number][] = [
+  [0, 0, 0],
+  [1, 1, 1],
+  [1, 0, 0],
+  [0.2, 0.7, 0.4],
+  [0.9, 0.5, 0.1],
+  [0.3, 0.3, 0.8],
+  [0.8, 0.1, 0.6],
+];
+
+describe("encodeColor / decodeColor", () => {
+  for (const space of ["rgb", "ycbcr", "lab", "hsv"] as ColorSpace[]) {
+    it(`round-trips sRGB through ${space} within [0, 1]`, () => {
+      const encoded = new Float32Array(3);
+      const decoded = new Float32Array(3);
+      for (const [r, g, b] of COLORS) {
+        encodeColor(space, r, g, b, encoded, 0);
+        for (const channel of encoded) {
+          expect(channel).toBeGreaterThanOrEqual(0);
+          expect(channel).toBeLessThanOrEqual(1);
+        }
+        decodeColor(space, encoded[0], encoded[1], encoded[2], decoded, 0);
+        expect(decoded[0]).toBeCloseTo(r, 3);
+        expect(decoded[1]).toBeCloseTo(g, 3);
+        expect(decoded[2]).toBeCloseTo(b, 3);
+      }
+    });
+  }
+});
+
+describe("rgbToLab", () => {
+  it("matches reference values", () => {
+    const lab = [0, 0, 0];
+    rgbToLab(1, 1, 1, lab);
+    expect(lab[0]).toBeCloseTo(100, 2);
+    expect(lab[1]).toBeCloseTo(0, 2);
+    rgbToLab(1, 0, 0, lab);
+    expect(lab[0]).toBeCloseTo(53.24, 1);
+    expect(lab[1]).toBeCloseTo(80.09, 1);
+    expect(lab[2]).toBeCloseTo(67.2, 1);
+  });
+});
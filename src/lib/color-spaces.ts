@@ -0,0 +1,218 @@
+// Conversions between sRGB (channels in [0, 1]) and other color spaces
+
+// sRGB (D65) to CIE XYZ, applied to linear RGB
+const RGB_TO_XYZ = [
+  [0.4124564, 0.3575761, 0.1804375],
+  [0.2126729, 0.7151522, 0.072175],
+  [0.0193339, 0.119192, 0.9503041],
+];
+// D65 reference white
+const WHITE = [0.95047, 1, 1.08883];
+// CIE constants for the cube-root's linear toe
+const LAB_EPSILON = 216 / 24389;
+const LAB_KAPPA = 24389 / 27;
+
+function srgbToLinear(c: number): number {
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+function srgbToLinearDerivative(c: number): number {
+  return c <= 0.04045 ? 1 / 12.92 : (2.4 / 1.055) * ((c + 0.055) / 1.055) ** 1.4;
+}
+
+function labF(t: number): number {
+  return t > LAB_EPSILON ? Math.cbrt(t) : (LAB_KAPPA * t + 16) / 116;
+}
+
+function labFDerivative(t: number): number {
+  return t > LAB_EPSILON ? 1 / (3 * Math.cbrt(t) ** 2) : LAB_KAPPA / 116;
+}
+
+// CIELAB of an sRGB color: L in [0, 100], a and b roughly [-128, 127].
+// With `jacobian` (9 entries), also writes d(L, a, b) / d(r, g, b), row-major
+// with one row per Lab component, for backpropagating through the conversion.
+export function rgbToLab(
+  r: number,
+  g: number,
+  b: number,
+  out: Float32Array | number[],
+  jacobian?: Float32Array | number[],
+) {
+  const rgb = [r, g, b];
+  const linear = rgb.map(srgbToLinear);
+  const f = [0, 0, 0];
+  for (let k = 0; k < 3; k++) {
+    const row = RGB_TO_XYZ[k];
+    const t =
+      (row[0] * linear[0] + row[1] * linear[1] + row[2] * linear[2]) /
+      WHITE[k];
+    f[k] = labF(t);
+
+    if (jacobian) {
+      // Reuse the slot for df_k / d(channel) until the rows are combined
+      const df = labFDerivative(t) / WHITE[k];
+      for (let c = 0; c < 3; c++) {
+        jacobian[k * 3 + c] = df * row[c] * srgbToLinearDerivative(rgb[c]);
+      }
+    }
+  }
+
+  out[0] = 116 * f[1] - 16;
+  out[1] = 500 * (f[0] - f[1]);
+  out[2] = 200 * (f[1] - f[2]);
+
+  if (jacobian) {
+    for (let c = 0; c < 3; c++) {
+      const dx = jacobian[c];
+      const dy = jacobian[3 + c];
+      const dz = jacobian[6 + c];
+      jacobian[c] = 116 * dy;
+      jacobian[3 + c] = 500 * (dx - dy);
+      jacobian[6 + c] = 200 * (dy - dz);
+    }
+  }
+}
+
+// CIE XYZ to linear sRGB (inverse of RGB_TO_XYZ)
+const XYZ_TO_RGB = [
+  [3.2404542, -1.5371385, -0.4985314],
+  [-0.969266, 1.8760108, 0.041556],
+  [0.0556434, -0.2040259, 1.0572252],
+];
+
+function linearToSrgb(c: number): number {
+  return c <= 0.0031308 ? 12.92 * c : 1.055 * c ** (1 / 2.4) - 0.055;
+}
+
+function labFInverse(f: number): number {
+  const cube = f * f * f;
+  return cube > LAB_EPSILON ? cube : (116 * f - 16) / LAB_KAPPA;
+}
+
+// sRGB of a CIELAB color, clamped to [0, 1] (not every Lab color has one)
+export function labToRgb(
+  l: number,
+  a: number,
+  b: number,
+  out: Float32Array | number[],
+) {
+  const fy = (l + 16) / 116;
+  const xyz = [
+    labFInverse(fy + a / 500) * WHITE[0],
+    labFInverse(fy) * WHITE[1],
+    labFInverse(fy - b / 200) * WHITE[2],
+  ];
+  for (let c = 0; c < 3; c++) {
+    const row = XYZ_TO_RGB[c];
+    const linear = row[0] * xyz[0] + row[1] * xyz[1] + row[2] * xyz[2];
+    out[c] = Math.min(1, Math.max(0, linearToSrgb(Math.max(0, linear))));
+  }
+}
+
+// Color space the network learns in. Its three outputs are the space's
+// channels scaled to [0, 1], converted back to sRGB for display.
+export type ColorSpace = "rgb" | "ycbcr" | "lab" | "hsv";
+
+export const COLOR_SPACE_LABELS: Record<ColorSpace, string> = {
+  rgb: "RGB",
+  ycbcr: "YCbCr (brightness + color difference)",
+  lab: "CIELAB (perceptual)",
+  hsv: "HSV (hue, saturation, value)",
+};
+
+const LAB_CHANNEL = [0, 0, 0];
+
+// sRGB in [0, 1] to the space's channels, scaled to [0, 1]: YCbCr is full
+// range BT.601 with the chroma centered on 0.5; Lab is L / 100 and
+// (a or b + 128) / 255; HSV has hue / 360 (so red sits at both ends)
+export function encodeColor(
+  space: ColorSpace,
+  r: number,
+  g: number,
+  b: number,
+  out: Float32Array,
+  offset: number,
+) {
+  switch (space) {
+    case "ycbcr": {
+      const y = 0.299 * r + 0.587 * g + 0.114 * b;
+      out[offset] = y;
+      out[offset + 1] = 0.5 + (b - y) * 0.564;
+      out[offset + 2] = 0.5 + (r - y) * 0.713;
+      return;
+    }
+
+    case "lab":
+      rgbToLab(r, g, b, LAB_CHANNEL);
+      out[offset] = LAB_CHANNEL[0] / 100;
+      out[offset + 1] = (LAB_CHANNEL[1] + 128) / 255;
+      out[offset + 2] = (LAB_CHANNEL[2] + 128) / 255;
+      return;
+
+    case "hsv": {
+      const max = Math.max(r, g, b);
+      const range = max - Math.min(r, g, b);
+      let hue = 0;
+      if (range > 0) {
+        if (max === r) hue = ((g - b) / range + 6) % 6;
+        else if (max === g) hue = (b - r) / range + 2;
+        else hue = (r - g) / range + 4;
+      }
+      out[offset] = hue / 6;
+      out[offset + 1] = max > 0 ? range / max : 0;
+      out[offset + 2] = max;
+      return;
+    }
+
+    default:
+      out[offset] = r;
+      out[offset + 1] = g;
+      out[offset + 2] = b;
+  }
+}
+
+// The space's scaled channels back to sRGB in [0, 1] (see encodeColor)
+export function decodeColor(
+  space: ColorSpace,
+  c0: number,
+  c1: number,
+  c2: number,
+  out: Float32Array,
+  offset: number,
+) {
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+  switch (space) {
+    case "ycbcr": {
+      const cb = c1 - 0.5;
+      const cr = c2 - 0.5;
+      out[offset] = clamp(c0 + 1.402 * cr);
+      out[offset + 1] = clamp(c0 - 0.344136 * cb - 0.714136 * cr);
+      out[offset + 2] = clamp(c0 + 1.772 * cb);
+      return;
+    }
+
+    case "lab":
+      labToRgb(c0 * 100, c1 * 255 - 128, c2 * 255 - 128, LAB_CHANNEL);
+      out[offset] = LAB_CHANNEL[0];
+      out[offset + 1] = LAB_CHANNEL[1];
+      out[offset + 2] = LAB_CHANNEL[2];
+      return;
+
+    case "hsv": {
+      // Each channel falls off from v as the hue moves away from it
+      const hue = c0 * 6;
+      for (const [c, n] of [5, 3, 1].entries()) {
+        const k = (((n + hue) % 6) + 6) % 6;
+        const ramp = Math.max(0, Math.min(k, 4 - k, 1));
+        out[offset + c] = clamp(c2 - c2 * c1 * ramp);
+      }
+      return;
+    }
+
+    default:
+      out[offset] = c0;
+      out[offset + 1] = c1;
+      out[offset + 2] = c2;
+  }
+}
@@ -0,0 +1,204 @@
+// Compute backends for the worker network
+// "js" runs the loops in matrix-kernels.ts. "wasm" runs the same kernels
+// compiled to WebAssembly SIMD128 (see wasm/kernels.wat) and is only used
+// when the browser can compile it - otherwise createComputeBackend falls
+// back to "js".
+
+import * as jsKernels from "./matrix-kernels";
+import { KERNELS_WASM_BASE64 } from "./wasm/kernels.wasm";
+
+export type BackendType = "js" | "wasm";
+
+export const BACKEND_LABELS: Record<BackendType, string> = {
+  js: "JavaScript",
+  wasm: "WebAssembly SIMD",
+};
+
+// Every Float32Array passed to a kernel must come from the same backend's
+// allocate(), since the WASM kernels address them by offset in its memory.
+export interface ComputeBackend {
+  type: BackendType;
+  // Fresh zeroed buffers of the given lengths. Invalidates every buffer
+  // returned by earlier calls, so callers copy out anything they need first.
+  allocate(lengths: number[]): Float32Array[];
+  denseForward: typeof jsKernels.denseForward;
+  denseBackward: typeof jsKernels.denseBackward;
+  accumulateGradients: typeof jsKernels.accumulateGradients;
+  sgdMomentum: typeof jsKernels.sgdMomentum;
+}
+
+interface KernelExports {
+  memory: WebAssembly.Memory;
+  denseForward(
+    out: number,
+    input: number,
+    weights: number,
+    biases: number,
+    batch: number,
+    inputSize: number,
+    outputSize: number,
+  ): void;
+  denseBackward(
+    inputDelta: number,
+    delta: number,
+    weights: number,
+    batch: number,
+    inputSize: number,
+    outputSize: number,
+  ): void;
+  accumulateGradients(
+    weightGrad: number,
+    biasGrad: number,
+    delta: number,
+    input: number,
+    batch: number,
+    inputSize: number,
+    outputSize: number,
+  ): void;
+  sgdMomentum(
+    params: number,
+    grads: number,
+    velocities: number,
+    count: number,
+    scale: number,
+    learningRate: number,
+    momentum: number,
+    weightDecay: number,
+  ): void;
+}
+
+const WASM_PAGE_SIZE = 65536;
+
+// Compiled once per worker; undefined until first requested, null if the
+// engine can't compile it (no WebAssembly or no SIMD support)
+let kernelModule: WebAssembly.Module | null | undefined;
+
+function getKernelModule(): WebAssembly.Module | null {
+  if (kernelModule !== undefined) return kernelModule;
+  kernelModule = null;
+  if (typeof WebAssembly === "undefined") return null;
+  try {
+    const binary = atob(KERNELS_WASM_BASE64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    if (WebAssembly.validate(bytes)) {
+      kernelModule = new WebAssembly.Module(bytes);
+    }
+  } catch {
+    kernelModule = null;
+  }
+  return kernelModule;
+}
+
+export function isWasmSupported(): boolean {
+  return getKernelModule() !== null;
+}
+
+function createJsBackend(): ComputeBackend {
+  return {
+    type: "js",
+    allocate: (lengths) => lengths.map((length) => new Float32Array(length)),
+    ...jsKernels,
+  };
+}
+
+function createWasmBackend(module: WebAssembly.Module): ComputeBackend {
+  const instance = new WebAssembly.Instance(module);
+  const kernels = instance.exports as unknown as KernelExports;
+  const memory = kernels.memory;
+  const f32 = Float32Array.BYTES_PER_ELEMENT;
+
+  return {
+    type: "wasm",
+
+    // Bump-allocate from the start of memory, 16-byte aligned for v128 loads
+    allocate(lengths) {
+      const offsets: number[] = [];
+      let end = 0;
+      for (const length of lengths) {
+        offsets.push(end);
+        end += Math.ceil((length * f32) / 16) * 16;
+      }
+      const missing = end - memory.buffer.byteLength;
+      if (missing > 0) {
+        memory.grow(Math.ceil(missing / WASM_PAGE_SIZE));
+      }
+      new Uint8Array(memory.buffer, 0, end).fill(0);
+      return lengths.map(
+        (length, i) => new Float32Array(memory.buffer, offsets[i], length),
+      );
+    },
+
+    denseForward(out, input, weights, biases, batch, inputSize, outputSize) {
+      kernels.denseForward(
+        out.byteOffset,
+        input.byteOffset,
+        weights.byteOffset,
+        biases.byteOffset,
+        batch,
+        inputSize,
+        outputSize,
+      );
+    },
+
+    denseBackward(inputDelta, delta, weights, batch, inputSize, outputSize) {
+      kernels.denseBackward(
+        inputDelta.byteOffset,
+        delta.byteOffset,
+        weights.byteOffset,
+        batch,
+        inputSize,
+        outputSize,
+      );
+    },
+
+    accumulateGradients(
+      weightGrad,
+      biasGrad,
+      delta,
+      input,
+      batch,
+      inputSize,
+      outputSize,
+    ) {
+      kernels.accumulateGradients(
+        weightGrad.byteOffset,
+        biasGrad.byteOffset,
+        delta.byteOffset,
+        input.byteOffset,
+        batch,
+        inputSize,
+        outputSize,
+      );
+    },
+
+    sgdMomentum(
+      params,
+      gradients,
+      velocities,
+      start,
+      count,
+      scale,
+      learningRate,
+      momentum,
+      weightDecay,
+    ) {
+      kernels.sgdMomentum(
+        params.byteOffset + start * f32,
+        gradients.byteOffset + start * f32,
+        velocities.byteOffset + start * f32,
+        count,
+        scale,
+        learningRate,
+        momentum,
+        weightDecay,
+      );
+    },
+  };
+}
+
+// Backend of the requested type, or the JS one if WASM isn't available
+export function createComputeBackend(type: BackendType): ComputeBackend {
+  const module = type === "wasm" ? getKernelModule() : null;
+  return module ? createWasmBackend(module) : createJsBackend();
+}
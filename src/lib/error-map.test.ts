@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import {
+  ERROR_MAP_CEILING,
+  errorMapImage,
+  heatColor,
+  heatmapImage,
+  pixelErrors,
+} from "./error-map";
+
+describe("pixelErrors", () => {
+  it("averages the squared channel error and ignores alpha", () => {
+    const target = Uint8ClampedArray.from([0, 0, 0, 255, 255, 255, 255, 255]);
+    const rendered = Uint8ClampedArray.from([255, 0, 0, 0, 255, 255, 255, 0]);
+    const errors = pixelErrors(rendered, target);
+    expect(errors[0]).toBeCloseTo(1 / 3, 6);
+    expect(errors[1]).toBe(0);
+  });
+});
+
+describe("heatmapImage", () => {
+  it("maps zero to the start of the ramp and the largest value to its end", () => {
+    const image = heatmapImage([0, 2]);
+    expect(Array.from(image.slice(0, 4))).toEqual([...heatColor(0), 255]);
+    expect(Array.from(image.slice(4, 8))).toEqual([...heatColor(1), 255]);
+  });
+});
+
+describe("errorMapImage", () => {
+  const target = Uint8ClampedArray.from([100, 100, 100, 255]);
+  const rendered = Uint8ClampedArray.from([164, 100, 84, 255]);
+
+  it("puts the channel's absolute error on the ramp, topping out at the ceiling", () => {
+    expect(Array.from(errorMapImage(rendered, target, "red"))).toEqual([
+      ...heatColor(1),
+      255,
+    ]);
+    expect(Array.from(errorMapImage(rendered, target, "green"))).toEqual([
+      ...heatColor(0),
+      255,
+    ]);
+    expect(Array.from(errorMapImage(rendered, target, "mean"))).toEqual([
+      ...heatColor((64 + 16) / 3 / ERROR_MAP_CEILING),
+      255,
+    ]);
+  });
+
+  it("shows each channel's error in that channel for the difference view", () => {
+    expect(Array.from(errorMapImage(rendered, target, "difference"))).toEqual([
+      255, 0, 64, 255,
+    ]);
+  });
+});
@@ -0,0 +1,115 @@
+// Per-pixel reconstruction error, and turning per-pixel values into a
+// heatmap image
+
+// Squared error per pixel, averaged over r, g, b in [0, 1]. Both buffers are
+// RGBA, the same size; alpha is ignored.
+export function pixelErrors(
+  rendered: Uint8ClampedArray,
+  target: Uint8ClampedArray,
+): Float32Array {
+  const errors = new Float32Array(target.length / 4);
+  for (let i = 0; i < errors.length; i++) {
+    let sum = 0;
+    for (let c = 0; c < 3; c++) {
+      const diff = (rendered[i * 4 + c] - target[i * 4 + c]) / 255;
+      sum += diff * diff;
+    }
+    errors[i] = sum / 3;
+  }
+  return errors;
+}
+
+// Color ramp from black (0) through purple, red and orange to pale yellow (1)
+const HEAT_STOPS: [number, number, number][] = [
+  [0, 0, 4],
+  [87, 16, 110],
+  [188, 55, 84],
+  [249, 142, 9],
+  [252, 255, 164],
+];
+
+// Ramp color for t in [0, 1] (clamped)
+export function heatColor(t: number): [number, number, number] {
+  const position = Math.min(1, Math.max(0, t)) * (HEAT_STOPS.length - 1);
+  const index = Math.min(HEAT_STOPS.length - 2, Math.floor(position));
+  const f = position - index;
+  const from = HEAT_STOPS[index];
+  const to = HEAT_STOPS[index + 1];
+  return [
+    Math.round(from[0] + (to[0] - from[0]) * f),
+    Math.round(from[1] + (to[1] - from[1]) * f),
+    Math.round(from[2] + (to[2] - from[2]) * f),
+  ];
+}
+
+// Opaque RGBA image of `values`, scaled so the largest is 1. The square root
+// keeps the middle of a heavy-tailed distribution visible next to its peaks.
+export function heatmapImage(values: ArrayLike<number>): Uint8ClampedArray {
+  let max = 0;
+  for (let i = 0; i < values.length; i++) max = Math.max(max, values[i]);
+
+  const image = new Uint8ClampedArray(values.length * 4);
+  for (let i = 0; i < values.length; i++) {
+    const [r, g, b] = heatColor(max > 0 ? Math.sqrt(values[i] / max) : 0);
+    image[i * 4] = r;
+    image[i * 4 + 1] = g;
+    image[i * 4 + 2] = b;
+    image[i * 4 + 3] = 255;
+  }
+  return image;
+}
+
+// Ways to look at how a render differs from the target: the heat ramp over
+// the mean or a single channel's error, or the raw per-channel difference
+export type ErrorView = "mean" | "red" | "green" | "blue" | "difference";
+
+export const ERROR_VIEW_LABELS: Record<ErrorView, string> = {
+  mean: "Error (mean of channels)",
+  red: "Error (red)",
+  green: "Error (green)",
+  blue: "Error (blue)",
+  difference: "Difference (per channel)",
+};
+
+// Absolute error (out of 255) at the top of the ramp. Fixed rather than
+// scaled to each frame, so colors mean the same thing as training goes on.
+export const ERROR_MAP_CEILING = 64;
+
+// Opaque RGBA image of |rendered - target|. Heat views put 0 at the bottom
+// of the ramp and ERROR_MAP_CEILING or more at the top; the difference view
+// shows each channel's error in that channel, brightened by the same scale.
+export function errorMapImage(
+  rendered: Uint8ClampedArray,
+  target: Uint8ClampedArray,
+  view: ErrorView,
+): Uint8ClampedArray<ArrayBuffer> {
+  const image = new Uint8ClampedArray(target.length);
+  const gain = 255 / ERROR_MAP_CEILING;
+  for (let i = 0; i < target.length; i += 4) {
+    const dr = Math.abs(rendered[i] - target[i]);
+    const dg = Math.abs(rendered[i + 1] - target[i + 1]);
+    const db = Math.abs(rendered[i + 2] - target[i + 2]);
+    image[i + 3] = 255;
+
+    if (view === "difference") {
+      image[i] = dr * gain;
+      image[i + 1] = dg * gain;
+      image[i + 2] = db * gain;
+      continue;
+    }
+
+    const error =
+      view === "red"
+        ? dr
+        : view === "green"
+          ? dg
+          : view === "blue"
+            ? db
+            : (dr + dg + db) / 3;
+    const [r, g, b] = heatColor(error / ERROR_MAP_CEILING);
+    image[i] = r;
+    image[i + 1] = g;
+    image[i + 2] = b;
+  }
+  return image;
+}
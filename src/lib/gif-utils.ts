@@ -5,14 +5,19 @@ export interface GifMemoryEstimate {
   megabytes: number
 }
 
+// `inBetweenFrames` are the interpolated frames added between each pair of
+// consecutive snapshots
 export function calculateGifMemory(
   width: number,
   height: number,
   frameCount: number,
+  inBetweenFrames = 0,
 ): GifMemoryEstimate {
   const bytesPerFrame = width * height * 4 // RGBA
+  const forwardFrames =
+    frameCount + Math.max(0, frameCount - 1) * inBetweenFrames
   // Formula: forward frames + reverse frames + original frame
-  const totalFrames = frameCount * 2 + 1
+  const totalFrames = forwardFrames * 2 + 1
   const totalBytes = totalFrames * bytesPerFrame
 
   return {
@@ -37,3 +42,24 @@ export function morphFrames(
 
   return result
 }
+
+// Nearest-neighbour enlargement, so small frames stay crisp in a GIF viewer
+export function upscaleFrame(
+  frame: Uint8ClampedArray,
+  width: number,
+  height: number,
+  factor: number,
+): Uint8ClampedArray {
+  const scaledWidth = width * factor
+  const result = new Uint8ClampedArray(frame.length * factor * factor)
+
+  for (let y = 0; y < height * factor; y++) {
+    const sourceRow = Math.floor(y / factor) * width
+    for (let x = 0; x < scaledWidth; x++) {
+      const source = (sourceRow + Math.floor(x / factor)) * 4
+      result.set(frame.subarray(source, source + 4), (y * scaledWidth + x) * 4)
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { layoutImage, pixelToCoordinate } from "./image-layout";
+
+describe("layoutImage", () => {
+  it("keeps the photo's proportions with the long side at the size", () => {
+    expect(layoutImage(4000, 3000, 128, "native")).toMatchObject({
+      width: 128,
+      height: 96,
+    });
+    expect(layoutImage(3000, 4000, 128, "native")).toMatchObject({
+      width: 96,
+      height: 128,
+    });
+  });
+
+  it("crops or letterboxes into a centered square", () => {
+    expect(layoutImage(400, 200, 100, "crop")).toEqual({
+      width: 100,
+      height: 100,
+      drawX: -50,
+      drawY: 0,
+      drawWidth: 200,
+      drawHeight: 100,
+    });
+    expect(layoutImage(400, 200, 100, "letterbox")).toEqual({
+      width: 100,
+      height: 100,
+      drawX: 0,
+      drawY: 25,
+      drawWidth: 100,
+      drawHeight: 50,
+    });
+  });
+});
+
+describe("pixelToCoordinate", () => {
+  it("spans [-1, 1] on the long side and keeps pixels square", () => {
+    // 8 x 4 image: x covers [-1, 1), y the middle half
+    expect(pixelToCoordinate(0, 8, 8)).toBe(-1);
+    expect(pixelToCoordinate(8, 8, 8)).toBe(1);
+    expect(pixelToCoordinate(0, 4, 8)).toBe(-0.5);
+    expect(pixelToCoordinate(4, 4, 8)).toBe(0.5);
+    const step = pixelToCoordinate(1, 8, 8) - pixelToCoordinate(0, 8, 8);
+    expect(pixelToCoordinate(1, 4, 8) - pixelToCoordinate(0, 4, 8)).toBe(step);
+  });
+});
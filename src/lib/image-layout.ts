@@ -0,0 +1,112 @@
+// How source photos become training images, and how training-image pixels
+// become network coordinates
+
+// How a photo is fitted into the training image
+export type AspectMode = "native" | "crop" | "letterbox" | "stretch";
+
+export const ASPECT_MODE_LABELS: Record<AspectMode, string> = {
+  native: "Native aspect (long side = size)",
+  crop: "Center crop (square)",
+  letterbox: "Fit with letterbox (square)",
+  stretch: "Stretch to square",
+};
+
+// Part of the source photo to train on, as fractions of its width and height
+export interface CropRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Source rectangle in photo pixels (drawImage's sx, sy, sw, sh)
+export function cropRect(
+  sourceWidth: number,
+  sourceHeight: number,
+  crop: CropRegion | null,
+): { x: number; y: number; width: number; height: number } {
+  if (!crop) return { x: 0, y: 0, width: sourceWidth, height: sourceHeight };
+  return {
+    x: crop.x * sourceWidth,
+    y: crop.y * sourceHeight,
+    width: Math.max(1, crop.width * sourceWidth),
+    height: Math.max(1, crop.height * sourceHeight),
+  };
+}
+
+// Training image size, plus where the photo is drawn in it (drawImage args).
+// The draw rectangle can overhang the image (crop) or leave bars (letterbox).
+export interface ImageLayout {
+  width: number;
+  height: number;
+  drawX: number;
+  drawY: number;
+  drawWidth: number;
+  drawHeight: number;
+}
+
+export function layoutImage(
+  sourceWidth: number,
+  sourceHeight: number,
+  size: number,
+  mode: AspectMode,
+): ImageLayout {
+  const aspect = sourceWidth / sourceHeight;
+
+  switch (mode) {
+    case "native": {
+      const shortSide = (ratio: number) => Math.max(1, Math.round(size * ratio));
+      const width = aspect >= 1 ? size : shortSide(aspect);
+      const height = aspect >= 1 ? shortSide(1 / aspect) : size;
+      return {
+        width,
+        height,
+        drawX: 0,
+        drawY: 0,
+        drawWidth: width,
+        drawHeight: height,
+      };
+    }
+
+    case "crop":
+    case "letterbox": {
+      // Cover the square (crop) or fit inside it (letterbox), centered
+      const scale =
+        mode === "crop"
+          ? size / Math.min(sourceWidth, sourceHeight)
+          : size / Math.max(sourceWidth, sourceHeight);
+      const drawWidth = sourceWidth * scale;
+      const drawHeight = sourceHeight * scale;
+      return {
+        width: size,
+        height: size,
+        drawX: (size - drawWidth) / 2,
+        drawY: (size - drawHeight) / 2,
+        drawWidth,
+        drawHeight,
+      };
+    }
+
+    default:
+      return {
+        width: size,
+        height: size,
+        drawX: 0,
+        drawY: 0,
+        drawWidth: size,
+        drawHeight: size,
+      };
+  }
+}
+
+// Network input for the pixel at `position` along an axis of `size` pixels.
+// Both axes are scaled by the image's long side, so the long side spans
+// [-1, 1], the short side a centered part of it, and pixels stay square in
+// coordinate space. For square images this is position / size * 2 - 1.
+export function pixelToCoordinate(
+  position: number,
+  size: number,
+  longSide: number,
+): number {
+  return (position * 2 - size) / longSide;
+}
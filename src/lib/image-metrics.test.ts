@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { MAX_PSNR, measureImage } from "./image-metrics";
+import { createRandom } from "./random";
+
+// width x height RGBA image from a per-pixel gray level
+function grayImage(
+  width: number,
+  height: number,
+  level: (x: number, y: number) => number,
+): Uint8ClampedArray {
+  const image = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      image.fill(level(x, y), i, i + 3);
+      image[i + 3] = 255;
+    }
+  }
+  return image;
+}
+
+describe("measureImage", () => {
+  const target = grayImage(16, 12, (x, y) => (x * 13 + y * 7) % 256);
+
+  it("scores an exact match as perfect", () => {
+    expect(measureImage(target, target, 16, 12)).toEqual({
+      mse: 0,
+      psnr: MAX_PSNR,
+      ssim: 1,
+    });
+  });
+
+  it("reports MSE on the training loss's scale and PSNR in dB", () => {
+    const brighter = grayImage(16, 12, () => 51);
+    const black = grayImage(16, 12, () => 0);
+    const { mse, psnr } = measureImage(brighter, black, 16, 12);
+    expect(mse).toBeCloseTo(0.04, 6);
+    expect(psnr).toBeCloseTo(13.979, 3);
+  });
+
+  it("rates mild noise as more similar than lost structure", () => {
+    const random = createRandom(3);
+    const noisy = target.map((v, i) =>
+      i % 4 === 3 ? v : v + (random() - 0.5) * 20,
+    );
+    const flat = grayImage(16, 12, () => 128);
+    const noisySsim = measureImage(noisy, target, 16, 12).ssim;
+    expect(noisySsim).toBeLessThan(1);
+    expect(noisySsim).toBeGreaterThan(measureImage(flat, target, 16, 12).ssim);
+  });
+});
@@ -0,0 +1,126 @@
+// Full-image quality metrics: how close a render is to the training image.
+// Unlike the training loss, which is the error on the latest mini-batch,
+// these look at every pixel of the rendered output.
+
+export interface ImageMetrics {
+  // Mean squared error over r, g, b in [0, 1] (the training loss's scale)
+  mse: number;
+  // Peak signal-to-noise ratio in dB (higher is better)
+  psnr: number;
+  // Structural similarity, averaged over r, g, b (1 = identical)
+  ssim: number;
+}
+
+// PSNR of an exact match (really infinite), so charts stay finite
+export const MAX_PSNR = 100;
+
+// SSIM over 7 x 7 windows with the usual stabilizing constants for 8-bit data
+const SSIM_WINDOW = 7;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+// Both buffers are RGBA, the same size; alpha is ignored
+export function meanSquaredError(
+  rendered: Uint8ClampedArray,
+  target: Uint8ClampedArray,
+): number {
+  let sum = 0;
+  for (let i = 0; i < target.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const diff = (rendered[i + c] - target[i + c]) / 255;
+      sum += diff * diff;
+    }
+  }
+  return sum / ((target.length / 4) * 3);
+}
+
+export function peakSignalToNoise(mse: number): number {
+  return mse > 0 ? Math.min(MAX_PSNR, -10 * Math.log10(mse)) : MAX_PSNR;
+}
+
+// Mean SSIM of one channel over every window position, using summed-area
+// tables so each window costs the same regardless of its size
+function channelSsim(
+  rendered: Uint8ClampedArray,
+  target: Uint8ClampedArray,
+  width: number,
+  height: number,
+  channel: number,
+): number {
+  const stride = width + 1;
+  const size = stride * (height + 1);
+  const sumA = new Float64Array(size);
+  const sumB = new Float64Array(size);
+  const sumAA = new Float64Array(size);
+  const sumBB = new Float64Array(size);
+  const sumAB = new Float64Array(size);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const a = rendered[(y * width + x) * 4 + channel];
+      const b = target[(y * width + x) * 4 + channel];
+      const i = (y + 1) * stride + x + 1;
+      const up = i - stride;
+      sumA[i] = a + sumA[i - 1] + sumA[up] - sumA[up - 1];
+      sumB[i] = b + sumB[i - 1] + sumB[up] - sumB[up - 1];
+      sumAA[i] = a * a + sumAA[i - 1] + sumAA[up] - sumAA[up - 1];
+      sumBB[i] = b * b + sumBB[i - 1] + sumBB[up] - sumBB[up - 1];
+      sumAB[i] = a * b + sumAB[i - 1] + sumAB[up] - sumAB[up - 1];
+    }
+  }
+
+  const window = Math.min(SSIM_WINDOW, width, height);
+  const n = window * window;
+  let total = 0;
+  let count = 0;
+  for (let top = 0; top + window <= height; top++) {
+    for (let left = 0; left + window <= width; left++) {
+      const topLeft = top * stride + left;
+      const topRight = topLeft + window;
+      const bottomLeft = topLeft + window * stride;
+      const bottomRight = bottomLeft + window;
+      const box = (sum: Float64Array) =>
+        (sum[bottomRight] - sum[topRight] - sum[bottomLeft] + sum[topLeft]) /
+        n;
+
+      const meanA = box(sumA);
+      const meanB = box(sumB);
+      const varianceA = box(sumAA) - meanA * meanA;
+      const varianceB = box(sumBB) - meanB * meanB;
+      const covariance = box(sumAB) - meanA * meanB;
+      total +=
+        ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+        ((meanA * meanA + meanB * meanB + SSIM_C1) *
+          (varianceA + varianceB + SSIM_C2));
+      count++;
+    }
+  }
+  return total / count;
+}
+
+export function structuralSimilarity(
+  rendered: Uint8ClampedArray,
+  target: Uint8ClampedArray,
+  width: number,
+  height: number,
+): number {
+  let total = 0;
+  for (let c = 0; c < 3; c++) {
+    total += channelSsim(rendered, target, width, height, c);
+  }
+  return total / 3;
+}
+
+export function measureImage(
+  rendered: Uint8ClampedArray,
+  target: Uint8ClampedArray,
+  width: number,
+  height: number,
+): ImageMetrics {
+  const mse = meanSquaredError(rendered, target);
+  return {
+    mse,
+    psnr: peakSignalToNoise(mse),
+    ssim: structuralSimilarity(rendered, target, width, height),
+  };
+}
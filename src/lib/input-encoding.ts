@@ -0,0 +1,128 @@
+// Input encodings for the coordinate network
+// A plain MLP fed raw (x, y) is biased towards low frequencies, so it takes a
+// very long time to paint fine detail. Lifting the coordinates into a set of
+// sinusoids first lets the first layer see high frequencies directly.
+
+import type { Random } from "./random";
+
+export type InputEncodingType = "raw" | "fourier" | "positional";
+
+export interface InputEncodingConfig {
+  type: InputEncodingType;
+  // Random Fourier features: number of frequencies and the std-dev they're drawn with
+  fourierFeatures: number;
+  fourierScale: number;
+  // NeRF-style positional encoding: number of octaves per coordinate
+  octaves: number;
+}
+
+export interface InputEncoder {
+  config: InputEncodingConfig;
+  outputSize: number;
+  // Fourier frequency matrix (fourierFeatures x 2, row-major), null for other encodings
+  frequencies: Float64Array | null;
+  // Writes outputSize features into out, starting at offset
+  encode(
+    inputX: number,
+    inputY: number,
+    out: Float32Array,
+    offset: number,
+  ): void;
+}
+
+export const DEFAULT_INPUT_ENCODING: InputEncodingConfig = {
+  type: "raw",
+  fourierFeatures: 32,
+  fourierScale: 3,
+  octaves: 6,
+};
+
+// Number of network inputs produced by an encoding
+export function getEncodedInputSize(config: InputEncodingConfig): number {
+  switch (config.type) {
+    case "fourier":
+      return config.fourierFeatures * 2;
+    case "positional":
+      return 2 + config.octaves * 4;
+    default:
+      return 2;
+  }
+}
+
+// Standard normal sample via Box-Muller
+function gaussian(random: Random): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function sampleFrequencies(
+  config: InputEncodingConfig,
+  random: Random,
+): Float64Array {
+  const frequencies = new Float64Array(config.fourierFeatures * 2);
+  for (let i = 0; i < frequencies.length; i++) {
+    frequencies[i] = gaussian(random) * config.fourierScale;
+  }
+  return frequencies;
+}
+
+// Fourier encodings draw their frequencies from `random`, unless the
+// frequencies of an existing encoder are passed in
+export function createInputEncoder(
+  config: InputEncodingConfig,
+  random: Random,
+  frequencies?: Float64Array,
+): InputEncoder {
+  const outputSize = getEncodedInputSize(config);
+
+  if (config.type === "fourier") {
+    // gamma(v) = [sin(2pi Bv), cos(2pi Bv)], B ~ N(0, scale^2)
+    const B = frequencies ?? sampleFrequencies(config, random);
+    const count = config.fourierFeatures;
+    return {
+      config,
+      outputSize,
+      frequencies: B,
+      encode(inputX, inputY, out, offset) {
+        for (let i = 0; i < count; i++) {
+          const angle = 2 * Math.PI * (B[i * 2] * inputX + B[i * 2 + 1] * inputY);
+          out[offset + i] = Math.sin(angle);
+          out[offset + count + i] = Math.cos(angle);
+        }
+      },
+    };
+  }
+
+  if (config.type === "positional") {
+    // gamma(p) = [p, sin(2^k pi p), cos(2^k pi p)] for k = 0..octaves-1
+    const octaves = config.octaves;
+    return {
+      config,
+      outputSize,
+      frequencies: null,
+      encode(inputX, inputY, out, offset) {
+        out[offset] = inputX;
+        out[offset + 1] = inputY;
+        let i = offset + 2;
+        for (let k = 0; k < octaves; k++) {
+          const freq = 2 ** k * Math.PI;
+          out[i++] = Math.sin(freq * inputX);
+          out[i++] = Math.cos(freq * inputX);
+          out[i++] = Math.sin(freq * inputY);
+          out[i++] = Math.cos(freq * inputY);
+        }
+      },
+    };
+  }
+
+  return {
+    config,
+    outputSize,
+    frequencies: null,
+    encode(inputX, inputY, out, offset) {
+      out[offset] = inputX;
+      out[offset + 1] = inputY;
+    },
+  };
+}
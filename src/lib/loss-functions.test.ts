@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeLoss,
+  type LossConfig,
+  type LossType,
+  lossForColorSpace,
+} from "./loss-functions";
+
+// The loss each delta is the negative gradient of: MSE and Lab report the
+// squared error but step along half of it
+const GRADIENT_SCALE: Record<LossType, number> = {
+  mse: 0.5,
+  l1: 1,
+  huber: 1,
+  lab: 0.5,
+};
+
+describe("computeLoss", () => {
+  const output = Float32Array.from([0.2, 0.55, 0.9, 0.7, 0.1, 0.45]);
+  const targets = Float32Array.from([0.5, 0.5, 0.5, 0.3, 0.6, 0.4]);
+
+  for (const type of Object.keys(GRADIENT_SCALE) as LossType[]) {
+    it(`gives ${type} deltas that match its numerical gradient`, () => {
+      const loss: LossConfig = { type, huberDelta: 0.1 };
+      const delta = new Float32Array(6);
+      const unused = new Float32Array(6);
+      computeLoss(loss, output, targets, 0, delta, 2);
+
+      const h = 1e-3;
+      for (let i = 0; i < output.length; i++) {
+        const plus = Float32Array.from(output);
+        const minus = Float32Array.from(output);
+        plus[i] += h;
+        minus[i] -= h;
+        const slope =
+          (computeLoss(loss, plus, targets, 0, unused, 2) -
+            computeLoss(loss, minus, targets, 0, unused, 2)) /
+          (2 * h);
+        expect(delta[i]).toBeCloseTo(-GRADIENT_SCALE[type] * slope, 2);
+      }
+    });
+  }
+
+  it("is quadratic below the Huber delta and linear above it", () => {
+    const loss: LossConfig = { type: "huber", huberDelta: 0.1 };
+    const delta = new Float32Array(3);
+    const total = computeLoss(
+      loss,
+      Float32Array.from([0.5, 0.5, 0.5]),
+      Float32Array.from([0.55, 0.9, 0.5]),
+      0,
+      delta,
+      1,
+    );
+    expect(total).toBeCloseTo(0.5 * 0.05 ** 2 + 0.1 * (0.4 - 0.05), 6);
+    expect(delta[0]).toBeCloseTo(0.05, 6);
+    expect(delta[1]).toBeCloseTo(0.1, 6);
+  });
+});
+
+describe("lossForColorSpace", () => {
+  it("trains non-RGB networks with MSE in place of the Lab loss", () => {
+    const lab: LossConfig = { type: "lab", huberDelta: 0.2 };
+    expect(lossForColorSpace(lab, "rgb")).toBe(lab);
+    expect(lossForColorSpace(lab, "ycbcr")).toEqual({
+      type: "mse",
+      huberDelta: 0.2,
+    });
+    const huber: LossConfig = { type: "huber", huberDelta: 0.2 };
+    expect(lossForColorSpace(huber, "hsv")).toBe(huber);
+  });
+});
@@ -0,0 +1,132 @@
+// Training losses shared by the UI and the workers. Each compares the
+// network's (r, g, b) output with the target color and gives the output
+// layer's delta: minus the loss's gradient with respect to each channel.
+
+import { type ColorSpace, rgbToLab } from "./color-spaces";
+
+export type LossType = "mse" | "l1" | "huber" | "lab";
+
+export interface LossConfig {
+  type: LossType;
+  // Huber: error (in [0, 1] color units) where the loss turns from
+  // quadratic to linear
+  huberDelta: number;
+}
+
+export const DEFAULT_LOSS: LossConfig = {
+  type: "mse",
+  huberDelta: 0.1,
+};
+
+export const LOSS_LABELS: Record<LossType, string> = {
+  mse: "MSE (squared error)",
+  l1: "L1 (absolute error)",
+  huber: "Huber (squared, then absolute)",
+  lab: "Perceptual MSE (CIELAB)",
+};
+
+// Short name for charts and stats, e.g. "Huber δ=0.1"
+export function describeLoss(loss: LossConfig): string {
+  switch (loss.type) {
+    case "l1":
+      return "L1";
+    case "huber":
+      return `Huber δ=${loss.huberDelta}`;
+    case "lab":
+      return "Lab MSE";
+    default:
+      return "MSE";
+  }
+}
+
+// The loss a network in `colorSpace` trains with. The CIELAB loss converts
+// from RGB outputs, so networks in other spaces fall back to plain MSE.
+export function lossForColorSpace(
+  loss: LossConfig,
+  colorSpace: ColorSpace,
+): LossConfig {
+  return loss.type === "lab" && colorSpace !== "rgb"
+    ? { ...loss, type: "mse" }
+    : loss;
+}
+
+// Lab differences are divided by this, so L's 0-100 range lines up with the
+// [0, 1] RGB channels and the loss stays on a familiar scale
+const LAB_SCALE = 100;
+
+// Loss for `count` samples of (r, g, b): outputs start at 0, targets at
+// targetOffset * 3. Writes each channel's delta to `delta` and returns the
+// loss summed over samples and channels (average per channel = sum / 3).
+//
+// MSE is the error squared, with the gradient of half of it (as before);
+// L1 is |error| with the sign as its gradient; Huber is error^2 / 2 up to
+// delta and linear beyond, so its gradient is clipped at delta; Lab is the
+// squared difference of the two colors in CIELAB, backpropagated through the
+// conversion.
+export function computeLoss(
+  loss: LossConfig,
+  output: Float32Array,
+  targets: Float32Array,
+  targetOffset: number,
+  delta: Float32Array,
+  count: number,
+): number {
+  const offset = targetOffset * 3;
+  let total = 0;
+
+  switch (loss.type) {
+    case "l1":
+      for (let i = 0; i < count * 3; i++) {
+        const error = targets[offset + i] - output[i];
+        delta[i] = Math.sign(error);
+        total += Math.abs(error);
+      }
+      return total;
+
+    case "huber": {
+      const limit = loss.huberDelta;
+      for (let i = 0; i < count * 3; i++) {
+        const error = targets[offset + i] - output[i];
+        const size = Math.abs(error);
+        if (size <= limit) {
+          delta[i] = error;
+          total += 0.5 * error * error;
+        } else {
+          delta[i] = limit * Math.sign(error);
+          total += limit * (size - 0.5 * limit);
+        }
+      }
+      return total;
+    }
+
+    case "lab": {
+      const predicted = new Float32Array(3);
+      const expected = new Float32Array(3);
+      const jacobian = new Float32Array(9);
+      for (let b = 0; b < count; b++) {
+        const o = b * 3;
+        const t = offset + o;
+        rgbToLab(output[o], output[o + 1], output[o + 2], predicted, jacobian);
+        rgbToLab(targets[t], targets[t + 1], targets[t + 2], expected);
+        // Gradient of half the squared Lab distance, chained back to RGB
+        for (let c = 0; c < 3; c++) delta[o + c] = 0;
+        for (let k = 0; k < 3; k++) {
+          const error = (expected[k] - predicted[k]) / LAB_SCALE;
+          total += error * error;
+          for (let c = 0; c < 3; c++) {
+            delta[o + c] += (error * jacobian[k * 3 + c]) / LAB_SCALE;
+          }
+        }
+      }
+      return total;
+    }
+
+    default:
+      for (let i = 0; i < count * 3; i++) {
+        const error = targets[offset + i] - output[i];
+        delta[i] = error;
+        total += error * error;
+      }
+      return total;
+  }
+}
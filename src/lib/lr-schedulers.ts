@@ -0,0 +1,224 @@
+// Learning-rate schedules for the worker's training loop
+// Every schedule except "plateau" is a closed-form function of the iteration,
+// so the UI can preview the curve before training starts.
+
+export type SchedulerType =
+  | "plateau"
+  | "cosine"
+  | "cosineRestarts"
+  | "step"
+  | "exponential"
+  | "oneCycle";
+
+export interface SchedulerConfig {
+  type: SchedulerType;
+  // Warm restarts: length of the first cycle and how much each cycle grows
+  restartPeriod: number;
+  restartMultiplier: number;
+  // Step / exponential decay: multiply by gamma every stepSize iterations
+  stepSize: number;
+  gamma: number;
+  // One-cycle: fraction of the run spent warming up to the peak
+  warmupFraction: number;
+}
+
+export interface SchedulerOptions {
+  // Starting (or peak, for one-cycle) learning rate
+  baseLearningRate: number;
+  // Schedules never go below this
+  minLearningRate: number;
+  // Length of the run, used by cosine and one-cycle
+  totalIterations: number;
+}
+
+// Where a running schedule is, for checkpoints
+export interface SchedulerState {
+  learningRate: number;
+  baseLearningRate: number;
+  totalIterations: number;
+  lossHistory: number[];
+}
+
+export const DEFAULT_MIN_LEARNING_RATE = 0.0001;
+
+export const DEFAULT_SCHEDULER: SchedulerConfig = {
+  type: "plateau",
+  restartPeriod: 10_000,
+  restartMultiplier: 2,
+  stepSize: 10_000,
+  gamma: 0.5,
+  warmupFraction: 0.3,
+};
+
+export const SCHEDULER_LABELS: Record<SchedulerType, string> = {
+  plateau: "Decay on plateau",
+  cosine: "Cosine annealing",
+  cosineRestarts: "Cosine with warm restarts",
+  step: "Step decay",
+  exponential: "Exponential decay",
+  oneCycle: "One-cycle",
+};
+
+// Plateau detection (the original adaptive policy)
+const LOSS_HISTORY_SIZE = 100; // Number of loss samples to track
+const DECAY_THRESHOLD = 0.001; // If relative improvement is less than this, decay LR
+const DECAY_FACTOR = 0.95; // Multiply LR by this when plateauing
+
+// Half a cosine wave from `high` down to `low` as progress goes 0 -> 1
+function cosineBetween(high: number, low: number, progress: number): number {
+  return low + ((high - low) * (1 + Math.cos(Math.PI * progress))) / 2;
+}
+
+// Learning rate of a closed-form schedule after `iteration` iterations.
+// Plateau depends on the loss, so it just reports the base rate.
+export function learningRateAt(
+  config: SchedulerConfig,
+  options: SchedulerOptions,
+  iteration: number,
+): number {
+  const base = options.baseLearningRate;
+  const floor = Math.min(options.minLearningRate, base);
+  const total = Math.max(1, options.totalIterations);
+
+  switch (config.type) {
+    case "cosine":
+      return cosineBetween(base, floor, Math.min(iteration, total) / total);
+
+    case "cosineRestarts": {
+      // SGDR: restart at the base rate, each cycle `restartMultiplier` longer
+      let cycleLength = Math.max(1, config.restartPeriod);
+      let position = iteration;
+      while (position >= cycleLength) {
+        position -= cycleLength;
+        cycleLength *= Math.max(1, config.restartMultiplier);
+      }
+      return cosineBetween(base, floor, position / cycleLength);
+    }
+
+    case "step":
+      return Math.max(
+        floor,
+        base * config.gamma ** Math.floor(iteration / config.stepSize),
+      );
+
+    case "exponential":
+      return Math.max(floor, base * config.gamma ** (iteration / config.stepSize));
+
+    case "oneCycle": {
+      // Warm up from base/25 to base, then anneal down to the floor
+      const warmup = Math.max(1, total * config.warmupFraction);
+      if (iteration < warmup) {
+        return cosineBetween(base, base / 25, 1 - iteration / warmup);
+      }
+      const progress = Math.min(1, (iteration - warmup) / (total - warmup || 1));
+      return cosineBetween(base, floor, progress);
+    }
+
+    default:
+      return base;
+  }
+}
+
+// Sampled curve for the learning-rate chart
+export function previewSchedule(
+  config: SchedulerConfig,
+  options: SchedulerOptions,
+  points = 100,
+): { iteration: number; scheduled: number }[] {
+  const preview: { iteration: number; scheduled: number }[] = [];
+  for (let i = 0; i <= points; i++) {
+    const iteration = Math.round((i / points) * options.totalIterations);
+    preview.push({
+      iteration,
+      scheduled: learningRateAt(config, options, iteration),
+    });
+  }
+  return preview;
+}
+
+export class LearningRateScheduler {
+  private config: SchedulerConfig;
+  private options: SchedulerOptions;
+  private learningRate: number;
+  private lossHistory: number[] = []; // Track recent losses (plateau only)
+
+  // startIteration lets a schedule be swapped in part-way through a run
+  constructor(
+    config: SchedulerConfig,
+    options: SchedulerOptions,
+    startIteration = 0,
+  ) {
+    this.config = config;
+    this.options = { ...options };
+    this.learningRate = learningRateAt(config, this.options, startIteration);
+  }
+
+  // Learning rate to train with right now
+  current(): number {
+    return this.learningRate;
+  }
+
+  // Advance the schedule after training up to `iteration` with average `loss`
+  update(iteration: number, loss: number): number {
+    if (this.config.type !== "plateau") {
+      this.learningRate = learningRateAt(this.config, this.options, iteration);
+      return this.learningRate;
+    }
+
+    this.lossHistory.push(loss);
+    if (this.lossHistory.length > LOSS_HISTORY_SIZE) {
+      this.lossHistory.shift();
+    }
+
+    // Check if we should decay learning rate (every LOSS_HISTORY_SIZE updates)
+    if (
+      this.lossHistory.length === LOSS_HISTORY_SIZE &&
+      this.learningRate > this.options.minLearningRate
+    ) {
+      const oldLoss = this.lossHistory[0];
+      const newLoss = this.lossHistory[LOSS_HISTORY_SIZE - 1];
+      const relativeImprovement = (oldLoss - newLoss) / oldLoss;
+
+      // If improvement is below threshold, decay learning rate
+      if (relativeImprovement < DECAY_THRESHOLD) {
+        this.learningRate = Math.max(
+          this.options.minLearningRate,
+          this.learningRate * DECAY_FACTOR,
+        );
+        // Clear history to give new LR time to work
+        this.lossHistory = [];
+      }
+    }
+
+    return this.learningRate;
+  }
+
+  setBaseLearningRate(learningRate: number, iteration: number) {
+    this.options.baseLearningRate = learningRate;
+    this.lossHistory = [];
+    this.learningRate =
+      this.config.type === "plateau"
+        ? learningRate
+        : learningRateAt(this.config, this.options, iteration);
+  }
+
+  setTotalIterations(totalIterations: number) {
+    this.options.totalIterations = totalIterations;
+  }
+
+  getState(): SchedulerState {
+    return {
+      learningRate: this.learningRate,
+      baseLearningRate: this.options.baseLearningRate,
+      totalIterations: this.options.totalIterations,
+      lossHistory: [...this.lossHistory],
+    };
+  }
+
+  restoreState(state: SchedulerState) {
+    this.learningRate = state.learningRate;
+    this.options.baseLearningRate = state.baseLearningRate;
+    this.options.totalIterations = state.totalIterations;
+    this.lossHistory = [...state.lossHistory];
+  }
+}
@@ -0,0 +1,102 @@
+// Batched dense-layer kernels for the worker network
+// Matrices are row-major Float32Arrays. A batch of vectors is stored one
+// sample per row, so input[b * inputSize + k] is feature k of sample b, and
+// weights[j * inputSize + k] connects input k to output j.
+
+// out[b, j] = biases[j] + sum_k weights[j, k] * input[b, k]
+export function denseForward(
+  out: Float32Array,
+  input: Float32Array,
+  weights: Float32Array,
+  biases: Float32Array,
+  batch: number,
+  inputSize: number,
+  outputSize: number,
+) {
+  for (let b = 0; b < batch; b++) {
+    const inOffset = b * inputSize;
+    const outOffset = b * outputSize;
+    for (let j = 0; j < outputSize; j++) {
+      const wOffset = j * inputSize;
+      let sum = biases[j];
+      for (let k = 0; k < inputSize; k++) {
+        sum += weights[wOffset + k] * input[inOffset + k];
+      }
+      out[outOffset + j] = sum;
+    }
+  }
+}
+
+// Propagate deltas back through the weights:
+// inputDelta[b, k] = sum_j weights[j, k] * delta[b, j]
+export function denseBackward(
+  inputDelta: Float32Array,
+  delta: Float32Array,
+  weights: Float32Array,
+  batch: number,
+  inputSize: number,
+  outputSize: number,
+) {
+  inputDelta.fill(0, 0, batch * inputSize);
+  for (let b = 0; b < batch; b++) {
+    const inOffset = b * inputSize;
+    const outOffset = b * outputSize;
+    for (let j = 0; j < outputSize; j++) {
+      const d = delta[outOffset + j];
+      if (d === 0) continue;
+      const wOffset = j * inputSize;
+      for (let k = 0; k < inputSize; k++) {
+        inputDelta[inOffset + k] += weights[wOffset + k] * d;
+      }
+    }
+  }
+}
+
+// Sum the batch's gradients into the accumulators:
+// weightGrad[j, k] += sum_b delta[b, j] * input[b, k]
+// biasGrad[j] += sum_b delta[b, j]
+export function accumulateGradients(
+  weightGrad: Float32Array,
+  biasGrad: Float32Array,
+  delta: Float32Array,
+  input: Float32Array,
+  batch: number,
+  inputSize: number,
+  outputSize: number,
+) {
+  for (let b = 0; b < batch; b++) {
+    const inOffset = b * inputSize;
+    const outOffset = b * outputSize;
+    for (let j = 0; j < outputSize; j++) {
+      const d = delta[outOffset + j];
+      if (d === 0) continue;
+      const wOffset = j * inputSize;
+      for (let k = 0; k < inputSize; k++) {
+        weightGrad[wOffset + k] += d * input[inOffset + k];
+      }
+      biasGrad[j] += d;
+    }
+  }
+}
+
+// SGD with momentum and L2 decay over params[start, start + count).
+// Gradients point downhill (target - output), so the velocity is added.
+export function sgdMomentum(
+  params: Float32Array,
+  gradients: Float32Array,
+  velocities: Float32Array,
+  start: number,
+  count: number,
+  scale: number,
+  learningRate: number,
+  momentum: number,
+  weightDecay: number,
+) {
+  const end = start + count;
+  for (let i = start; i < end; i++) {
+    const value = params[i];
+    const g = gradients[i] * scale - weightDecay * value;
+    velocities[i] = momentum * velocities[i] + learningRate * g;
+    params[i] = value + velocities[i];
+  }
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { createInputEncoder, type InputEncodingConfig } from "./input-encoding";
+import {
+  createModelFile,
+  DEFAULT_COORDINATES,
+  ModelFormatError,
+  parseModelFile,
+} from "./model-file";
+import type { NetworkArchitecture } from "./network-architecture";
+import { DEFAULT_OPTIMIZER } from "./optimizers";
+import { createRandom } from "./random";
+import { NeuralNetwork } from "./worker-network";
+
+const ENCODING: InputEncodingConfig = {
+  type: "fourier",
+  fourierFeatures: 4,
+  fourierScale: 3,
+  octaves: 6,
+};
+
+const ARCHITECTURE: NetworkArchitecture = {
+  hiddenLayers: [
+    { size: 12, activation: "sine" },
+    { size: 8, activation: "relu" },
+  ],
+};
+
+function createNetwork(seed: number): NeuralNetwork {
+  const random = createRandom(seed);
+  return new NeuralNetwork({
+    inputEncoder: createInputEncoder(ENCODING, random),
+    architecture: ARCHITECTURE,
+    outputSize: 3,
+    learningRate: 0.01,
+    momentum: 0.9,
+    optimizer: DEFAULT_OPTIMIZER,
+    omega0: 30,
+    backend: "js",
+    random,
+  });
+}
+
+// Export a network, round-trip the file through JSON text like a download
+// and upload would
+function exportNetwork(network: NeuralNetwork): unknown {
+  const model = createModelFile({
+    architecture: ARCHITECTURE,
+    omega0: 30,
+    inputEncoding: ENCODING,
+    frequencies: network.getInputEncoder().frequencies,
+    coordinates: DEFAULT_COORDINATES,
+    colorSpace: "rgb",
+    training: {
+      iteration: 1234,
+      mse: 0.01,
+      learningRate: 0.005,
+      seed: 5,
+      optimizer: DEFAULT_OPTIMIZER,
+      width: 8,
+      height: 8,
+    },
+    params: network.getParams(),
+  });
+  return JSON.parse(JSON.stringify(model));
+}
+
+describe("model files", () => {
+  it("restores a network that renders identically", () => {
+    const original = createNetwork(5);
+    const contents = parseModelFile(exportNetwork(original));
+    expect(contents.training.iteration).toBe(1234);
+    expect(Array.from(contents.params)).toEqual(
+      Array.from(original.getParams()),
+    );
+
+    // A network built from another seed, then loaded with the file
+    const restored = createNetwork(99);
+    restored.restoreSnapshot({
+      iteration: contents.training.iteration,
+      mse: contents.training.mse,
+      learningRate: contents.training.learningRate,
+      params: contents.params,
+      inputEncoder: createInputEncoder(
+        contents.inputEncoding,
+        createRandom(0),
+        contents.frequencies ?? undefined,
+      ),
+      architecture: contents.architecture,
+      omega0: contents.omega0,
+      colorSpace: contents.colorSpace,
+    });
+    expect(restored.renderToBuffer(8, 8)).toEqual(
+      original.renderToBuffer(8, 8),
+    );
+  });
+
+  it("rejects files that don't match their architecture", () => {
+    const file = exportNetwork(createNetwork(5)) as {
+      architecture: NetworkArchitecture;
+    };
+    file.architecture.hiddenLayers[0].size = 13;
+    expect(() => parseModelFile(file)).toThrow(ModelFormatError);
+    expect(() => parseModelFile({ format: "something-else" })).toThrow(
+      "Not a model file",
+    );
+  });
+});
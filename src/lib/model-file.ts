@@ -0,0 +1,231 @@
+// Portable model files: a trained network plus everything needed to
+// evaluate it outside this app. JSON, with the parameters as base64
+// little-endian float32 so the file stays compact.
+//
+// To evaluate a model: map a pixel to coordinates with `coordinates`, encode
+// them with `inputEncoding` (Fourier features use `frequencies`), then run the
+// dense layers of `layerSizes` using `params`, which holds, layer by layer,
+// the weights (row-major, outputs x inputs) followed by the biases. Hidden
+// layers apply their activation (sine layers compute sin(omega * z), with
+// omega = omega0 on the first layer and 1 after); the output layer is linear,
+// clamped to [0, 1]. The outputs are sRGB, or the channels of `colorSpace`
+// scaled to [0, 1] (see encodeColor in color-spaces.ts).
+
+import { DEFAULT_OMEGA_0 } from "./activations";
+import { COLOR_SPACE_LABELS, type ColorSpace } from "./color-spaces";
+import { getEncodedInputSize, type InputEncodingConfig } from "./input-encoding";
+import type { LossConfig } from "./loss-functions";
+import {
+  getLayerSizes,
+  type NetworkArchitecture,
+} from "./network-architecture";
+import type { OptimizerConfig } from "./optimizers";
+
+export const MODEL_FORMAT = "deconstructing-perception-model";
+// Version 2 scales both axes by the long side; version 1 stretched each
+// axis to the range, which only matches for square images
+export const MODEL_FORMAT_VERSION = 2;
+
+// How pixel positions become network inputs. With L = max(width, height),
+// pixel (column, row) of a width x height image maps to
+// x = (2 * column - width) / L and y = (2 * row - height) / L: the long side
+// spans `range`, the short side a centered part of it, and the top-left
+// corner of the first pixel sits at the edge.
+export interface CoordinateConvention {
+  range: [number, number];
+  pixelOrigin: "corner";
+  aspect: "longSide";
+}
+
+export const DEFAULT_COORDINATES: CoordinateConvention = {
+  range: [-1, 1],
+  pixelOrigin: "corner",
+  aspect: "longSide",
+};
+
+export interface ModelTrainingInfo {
+  iteration: number;
+  mse: number;
+  learningRate: number;
+  seed: number;
+  optimizer: OptimizerConfig;
+  // Missing from files exported before losses were selectable (MSE)
+  loss?: LossConfig;
+  // Size of the image the model was trained on
+  width: number;
+  height: number;
+}
+
+export interface ModelFile {
+  format: typeof MODEL_FORMAT;
+  version: number;
+  exportedAt: string;
+  architecture: NetworkArchitecture;
+  omega0: number;
+  inputEncoding: InputEncodingConfig;
+  // Fourier frequency matrix (fourierFeatures x 2, row-major), null otherwise
+  frequencies: number[] | null;
+  coordinates: CoordinateConvention;
+  // Space of the outputs (missing from older files, which are all RGB)
+  colorSpace?: ColorSpace;
+  // Input, hidden and output sizes, for readers that don't parse architecture
+  layerSizes: number[];
+  training: ModelTrainingInfo;
+  // Base64 of the float32 parameters, little-endian
+  params: string;
+}
+
+export interface ModelContents {
+  architecture: NetworkArchitecture;
+  omega0: number;
+  inputEncoding: InputEncodingConfig;
+  frequencies: Float64Array | null;
+  coordinates: CoordinateConvention;
+  colorSpace: ColorSpace;
+  training: ModelTrainingInfo;
+  params: Float32Array;
+}
+
+// Thrown by parseModelFile for anything that isn't a model it can load
+export class ModelFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ModelFormatError";
+  }
+}
+
+function encodeParams(params: Float32Array): string {
+  const bytes = new Uint8Array(params.length * 4);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < params.length; i++) {
+    view.setFloat32(i * 4, params[i], true);
+  }
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function decodeParams(base64: string): Float32Array {
+  const binary = atob(base64);
+  if (binary.length % 4 !== 0) {
+    throw new ModelFormatError("Parameter data is truncated");
+  }
+  const view = new DataView(new ArrayBuffer(binary.length));
+  for (let i = 0; i < binary.length; i++) {
+    view.setUint8(i, binary.charCodeAt(i));
+  }
+  const params = new Float32Array(binary.length / 4);
+  for (let i = 0; i < params.length; i++) {
+    params[i] = view.getFloat32(i * 4, true);
+  }
+  return params;
+}
+
+function countLayerParams(layerSizes: number[]): number {
+  let total = 0;
+  for (let i = 0; i < layerSizes.length - 1; i++) {
+    total += layerSizes[i] * layerSizes[i + 1] + layerSizes[i + 1];
+  }
+  return total;
+}
+
+export function createModelFile(contents: ModelContents): ModelFile {
+  return {
+    format: MODEL_FORMAT,
+    version: MODEL_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    architecture: contents.architecture,
+    omega0: contents.omega0,
+    inputEncoding: contents.inputEncoding,
+    frequencies: contents.frequencies ? Array.from(contents.frequencies) : null,
+    coordinates: contents.coordinates,
+    colorSpace: contents.colorSpace,
+    layerSizes: getLayerSizes(
+      contents.architecture,
+      getEncodedInputSize(contents.inputEncoding),
+      3,
+    ),
+    training: contents.training,
+    params: encodeParams(contents.params),
+  };
+}
+
+// Validate a parsed model file and unpack it
+export function parseModelFile(json: unknown): ModelContents {
+  const file = json as Partial<ModelFile> | null;
+  if (!file || typeof file !== "object" || file.format !== MODEL_FORMAT) {
+    throw new ModelFormatError("Not a model file");
+  }
+  if (file.version !== 1 && file.version !== MODEL_FORMAT_VERSION) {
+    throw new ModelFormatError(
+      `Unsupported model version ${file.version} (expected ${MODEL_FORMAT_VERSION})`,
+    );
+  }
+  if (
+    !file.architecture?.hiddenLayers ||
+    !file.inputEncoding ||
+    !file.training ||
+    typeof file.params !== "string"
+  ) {
+    throw new ModelFormatError("Model file is missing required fields");
+  }
+
+  const layerSizes = getLayerSizes(
+    file.architecture,
+    getEncodedInputSize(file.inputEncoding),
+    3,
+  );
+  let params: Float32Array;
+  try {
+    params = decodeParams(file.params);
+  } catch (error) {
+    if (error instanceof ModelFormatError) throw error;
+    throw new ModelFormatError("Parameter data is not valid base64");
+  }
+  if (params.length !== countLayerParams(layerSizes)) {
+    throw new ModelFormatError(
+      `Expected ${countLayerParams(layerSizes)} parameters for layers ${layerSizes.join("-")}, found ${params.length}`,
+    );
+  }
+
+  // Version 1 coordinates agree with the current ones on square images only
+  const coordinates: CoordinateConvention =
+    file.version === 1
+      ? { ...DEFAULT_COORDINATES, ...file.coordinates, aspect: "longSide" }
+      : (file.coordinates ?? DEFAULT_COORDINATES);
+  if (
+    coordinates.range[0] !== DEFAULT_COORDINATES.range[0] ||
+    coordinates.range[1] !== DEFAULT_COORDINATES.range[1] ||
+    coordinates.pixelOrigin !== DEFAULT_COORDINATES.pixelOrigin ||
+    coordinates.aspect !== DEFAULT_COORDINATES.aspect ||
+    (file.version === 1 && file.training.width !== file.training.height)
+  ) {
+    throw new ModelFormatError("Unsupported coordinate convention");
+  }
+
+  const colorSpace = file.colorSpace ?? "rgb";
+  if (!Object.hasOwn(COLOR_SPACE_LABELS, colorSpace)) {
+    throw new ModelFormatError(`Unsupported color space ${colorSpace}`);
+  }
+
+  let frequencies: Float64Array | null = null;
+  if (file.inputEncoding.type === "fourier") {
+    if (file.frequencies?.length !== file.inputEncoding.fourierFeatures * 2) {
+      throw new ModelFormatError("Fourier frequencies don't match the encoding");
+    }
+    frequencies = Float64Array.from(file.frequencies);
+  }
+
+  return {
+    architecture: file.architecture,
+    omega0: file.omega0 ?? DEFAULT_OMEGA_0,
+    inputEncoding: file.inputEncoding,
+    frequencies,
+    coordinates,
+    colorSpace,
+    training: file.training,
+    params,
+  };
+}
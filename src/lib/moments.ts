@@ -0,0 +1,17 @@
+// Every photo in public/moments, the one the painter opens with first
+export const MOMENT_IMAGES = [
+  "/moments/brussels.jpg",
+  "/moments/sausalito.jpg",
+  "/moments/surprise.JPG",
+  "/moments/france.JPG",
+  "/moments/bday.jpg",
+  "/moments/bkk.jpg",
+  "/moments/din.jpg",
+  "/moments/dogs.jpg",
+  "/moments/drinks.jpg",
+  "/moments/friendsonly.jpg",
+  "/moments/fun.jpg",
+  "/moments/halloween.jpg",
+  "/moments/osl.jpg",
+  "/moments/thailand.jpg",
+];
@@ -0,0 +1,87 @@
+// Hidden-layer layout shared by the UI, the worker and the main-thread network
+
+import type { LayerActivation } from "./activations";
+
+export interface LayerSpec {
+  size: number;
+  activation: LayerActivation;
+}
+
+export interface NetworkArchitecture {
+  hiddenLayers: LayerSpec[];
+}
+
+export const MAX_HIDDEN_LAYERS = 10;
+export const MAX_LAYER_SIZE = 256;
+
+// 7 hidden layers with 20 neurons each (like convnetjs)
+export const DEFAULT_ARCHITECTURE: NetworkArchitecture = {
+  hiddenLayers: Array.from({ length: 7 }, () => ({
+    size: 20,
+    activation: "relu" as const,
+  })),
+};
+
+export function getLayerSizes(
+  architecture: NetworkArchitecture,
+  inputSize: number,
+  outputSize: number,
+): number[] {
+  return [
+    inputSize,
+    ...architecture.hiddenLayers.map((layer) => layer.size),
+    outputSize,
+  ];
+}
+
+// Same layout with every hidden layer switched to one activation
+export function withActivation(
+  architecture: NetworkArchitecture,
+  activation: LayerActivation,
+): NetworkArchitecture {
+  return {
+    hiddenLayers: architecture.hiddenLayers.map((layer) => ({
+      ...layer,
+      activation,
+    })),
+  };
+}
+
+// Total weights + biases
+export function countParameters(
+  architecture: NetworkArchitecture,
+  inputSize: number,
+  outputSize: number,
+): number {
+  const sizes = getLayerSizes(architecture, inputSize, outputSize);
+  let total = 0;
+  for (let i = 0; i < sizes.length - 1; i++) {
+    total += sizes[i] * sizes[i + 1] + sizes[i + 1];
+  }
+  return total;
+}
+
+// Rough floating point operations to train on one sample: the forward pass
+// is one multiply-add per weight, and the backward pass costs about twice
+// that (input deltas + weight gradients)
+export function estimateTrainingFlops(
+  architecture: NetworkArchitecture,
+  inputSize: number,
+  outputSize: number,
+): number {
+  return 3 * 2 * countParameters(architecture, inputSize, outputSize);
+}
+
+// Short label like "7 × 20 relu" or "3 layers, mixed"
+export function describeArchitecture(architecture: NetworkArchitecture): string {
+  const layers = architecture.hiddenLayers;
+  if (layers.length === 0) return "linear";
+  const sameSize = layers.every((layer) => layer.size === layers[0].size);
+  const sameActivation = layers.every(
+    (layer) => layer.activation === layers[0].activation,
+  );
+  const shape = sameSize
+    ? `${layers.length} × ${layers[0].size}`
+    : layers.map((layer) => layer.size).join("-");
+  return `${shape} ${sameActivation ? layers[0].activation : "mixed"}`;
+}
@@ -1,42 +1,68 @@
 // Simple Multi-Layer Perceptron for image painting
 // The network learns to map (x, y) coordinates to (r, g, b) colors
 
+import {
+  activate,
+  activationDerivative,
+  DEFAULT_OMEGA_0,
+  type LayerActivation,
+  sirenWeightBound,
+} from './activations'
+import { DEFAULT_ARCHITECTURE, type NetworkArchitecture } from './network-architecture'
+import { createRandom, randomSeed } from './random'
+
 export interface NetworkConfig {
   inputSize: number
   hiddenLayers: number[]
   outputSize: number
   learningRate: number
+  // Activation per hidden layer, ReLU when omitted
+  activations?: LayerActivation[]
+  omega0?: number
+  // Seed for the initial weights, random when omitted
+  seed?: number
 }
 
 export class NeuralNetwork {
   private weights: number[][][]
   private biases: number[][]
   private learningRate: number
+  private layerActivations: LayerActivation[]
+  private omega0: number
   private activations: number[][]
   private zValues: number[][]
 
   constructor(config: NetworkConfig) {
     this.learningRate = config.learningRate
+    this.layerActivations = config.hiddenLayers.map((_, i) => config.activations?.[i] ?? 'relu')
+    this.omega0 = config.omega0 ?? DEFAULT_OMEGA_0
     this.weights = []
     this.biases = []
     this.activations = []
     this.zValues = []
 
     const layers = [config.inputSize, ...config.hiddenLayers, config.outputSize]
+    const random = createRandom(config.seed ?? randomSeed())
 
-    // Initialize weights and biases with Xavier initialization
+    // Initialize weights and biases with Xavier initialization (SIREN's scheme for sine layers)
     for (let i = 0; i < layers.length - 1; i++) {
       const inputSize = layers[i]
       const outputSize = layers[i + 1]
-      const scale = Math.sqrt(2 / (inputSize + outputSize))
+      const isLastLayer = i === layers.length - 2
+      const layerActivation = isLastLayer ? undefined : this.layerActivations[i]
+      const isSiren = layerActivation === 'sine'
+      const scale = isSiren
+        ? sirenWeightBound(inputSize, i === 0)
+        : Math.sqrt(2 / (inputSize + outputSize))
+      const biasScale = isSiren ? 1 / Math.sqrt(inputSize) : 0
 
       this.weights.push(
         Array.from({ length: outputSize }, () =>
-          Array.from({ length: inputSize }, () => (Math.random() * 2 - 1) * scale)
+          Array.from({ length: inputSize }, () => (random() * 2 - 1) * scale)
         )
       )
 
-      this.biases.push(Array.from({ length: outputSize }, () => 0))
+      this.biases.push(Array.from({ length: outputSize }, () => (random() * 2 - 1) * biasScale))
     }
   }
 
@@ -48,13 +74,17 @@ export class NeuralNetwork {
     return this.learningRate
   }
 
-  // Activation functions
-  private relu(x: number): number {
-    return Math.max(0, x)
+  // Activation functions (hidden layers use the shared activations, omega_0 only scales the first layer)
+  private layerOmega(layer: number): number {
+    return layer === 0 ? this.omega0 : 1
+  }
+
+  private hidden(x: number, layer: number): number {
+    return activate(this.layerActivations[layer], x, this.layerOmega(layer))
   }
 
-  private reluDerivative(x: number): number {
-    return x > 0 ? 1 : 0
+  private hiddenDerivative(x: number, layer: number): number {
+    return activationDerivative(this.layerActivations[layer], x, this.layerOmega(layer))
   }
 
   private sigmoid(x: number): number {
@@ -84,8 +114,8 @@ export class NeuralNetwork {
           sum += this.weights[i][j][k] * current[k]
         }
         z.push(sum)
-        // Use sigmoid for output layer (RGB values 0-1), ReLU for hidden layers
-        activation.push(isLastLayer ? this.sigmoid(sum) : this.relu(sum))
+        // Use sigmoid for output layer (RGB values 0-1), ReLU or sine for hidden layers
+        activation.push(isLastLayer ? this.sigmoid(sum) : this.hidden(sum, i))
       }
 
       this.zValues.push(z)
@@ -127,7 +157,7 @@ export class NeuralNetwork {
         for (let j = 0; j < this.weights[l + 1].length; j++) {
           sum += this.weights[l + 1][j][i] * deltas[0][j]
         }
-        delta.push(sum * this.reluDerivative(this.zValues[l][i]))
+        delta.push(sum * this.hiddenDerivative(this.zValues[l][i], l))
       }
       deltas.unshift(delta)
     }
@@ -158,11 +188,17 @@ export class NeuralNetwork {
 }
 
 // Create a network optimized for image painting
-export function createImagePainterNetwork(learningRate: number): NeuralNetwork {
+export function createImagePainterNetwork(
+  learningRate: number,
+  architecture: NetworkArchitecture = DEFAULT_ARCHITECTURE,
+  seed?: number,
+): NeuralNetwork {
   return new NeuralNetwork({
     inputSize: 2, // x, y coordinates (normalized)
-    hiddenLayers: [64, 128, 128, 64], // Deeper network for complex patterns
+    hiddenLayers: architecture.hiddenLayers.map((layer) => layer.size),
+    activations: architecture.hiddenLayers.map((layer) => layer.activation),
     outputSize: 3, // r, g, b values (normalized)
     learningRate,
+    seed,
   })
 }
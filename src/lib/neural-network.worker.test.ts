@@ -0,0 +1,77 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+// Shard worker that takes messages but never answers, so a training step
+// stays in flight until its shards are terminated
+class FakeShardWorker {
+  static instances: FakeShardWorker[] = [];
+  terminated = false;
+  onmessage: ((e: MessageEvent) => void) | null = null;
+  onerror: ((e: ErrorEvent) => void) | null = null;
+
+  constructor() {
+    FakeShardWorker.instances.push(this);
+  }
+
+  postMessage() {}
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+interface WorkerScope {
+  postMessage: (message: { type: string }) => void;
+  onmessage: ((e: { data: unknown }) => void) | null;
+}
+
+const posted: { type: string; count?: number; error?: string }[] = [];
+const scope: WorkerScope = {
+  postMessage: (message) => posted.push(message),
+  onmessage: null,
+};
+
+function send(data: unknown) {
+  scope.onmessage?.({ data });
+}
+
+// Let the training loop react to rejected steps
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe("neural network worker", () => {
+  beforeAll(async () => {
+    vi.stubGlobal("self", scope);
+    vi.stubGlobal("Worker", FakeShardWorker);
+    await import("./neural-network.worker");
+  });
+
+  afterAll(() => {
+    send({ type: "stop" });
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps the new shard workers when the count changes mid-step", async () => {
+    send({
+      type: "init",
+      imageData: new Uint8ClampedArray(4 * 4 * 4).fill(128),
+      width: 4,
+      height: 4,
+      learningRate: 0.01,
+      workerCount: 2,
+      seed: 1,
+    });
+    send({ type: "start" });
+    await settle();
+    expect(FakeShardWorker.instances).toHaveLength(2);
+
+    // Stops the two shards while their step is waiting
+    send({ type: "setWorkerCount", workerCount: 3 });
+    await settle();
+
+    const live = FakeShardWorker.instances.filter((w) => !w.terminated);
+    expect(live).toHaveLength(3);
+    const reports = posted.filter((m) => m.type === "trainingWorkers");
+    expect(reports.at(-1)).toMatchObject({ count: 3, error: undefined });
+  });
+});
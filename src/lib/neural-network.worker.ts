@@ -1,270 +1,95 @@
 // Web Worker for neural network training - runs off main thread
 // Architecture inspired by convnetjs image painting demo
 
-interface NetworkConfig {
-  inputSize: number;
-  hiddenLayers: number[];
-  outputSize: number;
-  learningRate: number;
-  momentum: number;
-  l2Decay: number;
-}
-
-interface NetworkSnapshot {
-  iteration: number;
-  mse: number;
-  learningRate: number;
-  weights: Float64Array[];
-  biases: Float64Array[];
-}
-
-class NeuralNetwork {
-  private weights: Float64Array[];
-  private biases: Float64Array[];
-  private layerSizes: number[];
-  private learningRate: number;
-  private momentum: number;
-  private l2Decay: number;
-
-  // Momentum velocities
-  private weightVelocities: Float64Array[];
-  private biasVelocities: Float64Array[];
-
-  constructor(config: NetworkConfig) {
-    this.learningRate = config.learningRate;
-    this.momentum = config.momentum;
-    this.l2Decay = config.l2Decay;
-    this.layerSizes = [
-      config.inputSize,
-      ...config.hiddenLayers,
-      config.outputSize,
-    ];
-
-    this.weights = [];
-    this.biases = [];
-    this.weightVelocities = [];
-    this.biasVelocities = [];
-
-    // Initialize with typed arrays for better performance
-    for (let i = 0; i < this.layerSizes.length - 1; i++) {
-      const inputSize = this.layerSizes[i];
-      const outputSize = this.layerSizes[i + 1];
-      // Xavier/He initialization
-      const scale = Math.sqrt(2 / inputSize);
-
-      const weights = new Float64Array(outputSize * inputSize);
-      for (let j = 0; j < weights.length; j++) {
-        weights[j] = (Math.random() * 2 - 1) * scale;
-      }
-      this.weights.push(weights);
-      this.biases.push(new Float64Array(outputSize));
-
-      // Initialize velocities to zero
-      this.weightVelocities.push(new Float64Array(outputSize * inputSize));
-      this.biasVelocities.push(new Float64Array(outputSize));
-    }
-  }
-
-  setLearningRate(lr: number) {
-    this.learningRate = lr;
-  }
-
-  getLearningRate(): number {
-    return this.learningRate;
-  }
-
-  setMomentum(m: number) {
-    this.momentum = m;
-  }
-
-  // Forward pass - inline for speed
-  private forward(inputX: number, inputY: number): [number, number, number] {
-    let current = [inputX, inputY];
-    const numLayers = this.weights.length;
-
-    for (let l = 0; l < numLayers; l++) {
-      const inputSize = this.layerSizes[l];
-      const outputSize = this.layerSizes[l + 1];
-      const weights = this.weights[l];
-      const biases = this.biases[l];
-      const isLastLayer = l === numLayers - 1;
-
-      const next = new Array(outputSize);
-
-      for (let j = 0; j < outputSize; j++) {
-        let sum = biases[j];
-        const offset = j * inputSize;
-        for (let k = 0; k < current.length; k++) {
-          sum += weights[offset + k] * current[k];
-        }
-        // ReLU for hidden layers, linear for output (regression)
-        if (isLastLayer) {
-          // Clamp output to [0, 1] for RGB
-          next[j] = Math.max(0, Math.min(1, sum));
-        } else {
-          next[j] = sum > 0 ? sum : 0;
-        }
-      }
-      current = next;
-    }
-
-    return current as [number, number, number];
-  }
-
-  // Combined forward + backward for training with momentum
-  train(
-    inputX: number,
-    inputY: number,
-    targetR: number,
-    targetG: number,
-    targetB: number,
-  ): number {
-    const numLayers = this.weights.length;
-    const activations: number[][] = [[inputX, inputY]];
-    const zValues: number[][] = [];
-
-    // Forward pass with stored activations
-    let current = [inputX, inputY];
-
-    for (let l = 0; l < numLayers; l++) {
-      const inputSize = this.layerSizes[l];
-      const outputSize = this.layerSizes[l + 1];
-      const weights = this.weights[l];
-      const biases = this.biases[l];
-      const isLastLayer = l === numLayers - 1;
-
-      const z = new Array(outputSize);
-      const activation = new Array(outputSize);
-
-      for (let j = 0; j < outputSize; j++) {
-        let sum = biases[j];
-        const offset = j * inputSize;
-        for (let k = 0; k < current.length; k++) {
-          sum += weights[offset + k] * current[k];
-        }
-        z[j] = sum;
-        if (isLastLayer) {
-          // Linear output with clamping for regression
-          activation[j] = Math.max(0, Math.min(1, sum));
-        } else {
-          activation[j] = sum > 0 ? sum : 0;
-        }
-      }
-
-      zValues.push(z);
-      activations.push(activation);
-      current = activation;
-    }
-
-    const output = activations[numLayers];
-    const target = [targetR, targetG, targetB];
-
-    // Calculate loss (MSE)
-    let loss = 0;
-    for (let i = 0; i < 3; i++) {
-      loss += (target[i] - output[i]) ** 2;
-    }
-    loss /= 3;
-
-    // Backward pass
-    const deltas: number[][] = [];
-
-    // Output layer delta (linear activation, derivative = 1)
-    const outputDelta = new Array(3);
-    for (let i = 0; i < 3; i++) {
-      outputDelta[i] = target[i] - output[i];
-    }
-    deltas.unshift(outputDelta);
-
-    // Hidden layers (ReLU derivative)
-    for (let l = numLayers - 2; l >= 0; l--) {
-      const outputSize = this.layerSizes[l + 1];
-      const nextOutputSize = this.layerSizes[l + 2];
-      const nextWeights = this.weights[l + 1];
-      const delta = new Array(outputSize);
-
-      for (let i = 0; i < outputSize; i++) {
-        let sum = 0;
-        for (let j = 0; j < nextOutputSize; j++) {
-          sum += nextWeights[j * outputSize + i] * deltas[0][j];
-        }
-        delta[i] = zValues[l][i] > 0 ? sum : 0;
-      }
-      deltas.unshift(delta);
-    }
-
-    // Update weights and biases with momentum and L2 decay
-    for (let l = 0; l < numLayers; l++) {
-      const inputSize = this.layerSizes[l];
-      const outputSize = this.layerSizes[l + 1];
-      const weights = this.weights[l];
-      const biases = this.biases[l];
-      const weightVel = this.weightVelocities[l];
-      const biasVel = this.biasVelocities[l];
-      const prevActivation = activations[l];
-      const delta = deltas[l];
-
-      for (let j = 0; j < outputSize; j++) {
-        const offset = j * inputSize;
-        for (let k = 0; k < inputSize; k++) {
-          const idx = offset + k;
-          const grad =
-            delta[j] * prevActivation[k] - this.l2Decay * weights[idx];
-          weightVel[idx] =
-            this.momentum * weightVel[idx] + this.learningRate * grad;
-          weights[idx] += weightVel[idx];
-        }
-        const biasGrad = delta[j];
-        biasVel[j] = this.momentum * biasVel[j] + this.learningRate * biasGrad;
-        biases[j] += biasVel[j];
-      }
-    }
-
-    return loss;
-  }
-
-  predict(inputX: number, inputY: number): [number, number, number] {
-    return this.forward(inputX, inputY);
-  }
-
-  // Render entire image at once
-  renderToBuffer(width: number, height: number): Uint8ClampedArray {
-    const buffer = new Uint8ClampedArray(width * height * 4);
-
-    for (let y = 0; y < height; y++) {
-      const inputY = (y / height) * 2 - 1;
-      for (let x = 0; x < width; x++) {
-        const inputX = (x / width) * 2 - 1;
-        const [r, g, b] = this.forward(inputX, inputY);
-
-        const idx = (y * width + x) * 4;
-        buffer[idx] = Math.round(r * 255);
-        buffer[idx + 1] = Math.round(g * 255);
-        buffer[idx + 2] = Math.round(b * 255);
-        buffer[idx + 3] = 255;
-      }
-    }
-
-    return buffer;
-  }
-
-  // Create a snapshot of current network state
-  createSnapshot(iteration: number, mse: number, learningRate: number): NetworkSnapshot {
-    return {
-      iteration,
-      mse,
-      learningRate,
-      weights: this.weights.map((w) => new Float64Array(w)),
-      biases: this.biases.map((b) => new Float64Array(b)),
-    };
-  }
-
-  // Restore network from a snapshot
-  restoreSnapshot(snapshot: NetworkSnapshot): void {
-    this.weights = snapshot.weights.map((w) => new Float64Array(w));
-    this.biases = snapshot.biases.map((b) => new Float64Array(b));
-  }
-}
+import { DEFAULT_OMEGA_0 } from "./activations";
+import {
+  Autoencoder,
+  AUTOENCODER_HIDDEN_SIZE,
+  AUTOENCODER_IMAGE_SIZE,
+  DEFAULT_AUTOENCODER_LEARNING_RATE,
+  DEFAULT_LATENT_SIZE,
+  imageToRow,
+} from "./autoencoder";
+import {
+  type CheckpointSummary,
+  deleteCheckpoint,
+  isCheckpointStorageAvailable,
+  loadCheckpoint,
+  saveCheckpoint,
+  summarizeCheckpoint,
+  type ImportanceMask,
+  type TrainingCheckpoint,
+} from "./checkpoints";
+import type { ColorSpace } from "./color-spaces";
+import type { BackendType } from "./compute-backend";
+import { heatmapImage, pixelErrors } from "./error-map";
+import { morphFrames } from "./gif-utils";
+import { type ImageMetrics, measureImage } from "./image-metrics";
+import {
+  createInputEncoder,
+  DEFAULT_INPUT_ENCODING,
+  type InputEncodingConfig,
+} from "./input-encoding";
+import {
+  DEFAULT_ARCHITECTURE,
+  type NetworkArchitecture,
+} from "./network-architecture";
+import {
+  createModelFile,
+  DEFAULT_COORDINATES,
+  parseModelFile,
+} from "./model-file";
+import {
+  DEFAULT_LOSS,
+  type LossConfig,
+  lossForColorSpace,
+} from "./loss-functions";
+import {
+  DEFAULT_MIN_LEARNING_RATE,
+  DEFAULT_SCHEDULER,
+  LearningRateScheduler,
+  type SchedulerConfig,
+} from "./lr-schedulers";
+import {
+  type BatchMode,
+  DEFAULT_OPTIMIZER,
+  type OptimizerConfig,
+} from "./optimizers";
+import {
+  ERROR_REFRESH_INTERVAL,
+  errorWeights,
+  type ImageShard,
+  imageSetPixelCount,
+  PixelSampler,
+  type SamplingMode,
+  sampleBatch,
+  sampleImageSetBatch,
+} from "./pixel-sampling";
+import {
+  createRandom,
+  deriveSeed,
+  randomSeed,
+  SAMPLING_STREAM,
+  WEIGHT_INIT_STREAM,
+} from "./random";
+import {
+  MAX_RENDER_SIZE,
+  planTiles,
+  type RenderTile,
+} from "./tiled-render";
+import {
+  type InterpolationMode,
+  interpolateSnapshot,
+  MAX_IN_BETWEEN_FRAMES,
+} from "./snapshot-interpolation";
+import { canShareMemory, TrainingShards } from "./training-shards";
+import {
+  DEFAULT_EMBEDDING_SIZE,
+  DEFAULT_TIME_OCTAVES,
+  frameToTime,
+  NeuralNetwork,
+  type NetworkSnapshot,
+} from "./worker-network";
 
 // Worker state
 let network: NeuralNetwork | null = null;
@@ -273,16 +98,99 @@ let imageWidth = 0;
 let imageHeight = 0;
 let isTraining = false;
 let iteration = 0;
+let lastLoss = 0; // Average loss of the latest training tick
+// Full-image MSE, PSNR and SSIM, refreshed every METRICS_INTERVAL iterations
+const METRICS_INTERVAL = 1000;
+let imageMetrics: ImageMetrics | null = null;
+let metricsIteration: number | null = null; // null = measure on the next tick
 let batchSize = 5; // Small batch like convnetjs
+let batchMode: BatchMode = "minibatch";
+let samplingMode: SamplingMode = "replacement";
+let sampler: PixelSampler | null = null;
+// Painted importance mask and the per-pixel sampling weights made from it
+// (null = uniform)
+let importanceMask: ImportanceMask | null = null;
+let importance: Float32Array | null = null;
+// What the samplers draw from: the importance mask, times each pixel's
+// reconstruction error in "error" mode (null = uniform)
+let samplingWeights: Float32Array | null = null;
+// Iteration the error weights were computed at (null = not computed yet)
+let errorWeightsIteration: number | null = null;
+// The whole image as a single shard, for training on this worker
+let localShard: ImageShard | null = null;
+// Several images learned by one network, told apart by a learned embedding
+// (null = a single image). imageData and localShard are then the image on
+// show, which renders, metrics and snapshots follow.
+let imageSet: ImageShard[] | null = null;
+// How the main thread sends each image of a set
+interface SetImage {
+  imageData: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+let embeddingSize = DEFAULT_EMBEDDING_SIZE;
+let activeImage = 0;
+// Image blended with the active one in renders, and how far towards it
+let blendImage = 0;
+let blendAmount = 0;
+// The set is the frames of a clip, told apart by a time input instead of
+// embeddings. Renders paint time clipTime in [-1, 1], and imageData is the
+// frame nearest to it.
+let clip = false;
+let clipTime = -1;
+// Extra workers for data-parallel training (null when training here)
+let workerCount = 1;
+let shards: TrainingShards | null = null;
+// Bumped on every start so a loop still waiting on shard workers knows it
+// has been superseded (stop/start, GIF generation, reset)
+let trainingRun = 0;
+// Coordinates (x, y) and target colours (r, g, b) of the current batch,
+// one sample per row
+let batchCoords = new Float32Array(0);
+let batchTargets = new Float32Array(0);
+// Which image of the set each sample came from
+let batchImages = new Uint16Array(0);
+// Smoothed training throughput reported with each progress message
+let iterationsPerSecond = 0;
+let lastLoopTime = 0;
 let renderRequested = false;
 let initialLearningRate = 0.01;
 let learningRate = 0.01;
 let momentum = 0.9;
-let minLearningRate = 0.0001; // Don't go below this
-let lossHistory: number[] = []; // Track recent losses
-const LOSS_HISTORY_SIZE = 100; // Number of loss samples to track
-const DECAY_THRESHOLD = 0.001; // If relative improvement is less than this, decay LR
-const DECAY_FACTOR = 0.95; // Multiply LR by this when plateauing
+let optimizer: OptimizerConfig = DEFAULT_OPTIMIZER;
+let lossConfig: LossConfig = DEFAULT_LOSS;
+// Space the network learns colors in (rendering converts back to RGB)
+let colorSpace: ColorSpace = "rgb";
+let inputEncoding: InputEncodingConfig = DEFAULT_INPUT_ENCODING;
+let architecture: NetworkArchitecture = DEFAULT_ARCHITECTURE;
+let omega0 = DEFAULT_OMEGA_0;
+let minLearningRate = DEFAULT_MIN_LEARNING_RATE; // Don't go below this
+let schedulerConfig: SchedulerConfig = DEFAULT_SCHEDULER;
+let scheduler: LearningRateScheduler | null = null;
+let backend: BackendType = "js";
+// Run seed - with the same seed, image and settings, training is bit-identical
+let seed = 0;
+// Separate network for rendering snapshots, so the live one is never touched
+let snapshotRenderer: NeuralNetwork | null = null;
+
+// Autoencoder mode: learns a whole set of small images through a latent
+// bottleneck instead of painting one (null = painting mode)
+let autoencoder: Autoencoder | null = null;
+// The set, one image per row with channels in [0, 1]
+let autoencoderImages = new Float32Array(0);
+let autoencoderImageCount = 0;
+// A training step sees every image, so ticks are timed rather than counted
+const AUTOENCODER_TICK_MS = 50;
+
+// High-resolution export: bumped to cancel the tiles still queued
+let renderJob = 0;
+
+// Checkpoint state
+const CHECKPOINT_INTERVAL_MS = 30_000; // Autosave this often while training
+let runId = createRunId();
+// What's in IndexedDB right now (loaded when the worker starts)
+let savedCheckpoint: CheckpointSummary | null = null;
+let lastCheckpointTime = 0;
 
 // GIF generation state
 let snapshots: NetworkSnapshot[] = [];
@@ -293,48 +201,189 @@ let maxIterations = 100_000;
 let autoGenerateGif = false;
 
 function trainBatch(): number {
-  if (!network || !imageData) return 0;
+  if (!network || !localShard || !sampler) return 0;
+
+  if (batchCoords.length < batchSize * 2) {
+    batchCoords = new Float32Array(batchSize * 2);
+    batchTargets = new Float32Array(batchSize * 3);
+    batchImages = new Uint16Array(batchSize);
+  }
+  const images = imageSet ? batchImages : null;
+  if (imageSet) {
+    sampleImageSetBatch(
+      sampler,
+      imageSet,
+      batchCoords,
+      batchTargets,
+      batchImages,
+      batchSize,
+    );
+  } else {
+    sampleBatch(sampler, localShard, batchCoords, batchTargets, batchSize);
+  }
 
+  // Mini-batch: one update from the whole batch.
+  // Per-sample: update the weights after every pixel (convnetjs style).
   let totalLoss = 0;
+  if (batchMode === "minibatch") {
+    totalLoss = network.train(batchCoords, batchTargets, 0, batchSize, images);
+  } else {
+    for (let b = 0; b < batchSize; b++) {
+      totalLoss += network.train(batchCoords, batchTargets, b, 1, images);
+    }
+  }
 
-  for (let b = 0; b < batchSize; b++) {
-    const x = Math.floor(Math.random() * imageWidth);
-    const y = Math.floor(Math.random() * imageHeight);
-    const idx = (y * imageWidth + x) * 4;
+  return totalLoss / batchSize;
+}
 
-    const inputX = (x / imageWidth) * 2 - 1;
-    const inputY = (y / imageHeight) * 2 - 1;
+// One data-parallel iteration: every shard worker contributes a batch, and
+// the averaged gradient is applied here (always as a mini-batch)
+async function trainShardedBatch(
+  active: TrainingShards,
+  net: NeuralNetwork,
+): Promise<number> {
+  const { loss, samples } = await active.step(net, batchSize);
+  net.applyGradients(samples);
+  return loss / samples;
+}
 
-    const targetR = imageData[idx] / 255;
-    const targetG = imageData[idx + 1] / 255;
-    const targetB = imageData[idx + 2] / 255;
+// (Re)start the shard workers for the current network, image and settings.
+// `error` explains a fallback to training on this worker only.
+function restartShards(error?: string) {
+  shards?.terminate();
+  shards = null;
 
-    totalLoss += network.train(inputX, inputY, targetR, targetG, targetB);
+  // Shard workers split a single image
+  if (imageSet && workerCount > 1) {
+    workerCount = 1;
+    error = "Training on the whole set runs on this worker only";
   }
 
-  return totalLoss / batchSize;
+  if (workerCount > 1 && network && imageData) {
+    if (typeof Worker === "undefined") {
+      workerCount = 1;
+      self.postMessage({
+        type: "trainingWorkers",
+        count: 1,
+        sharedMemory: false,
+        error: "This browser can't start workers from a worker",
+      });
+      return;
+    }
+    shards = new TrainingShards(
+      workerCount,
+      {
+        inputEncoder: network.getInputEncoder(),
+        architecture,
+        omega0,
+        backend,
+        loss: lossConfig,
+        colorSpace,
+        samplingMode,
+        seed,
+        imageData,
+        width: imageWidth,
+        height: imageHeight,
+        importance: samplingWeights,
+      },
+      network.getParams().length,
+    );
+  }
+
+  self.postMessage({
+    type: "trainingWorkers",
+    count: shards?.count ?? 1,
+    sharedMemory: shards !== null && canShareMemory(),
+    error,
+  });
 }
 
-function trainingLoop() {
-  if (!isTraining || !network) return;
+function startTrainingLoop() {
+  isTraining = true;
+  lastLoopTime = 0;
+  trainingRun++;
+  if (autoencoder) {
+    autoencoderTrainingLoop(trainingRun);
+  } else {
+    trainingLoop(trainingRun);
+  }
+}
+
+// Throughput over the tick that just ran `iterations` iterations, smoothed
+// so the readout doesn't jitter. Returns the tick's end time.
+function updateThroughput(iterations: number): number {
+  const now = performance.now();
+  if (lastLoopTime > 0 && now > lastLoopTime) {
+    const rate = (iterations * 1000) / (now - lastLoopTime);
+    iterationsPerSecond =
+      iterationsPerSecond === 0 ? rate : iterationsPerSecond * 0.9 + rate * 0.1;
+  }
+  lastLoopTime = now;
+  return now;
+}
+
+async function trainingLoop(run: number) {
+  if (!isTraining || !network || run !== trainingRun) return;
 
   // Train many batches per frame for speed (like convnetjs does ~50 per tick)
   const batchesPerFrame = 50;
   let totalLoss = 0;
 
   for (let i = 0; i < batchesPerFrame; i++) {
-    totalLoss += trainBatch();
+    if (shards) {
+      const active = shards;
+      try {
+        totalLoss += await trainShardedBatch(active, network);
+      } catch (error) {
+        if (run !== trainingRun || !isTraining) return;
+        // A shard worker failed - carry on training on this worker. Shards
+        // replaced on purpose (new worker count or settings) are stopped
+        // mid-step too; then only this step runs here and the new ones
+        // take over.
+        if (active === shards) {
+          console.error("Training worker failed", error);
+          workerCount = 1;
+          restartShards(String(error));
+        }
+        totalLoss += trainBatch();
+      }
+      // Stopped, restarted or reset while waiting on the shards
+      if (run !== trainingRun || !isTraining || !network) return;
+    } else {
+      totalLoss += trainBatch();
+    }
     iteration++;
   }
 
   const avgLoss = totalLoss / batchesPerFrame;
+  lastLoss = avgLoss;
+
+  // Follow the fit: once the hard pixels improve, others take their place
+  if (
+    samplingMode === "error" &&
+    (errorWeightsIteration === null ||
+      iteration - errorWeightsIteration >= ERROR_REFRESH_INTERVAL)
+  ) {
+    updateSamplingWeights();
+  }
+
+  const now = updateThroughput(batchesPerFrame);
 
   // Check if we should capture a snapshot
   // Since iterations jump by batchesPerFrame (50), we need to check if we've crossed a milestone
   if (captureSnapshotsEnabled && network && snapshotMilestones.length > 0) {
     const nextMilestone = snapshotMilestones[snapshots.length];
     if (nextMilestone !== undefined && iteration >= nextMilestone) {
-      snapshots.push(network.createSnapshot(iteration, avgLoss, learningRate));
+      // Every snapshot is measured as it's taken
+      measureNetwork();
+      snapshots.push(
+        network.createSnapshot(
+          iteration,
+          avgLoss,
+          learningRate,
+          imageMetrics ?? undefined,
+        ),
+      );
       self.postMessage({
         type: "snapshotCaptured",
         count: snapshots.length,
@@ -342,10 +391,21 @@ function trainingLoop() {
         iteration: iteration,
         mse: avgLoss,
         learningRate: learningRate,
+        metrics: imageMetrics,
+        loss: lossConfig,
+        architecture,
+        seed,
       });
     }
   }
 
+  if (
+    metricsIteration === null ||
+    iteration - metricsIteration >= METRICS_INTERVAL
+  ) {
+    measureNetwork();
+  }
+
   // Check if we've reached max iterations
   if (autoGenerateGif && iteration >= maxIterations) {
     isTraining = false;
@@ -361,28 +421,10 @@ function trainingLoop() {
     return; // Exit training loop
   }
 
-  // Track loss history and adapt learning rate
-  lossHistory.push(avgLoss);
-  if (lossHistory.length > LOSS_HISTORY_SIZE) {
-    lossHistory.shift();
-  }
-
-  // Check if we should decay learning rate (every LOSS_HISTORY_SIZE iterations)
-  if (
-    lossHistory.length === LOSS_HISTORY_SIZE &&
-    learningRate > minLearningRate
-  ) {
-    const oldLoss = lossHistory[0];
-    const newLoss = lossHistory[LOSS_HISTORY_SIZE - 1];
-    const relativeImprovement = (oldLoss - newLoss) / oldLoss;
-
-    // If improvement is below threshold, decay learning rate
-    if (relativeImprovement < DECAY_THRESHOLD) {
-      learningRate = Math.max(minLearningRate, learningRate * DECAY_FACTOR);
-      network.setLearningRate(learningRate);
-      // Clear history to give new LR time to work
-      lossHistory = [];
-    }
+  // Advance the learning-rate schedule
+  if (scheduler) {
+    learningRate = scheduler.update(iteration, avgLoss);
+    network.setLearningRate(learningRate);
   }
 
   // Send progress update
@@ -398,8 +440,15 @@ function trainingLoop() {
     loss: avgLoss,
     learningRate: network.getLearningRate(),
     iterationsUntilNext: iterationsUntilNext,
+    epoch: shards ? shards.epoch : (sampler?.epoch ?? 0),
+    iterationsPerSecond,
+    metrics: imageMetrics,
   });
 
+  if (now - lastCheckpointTime >= CHECKPOINT_INTERVAL_MS) {
+    autosaveCheckpoint();
+  }
+
   // Render if requested
   if (renderRequested && network) {
     renderRequested = false;
@@ -416,19 +465,453 @@ function trainingLoop() {
   }
 
   // Continue training
-  setTimeout(trainingLoop, 0);
+  setTimeout(() => trainingLoop(run), 0);
+}
+
+// Autoencoder counterpart of trainingLoop: every iteration is one step over
+// the whole image set, so an epoch is an iteration. Renders post every
+// reconstruction at once.
+function autoencoderTrainingLoop(run: number) {
+  if (!isTraining || !autoencoder || run !== trainingRun) return;
+
+  const start = performance.now();
+  let totalLoss = 0;
+  let steps = 0;
+  do {
+    totalLoss += autoencoder.train(autoencoderImages, autoencoderImageCount);
+    steps++;
+    iteration++;
+  } while (performance.now() - start < AUTOENCODER_TICK_MS);
+
+  lastLoss = totalLoss / steps;
+  updateThroughput(steps);
+
+  self.postMessage({
+    type: "progress",
+    iteration,
+    loss: lastLoss,
+    learningRate: autoencoder.getLearningRate(),
+    iterationsUntilNext: null,
+    epoch: iteration,
+    iterationsPerSecond,
+    metrics: null,
+  });
+
+  if (renderRequested) {
+    renderRequested = false;
+    postReconstructions();
+  }
+
+  setTimeout(() => autoencoderTrainingLoop(run), 0);
+}
+
+// Decode every image of the set from its latent vector
+function postReconstructions() {
+  if (!autoencoder) return;
+  const frames: Uint8ClampedArray[] = [];
+  for (let i = 0; i < autoencoderImageCount; i++) {
+    frames.push(autoencoder.decode(autoencoder.encode(autoencoderImages, i)));
+  }
+  self.postMessage(
+    {
+      type: "render",
+      frames,
+      width: autoencoder.imageSize,
+      height: autoencoder.imageSize,
+    },
+    { transfer: frames.map((frame) => frame.buffer) },
+  );
+}
+
+// Frames morphing image `from` of the set into image `to` by decoding
+// evenly spaced points on the line between their latent vectors, played
+// there and back like the painting journey
+function generateLatentMorph(from: number, to: number, frameCount: number) {
+  if (!autoencoder) {
+    self.postMessage({ type: "gifError", message: "Autoencoder not initialized" });
+    return;
+  }
+  if (
+    !(from >= 0 && from < autoencoderImageCount) ||
+    !(to >= 0 && to < autoencoderImageCount)
+  ) {
+    self.postMessage({ type: "gifError", message: "No such image in the set" });
+    return;
+  }
+
+  const start = autoencoder.encode(autoencoderImages, from);
+  const end = autoencoder.encode(autoencoderImages, to);
+  const latent = new Float32Array(start.length);
+  const steps = Math.max(2, Math.round(frameCount));
+  const frames: Uint8ClampedArray[] = [];
+  for (let i = 0; i < steps; i++) {
+    const t = i / (steps - 1);
+    for (let k = 0; k < latent.length; k++) {
+      latent[k] = start[k] + (end[k] - start[k]) * t;
+    }
+    frames.push(autoencoder.decode(latent));
+  }
+
+  // Back again, skipping the endpoints so they don't linger
+  for (let i = steps - 2; i > 0; i--) {
+    frames.push(new Uint8ClampedArray(frames[i]));
+  }
+
+  self.postMessage(
+    {
+      type: "gifFrames",
+      frames,
+      width: autoencoder.imageSize,
+      height: autoencoder.imageSize,
+    },
+    { transfer: frames.map((frame) => frame.buffer) },
+  );
+}
+
+// Schedule starting from the initial learning rate at the current iteration
+function createScheduler(): LearningRateScheduler {
+  return new LearningRateScheduler(
+    schedulerConfig,
+    {
+      baseLearningRate: initialLearningRate,
+      minLearningRate,
+      totalIterations: maxIterations,
+    },
+    iteration,
+  );
 }
 
 function createNetwork(): NeuralNetwork {
-  return new NeuralNetwork({
-    inputSize: 2,
-    // 7 hidden layers with 20 neurons each (like convnetjs)
-    hiddenLayers: [20, 20, 20, 20, 20, 20, 20],
+  // Encoder frequencies and weights share the init stream, in that order
+  const random = createRandom(deriveSeed(seed, WEIGHT_INIT_STREAM));
+  const created = new NeuralNetwork({
+    inputEncoder: createInputEncoder(inputEncoding, random),
+    architecture,
     outputSize: 3,
     learningRate,
     momentum,
-    l2Decay: 0.0,
+    optimizer,
+    loss: lossConfig,
+    colorSpace,
+    embeddings:
+      imageSet && !clip
+        ? { size: embeddingSize, count: imageSet.length }
+        : undefined,
+    time:
+      imageSet && clip
+        ? { frameCount: imageSet.length, octaves: DEFAULT_TIME_OCTAVES }
+        : undefined,
+    omega0,
+    backend,
+    random,
   });
+  created.setRenderImages(activeImage, blendImage, blendAmount);
+  created.setRenderTime(clipTime);
+  return created;
+}
+
+// Show (and measure against) image `index` of the set
+function showImage(index: number) {
+  if (!imageSet) return;
+  activeImage = index;
+  localShard = imageSet[index];
+  imageData = localShard.data;
+  imageWidth = localShard.width;
+  imageHeight = localShard.height;
+}
+
+// Rebuild the network around saved weights. Fourier frequencies come with
+// the weights, since the input layer was trained against them.
+function restoreNetwork(
+  params: Float32Array,
+  frequencies: Float64Array | null,
+): NeuralNetwork {
+  const restored = createNetwork();
+  restored.restoreSnapshot({
+    iteration,
+    mse: lastLoss,
+    learningRate,
+    params,
+    inputEncoder: createInputEncoder(
+      inputEncoding,
+      createRandom(seed),
+      frequencies ?? undefined,
+    ),
+    architecture,
+    omega0,
+    colorSpace,
+    embeddings: restored.getEmbeddings() ?? undefined,
+    time: restored.getTime() ?? undefined,
+  });
+  return restored;
+}
+
+function createSampler(): PixelSampler {
+  const created = new PixelSampler(
+    imageSet ? imageSetPixelCount(imageSet) : imageWidth * imageHeight,
+    samplingMode,
+    createRandom(deriveSeed(seed, SAMPLING_STREAM)),
+  );
+  created.setWeights(samplingWeights);
+  return created;
+}
+
+// Score a full render of the current network against the training image
+function measureNetwork() {
+  if (!network || !imageData) return;
+  const rendered = network.renderToBuffer(imageWidth, imageHeight);
+  imageMetrics = measureImage(rendered, imageData, imageWidth, imageHeight);
+  metricsIteration = iteration;
+}
+
+// Forget the metrics of a network that has been replaced
+function clearImageMetrics() {
+  imageMetrics = null;
+  metricsIteration = null;
+}
+
+// Per-pixel sampling weights for a painted mask (null = uniform)
+function maskImportance(mask: ImportanceMask | null): Float32Array | null {
+  if (!mask) return null;
+  const weights = new Float32Array(mask.mask.length);
+  for (let i = 0; i < weights.length; i++) {
+    weights[i] = mask.mask[i] ? mask.emphasis : 1;
+  }
+  return weights;
+}
+
+// Recompute the sampling weights from the mask and, in "error" mode, a full
+// render of the current network, and hand them to every sampler
+function updateSamplingWeights() {
+  // Weights cover one image; a set is sampled uniformly
+  samplingWeights = imageSet ? null : importance;
+  errorWeightsIteration = null;
+  if (samplingMode === "error" && network && imageData && !imageSet) {
+    const rendered = network.renderToBuffer(imageWidth, imageHeight);
+    samplingWeights = errorWeights(pixelErrors(rendered, imageData), importance);
+    errorWeightsIteration = iteration;
+  }
+  sampler?.setWeights(samplingWeights);
+  shards?.setImportance(samplingWeights);
+  postSamplingHeatmap();
+}
+
+// Show where the samplers are drawing from (null buffer = uniform, which
+// shuffled epochs always are)
+function postSamplingHeatmap() {
+  if (!samplingWeights || samplingMode === "epoch") {
+    self.postMessage({ type: "samplingHeatmap", buffer: null });
+    return;
+  }
+  const buffer = heatmapImage(samplingWeights);
+  self.postMessage(
+    {
+      type: "samplingHeatmap",
+      buffer,
+      width: imageWidth,
+      height: imageHeight,
+    },
+    { transfer: [buffer.buffer] },
+  );
+}
+
+function createRunId(): string {
+  const suffix = Math.floor(Math.random() * 2 ** 32).toString(36);
+  return `${Date.now().toString(36)}-${suffix}`;
+}
+
+// Everything needed to carry on training exactly where it is now
+function createCheckpoint(): TrainingCheckpoint | null {
+  if (!network || !scheduler || !sampler || !imageData || imageSet) return null;
+  return {
+    runId,
+    savedAt: Date.now(),
+    iteration,
+    loss: lastLoss,
+    settings: {
+      learningRate: initialLearningRate,
+      minLearningRate,
+      momentum,
+      optimizer,
+      loss: lossConfig,
+      scheduler: schedulerConfig,
+      maxIterations,
+      batchSize,
+      batchMode,
+      samplingMode,
+      inputEncoding,
+      architecture,
+      omega0,
+      colorSpace,
+      backend,
+      workerCount,
+      seed,
+    },
+    params: new Float32Array(network.getParams()),
+    frequencies: network.getInputEncoder().frequencies,
+    optimizerState: network.getOptimizerState(),
+    schedulerState: scheduler.getState(),
+    samplerState: sampler.getState(),
+    importanceMask,
+    samplingWeights: samplingWeights && new Float32Array(samplingWeights),
+    errorWeightsIteration,
+    image: {
+      data: new Uint8ClampedArray(imageData),
+      width: imageWidth,
+      height: imageHeight,
+    },
+  };
+}
+
+// Persist a checkpoint of the current run. Rejects on storage errors.
+async function writeCheckpoint() {
+  if (imageSet) throw new Error("Checkpoints cover single-image training only");
+  const checkpoint = createCheckpoint();
+  if (!checkpoint) throw new Error("Network not initialized");
+  lastCheckpointTime = performance.now();
+  await saveCheckpoint(checkpoint);
+  savedCheckpoint = summarizeCheckpoint(checkpoint);
+  self.postMessage({ type: "checkpointSaved", checkpoint: savedCheckpoint });
+}
+
+// Periodic save while training. Leaves a further-along checkpoint from
+// another run alone, so reloading the page (which starts a fresh run) can't
+// overwrite a long run before it has been resumed.
+function autosaveCheckpoint() {
+  if (!network || imageSet || !isCheckpointStorageAvailable()) return;
+  if (
+    savedCheckpoint &&
+    savedCheckpoint.runId !== runId &&
+    savedCheckpoint.iteration > iteration
+  ) {
+    lastCheckpointTime = performance.now();
+    return;
+  }
+  writeCheckpoint().catch((error) =>
+    console.error("Checkpoint autosave failed", error),
+  );
+}
+
+// Replace the current run with a saved one
+function resumeCheckpoint(checkpoint: TrainingCheckpoint) {
+  const settings = checkpoint.settings;
+  isTraining = false;
+  trainingRun++;
+  initialLearningRate = settings.learningRate;
+  minLearningRate = settings.minLearningRate;
+  momentum = settings.momentum;
+  optimizer = settings.optimizer;
+  schedulerConfig = settings.scheduler;
+  maxIterations = settings.maxIterations;
+  batchSize = settings.batchSize;
+  batchMode = settings.batchMode;
+  samplingMode = settings.samplingMode;
+  inputEncoding = settings.inputEncoding;
+  architecture = settings.architecture;
+  omega0 = settings.omega0;
+  colorSpace = settings.colorSpace ?? "rgb";
+  lossConfig = lossForColorSpace(settings.loss ?? DEFAULT_LOSS, colorSpace);
+  backend = settings.backend;
+  workerCount = settings.workerCount;
+  seed = settings.seed;
+  runId = checkpoint.runId;
+  iteration = checkpoint.iteration;
+  lastLoss = checkpoint.loss;
+  clearImageMetrics();
+
+  scheduler = createScheduler();
+  scheduler.restoreState(checkpoint.schedulerState);
+  learningRate = scheduler.current();
+
+  imageSet = null;
+  clip = false;
+  imageData = new Uint8ClampedArray(checkpoint.image.data);
+  imageWidth = checkpoint.image.width;
+  imageHeight = checkpoint.image.height;
+  localShard = {
+    data: imageData,
+    width: imageWidth,
+    height: imageHeight,
+    shardIndex: 0,
+    shardCount: 1,
+    colorSpace,
+  };
+  importanceMask = checkpoint.importanceMask ?? null;
+  importance = maskImportance(importanceMask);
+  samplingWeights = checkpoint.samplingWeights ?? importance;
+  errorWeightsIteration = checkpoint.errorWeightsIteration ?? null;
+  sampler = createSampler();
+  sampler.restoreState(checkpoint.samplerState);
+
+  network = restoreNetwork(checkpoint.params, checkpoint.frequencies);
+  network.setOptimizerState(checkpoint.optimizerState);
+  snapshotRenderer = null;
+  snapshots = [];
+  captureSnapshotsEnabled = false;
+  lastCheckpointTime = performance.now();
+  restartShards();
+  // Checkpoints from before the error weights were kept measure them again
+  // from the restored fit
+  if (samplingMode === "error" && errorWeightsIteration === null) {
+    updateSamplingWeights();
+  } else {
+    postSamplingHeatmap();
+  }
+}
+
+// Render a snapshot without disturbing the network being trained
+function renderSnapshot(
+  snapshot: NetworkSnapshot,
+  width: number,
+  height: number,
+): Uint8ClampedArray {
+  if (!snapshotRenderer) {
+    snapshotRenderer = createNetwork();
+  }
+  snapshotRenderer.restoreSnapshot(snapshot);
+  return snapshotRenderer.renderToBuffer(width, height);
+}
+
+// Render one tile per task so training and other messages keep running
+// between tiles. The renderer holds a copy of the weights from when the
+// export started, so training on doesn't change the picture mid-way.
+function renderNextTile(
+  job: number,
+  requestId: number,
+  renderer: NeuralNetwork,
+  width: number,
+  height: number,
+  tiles: RenderTile[],
+  index: number,
+) {
+  if (job !== renderJob) return;
+
+  const tile = tiles[index];
+  const buffer = renderer.renderRegion(
+    width,
+    height,
+    tile.left,
+    tile.top,
+    tile.width,
+    tile.height,
+  );
+  self.postMessage(
+    {
+      type: "renderTile",
+      requestId,
+      ...tile,
+      buffer,
+      completed: index + 1,
+      total: tiles.length,
+    },
+    { transfer: [buffer.buffer] },
+  );
+
+  if (index + 1 < tiles.length) {
+    setTimeout(() => {
+      renderNextTile(job, requestId, renderer, width, height, tiles, index + 1);
+    }, 0);
+  }
 }
 
 // Calculate snapshot milestones using logarithmic spacing
@@ -465,8 +948,14 @@ function calculateSnapshotMilestones(
   return milestones;
 }
 
-// Generate all frames for the GIF journey
-function generateGifFrames(width: number, height: number) {
+// Generate all frames for the GIF journey, with `inBetween` frames between
+// consecutive snapshots made by `interpolation`
+function generateGifFrames(
+  width: number,
+  height: number,
+  interpolation: InterpolationMode,
+  inBetween: number,
+) {
   if (!network) {
     self.postMessage({ type: "gifError", message: "Network not initialized" });
     return;
@@ -481,9 +970,25 @@ function generateGifFrames(width: number, height: number) {
   }
 
   // 1. Progressive iterations (forward)
-  for (const snapshot of [...snapshots].reverse()) {
-    network.restoreSnapshot(snapshot);
-    const buffer = network.renderToBuffer(width, height);
+  const steps = interpolation === "none" ? 0 : inBetween;
+  const ordered = [...snapshots].reverse();
+  for (const [i, snapshot] of ordered.entries()) {
+    const buffer = renderSnapshot(snapshot, width, height);
+    const previous = frames[frames.length - 1];
+    for (let k = 1; k <= steps && i > 0; k++) {
+      const t = k / (steps + 1);
+      if (interpolation === "crossfade") {
+        frames.push(morphFrames(previous, buffer, t));
+      } else if (interpolation !== "none") {
+        const between = interpolateSnapshot(
+          ordered[i - 1],
+          snapshot,
+          t,
+          interpolation,
+        );
+        frames.push(renderSnapshot(between, width, height));
+      }
+    }
     frames.push(buffer);
   }
 
@@ -501,6 +1006,39 @@ function generateGifFrames(width: number, height: number) {
   });
 }
 
+// Render `frameCount` frames evenly spread over the clip with the current
+// weights, for an animated GIF of what the network has learned
+function generateClipFrames(
+  width: number,
+  height: number,
+  frameCount: number,
+  fps: number,
+) {
+  if (!network || !clip) {
+    self.postMessage({ type: "gifError", message: "No clip loaded" });
+    return;
+  }
+  if (!Number.isInteger(frameCount) || frameCount < 2) {
+    self.postMessage({
+      type: "gifError",
+      message: "A clip GIF needs at least 2 frames",
+    });
+    return;
+  }
+
+  const frames: Uint8ClampedArray[] = [];
+  for (let i = 0; i < frameCount; i++) {
+    network.setRenderTime(frameToTime(i, frameCount));
+    frames.push(network.renderToBuffer(width, height));
+  }
+  network.setRenderTime(clipTime);
+
+  self.postMessage(
+    { type: "gifFrames", frames, width, height, fps },
+    { transfer: frames.map((frame) => frame.buffer) },
+  );
+}
+
 // Handle messages from main thread
 self.onmessage = (e: MessageEvent) => {
   const { type, ...data } = e.data;
@@ -508,28 +1046,203 @@ self.onmessage = (e: MessageEvent) => {
   switch (type) {
     case "init": {
       initialLearningRate = data.learningRate;
-      learningRate = data.learningRate;
       momentum = data.momentum ?? 0.9;
+      optimizer = { ...DEFAULT_OPTIMIZER, ...data.optimizer };
+      lossConfig = { ...DEFAULT_LOSS, ...data.loss };
       batchSize = data.batchSize ?? 5;
-      minLearningRate = data.minLearningRate ?? 0.0001;
-      network = createNetwork();
-      imageData = new Uint8ClampedArray(data.imageData);
-      imageWidth = data.width;
-      imageHeight = data.height;
+      batchMode = data.batchMode ?? batchMode;
+      samplingMode = data.samplingMode ?? samplingMode;
+      minLearningRate = data.minLearningRate ?? DEFAULT_MIN_LEARNING_RATE;
+      maxIterations = data.maxIterations ?? maxIterations;
+      schedulerConfig = { ...DEFAULT_SCHEDULER, ...data.scheduler };
       iteration = 0;
+      lastLoss = 0;
+      clearImageMetrics();
+      scheduler = createScheduler();
+      learningRate = scheduler.current();
+      inputEncoding = { ...DEFAULT_INPUT_ENCODING, ...data.inputEncoding };
+      architecture = data.architecture ?? DEFAULT_ARCHITECTURE;
+      omega0 = data.omega0 ?? DEFAULT_OMEGA_0;
+      colorSpace = data.colorSpace ?? colorSpace;
+      lossConfig = lossForColorSpace(lossConfig, colorSpace);
+      backend = data.backend ?? backend;
+      seed = data.seed ?? randomSeed();
+      // With `images` ({ imageData, width, height } each) one network
+      // learns them all, showing `activeImage`. With `clip` they are the
+      // frames of a clip, learned as (x, y, t) -> rgb.
+      imageSet = null;
+      activeImage = 0;
+      blendImage = 0;
+      blendAmount = 0;
+      clip = Boolean(data.clip && data.images?.length);
+      clipTime = -1;
+      if (data.images?.length) {
+        embeddingSize = data.embeddingSize ?? DEFAULT_EMBEDDING_SIZE;
+        const images: SetImage[] = data.images;
+        imageSet = images.map((image) => ({
+          data: new Uint8ClampedArray(image.imageData),
+          width: image.width,
+          height: image.height,
+          shardIndex: 0,
+          shardCount: 1,
+          colorSpace,
+        }));
+        showImage(Math.min(data.activeImage ?? 0, data.images.length - 1));
+        blendImage = activeImage;
+      } else {
+        imageData = new Uint8ClampedArray(data.imageData);
+        imageWidth = data.width;
+        imageHeight = data.height;
+        localShard = {
+          data: imageData,
+          width: imageWidth,
+          height: imageHeight,
+          shardIndex: 0,
+          shardCount: 1,
+          colorSpace,
+        };
+      }
+      network = createNetwork();
+      autoencoder = null;
+      snapshotRenderer = null;
+      importanceMask = null;
+      importance = null;
+      samplingWeights = null;
+      sampler = createSampler();
+      workerCount = data.workerCount ?? workerCount;
       isTraining = false;
-      lossHistory = [];
-      self.postMessage({ type: "ready" });
+      runId = createRunId();
+      lastCheckpointTime = performance.now();
+      restartShards();
+      updateSamplingWeights();
+      // Report the backend actually in use (WASM may have fallen back to JS)
+      self.postMessage({
+        type: "ready",
+        backend: network.getBackendType(),
+        seed,
+      });
+      break;
+    }
+
+    // Switch to autoencoder mode: `images` are RGBA, AUTOENCODER_IMAGE_SIZE
+    // pixels square. Answers with "ready" and the first reconstructions.
+    case "initAutoencoder": {
+      const images: Uint8ClampedArray[] = data.images;
+      isTraining = false;
+      trainingRun++;
+      shards?.terminate();
+      shards = null;
+      network = null;
+      scheduler = null;
+      snapshots = [];
+      captureSnapshotsEnabled = false;
+      iteration = 0;
+      lastLoss = 0;
+      iterationsPerSecond = 0;
+      learningRate = data.learningRate ?? DEFAULT_AUTOENCODER_LEARNING_RATE;
+      backend = data.backend ?? backend;
+      seed = data.seed ?? randomSeed();
+      autoencoder = new Autoencoder({
+        imageSize: AUTOENCODER_IMAGE_SIZE,
+        hiddenSize: AUTOENCODER_HIDDEN_SIZE,
+        latentSize: data.latentSize ?? DEFAULT_LATENT_SIZE,
+        learningRate,
+        backend,
+        random: createRandom(deriveSeed(seed, WEIGHT_INIT_STREAM)),
+      });
+      autoencoderImageCount = images.length;
+      autoencoderImages = new Float32Array(
+        images.length * autoencoder.pixelValues,
+      );
+      for (const [i, image] of images.entries()) {
+        imageToRow(image, autoencoderImages, i);
+      }
+
+      self.postMessage({
+        type: "ready",
+        backend: autoencoder.getBackendType(),
+        seed,
+        parameterCount: autoencoder.parameterCount,
+      });
+      postReconstructions();
       break;
     }
 
+    // Works mid-training too: the morph uses the weights as they are now
+    case "latentMorph":
+      generateLatentMorph(data.from, data.to, data.frameCount);
+      break;
+
+    // Show another image of the set (or a blend of two) without touching
+    // the training: only the embedding the renders use changes
+    case "selectImage": {
+      if (!imageSet || clip || !network) break;
+      const last = imageSet.length - 1;
+      showImage(Math.max(0, Math.min(last, data.index)));
+      blendImage = Math.max(0, Math.min(last, data.blendWith ?? activeImage));
+      blendAmount = Math.max(0, Math.min(1, data.amount ?? 0));
+      network.setRenderImages(activeImage, blendImage, blendAmount);
+      snapshotRenderer?.setRenderImages(activeImage, blendImage, blendAmount);
+      // Metrics describe the image on show
+      clearImageMetrics();
+      measureNetwork();
+
+      const buffer = network.renderToBuffer(imageWidth, imageHeight);
+      self.postMessage(
+        {
+          type: "render",
+          buffer,
+          width: imageWidth,
+          height: imageHeight,
+        },
+        { transfer: [buffer.buffer] },
+      );
+      break;
+    }
+
+    // Scrub a clip to time `time` in [-1, 1]: renders and metrics follow,
+    // training carries on over every frame
+    case "setTime": {
+      if (!imageSet || !clip || !network) break;
+      clipTime = Math.max(-1, Math.min(1, data.time));
+      const last = imageSet.length - 1;
+      showImage(Math.round(((clipTime + 1) / 2) * last));
+      network.setRenderTime(clipTime);
+      snapshotRenderer?.setRenderTime(clipTime);
+      clearImageMetrics();
+      measureNetwork();
+
+      const buffer = network.renderToBuffer(imageWidth, imageHeight);
+      self.postMessage(
+        {
+          type: "render",
+          buffer,
+          width: imageWidth,
+          height: imageHeight,
+        },
+        { transfer: [buffer.buffer] },
+      );
+      break;
+    }
+
+    // Animated GIF of the learned clip, `frameCount` frames at `fps`
+    case "clipGif":
+      generateClipFrames(
+        imageWidth,
+        imageHeight,
+        data.frameCount,
+        data.fps ?? 10,
+      );
+      break;
+
     case "start":
-      isTraining = true;
-      trainingLoop();
+      startTrainingLoop();
       break;
 
     case "stop":
       isTraining = false;
+      // Pausing is a natural point to save
+      autosaveCheckpoint();
       break;
 
     case "render":
@@ -537,9 +1250,25 @@ self.onmessage = (e: MessageEvent) => {
       break;
 
     case "setLearningRate":
+      // Rebase the schedule on the new rate
+      initialLearningRate = data.learningRate;
       learningRate = data.learningRate;
+      if (scheduler) {
+        scheduler.setBaseLearningRate(data.learningRate, iteration);
+        learningRate = scheduler.current();
+      }
       if (network) {
-        network.setLearningRate(data.learningRate);
+        network.setLearningRate(learningRate);
+      }
+      autoencoder?.setLearningRate(learningRate);
+      break;
+
+    case "setScheduler":
+      schedulerConfig = { ...DEFAULT_SCHEDULER, ...data.scheduler };
+      scheduler = createScheduler();
+      learningRate = scheduler.current();
+      if (network) {
+        network.setLearningRate(learningRate);
       }
       break;
 
@@ -550,20 +1279,95 @@ self.onmessage = (e: MessageEvent) => {
       }
       break;
 
+    case "setOptimizer":
+      optimizer = { ...DEFAULT_OPTIMIZER, ...data.optimizer };
+      if (network) {
+        network.setOptimizer(optimizer);
+      }
+      break;
+
+    // Takes effect from the next batch, like the optimizer settings
+    case "setLoss":
+      lossConfig = lossForColorSpace(
+        { ...DEFAULT_LOSS, ...data.loss },
+        colorSpace,
+      );
+      network?.setLoss(lossConfig);
+      shards?.setLoss(lossConfig);
+      break;
+
     case "setBatchSize":
       batchSize = data.batchSize;
       break;
 
+    case "setBatchMode":
+      batchMode = data.batchMode;
+      break;
+
+    case "setSamplingMode":
+      samplingMode = data.samplingMode;
+      sampler?.setMode(samplingMode);
+      shards?.setSamplingMode(samplingMode);
+      updateSamplingWeights();
+      break;
+
+    case "setImportanceMask": {
+      // One byte per pixel, non-zero inside the painted region, which is
+      // sampled `emphasis` times as often as the rest
+      const mask: Uint8Array | null = data.mask;
+      importanceMask =
+        mask?.length === imageWidth * imageHeight && mask.some((v) => v)
+          ? { mask: new Uint8Array(mask), emphasis: data.emphasis }
+          : null;
+      importance = maskImportance(importanceMask);
+      updateSamplingWeights();
+      break;
+    }
+
+    case "setWorkerCount":
+      workerCount = data.workerCount;
+      restartShards();
+      break;
+
     case "reset":
       isTraining = false;
       iteration = 0;
-      // Reset learning rate to initial value
-      learningRate = data.learningRate ?? initialLearningRate;
-      initialLearningRate = learningRate;
+      lastLoss = 0;
+      clearImageMetrics();
+      // Reset learning rate to initial value and restart the schedule
+      initialLearningRate = data.learningRate ?? initialLearningRate;
+      if (data.scheduler) {
+        schedulerConfig = { ...DEFAULT_SCHEDULER, ...data.scheduler };
+      }
+      scheduler = createScheduler();
+      learningRate = scheduler.current();
       momentum = data.momentum ?? momentum;
-      lossHistory = [];
+      if (data.optimizer) {
+        optimizer = { ...DEFAULT_OPTIMIZER, ...data.optimizer };
+      }
+      if (data.loss) {
+        lossConfig = { ...DEFAULT_LOSS, ...data.loss };
+      }
+      if (data.inputEncoding) {
+        inputEncoding = { ...DEFAULT_INPUT_ENCODING, ...data.inputEncoding };
+      }
+      architecture = data.architecture ?? architecture;
+      omega0 = data.omega0 ?? omega0;
+      colorSpace = data.colorSpace ?? colorSpace;
+      lossConfig = lossForColorSpace(lossConfig, colorSpace);
+      backend = data.backend ?? backend;
+      seed = data.seed ?? seed;
       network = createNetwork();
-      self.postMessage({ type: "reset" });
+      if (localShard) localShard.colorSpace = colorSpace;
+      for (const image of imageSet ?? []) image.colorSpace = colorSpace;
+      snapshotRenderer = null;
+      sampler = createSampler();
+      runId = createRunId();
+      lastCheckpointTime = performance.now();
+      restartShards();
+      // The old error weights describe the old network
+      updateSamplingWeights();
+      self.postMessage({ type: "reset", backend: network.getBackendType() });
       break;
 
     case "enableSnapshotCapture": {
@@ -571,6 +1375,7 @@ self.onmessage = (e: MessageEvent) => {
       gifFrameCount = data.frameCount || 50;
       maxIterations = data.maxIterations || 100_000;
       autoGenerateGif = data.autoGenerateGif ?? true;
+      scheduler?.setTotalIterations(maxIterations);
       snapshotMilestones = calculateSnapshotMilestones(
         maxIterations,
         gifFrameCount,
@@ -579,7 +1384,15 @@ self.onmessage = (e: MessageEvent) => {
       snapshots = [];
       // Capture initial state if network exists
       if (network) {
-        snapshots.push(network.createSnapshot(iteration, 0, learningRate));
+        measureNetwork();
+        snapshots.push(
+          network.createSnapshot(
+            iteration,
+            0,
+            learningRate,
+            imageMetrics ?? undefined,
+          ),
+        );
         self.postMessage({
           type: "snapshotCaptured",
           count: snapshots.length,
@@ -587,6 +1400,10 @@ self.onmessage = (e: MessageEvent) => {
           iteration: iteration,
           mse: 0,
           learningRate: learningRate,
+          metrics: imageMetrics,
+          loss: lossConfig,
+          architecture,
+          seed,
         });
       }
       break;
@@ -599,6 +1416,7 @@ self.onmessage = (e: MessageEvent) => {
 
     case "setMaxIterations":
       maxIterations = data.maxIterations;
+      scheduler?.setTotalIterations(maxIterations);
       // Recalculate milestones if snapshot capture is enabled
       if (captureSnapshotsEnabled) {
         snapshotMilestones = calculateSnapshotMilestones(
@@ -621,12 +1439,20 @@ self.onmessage = (e: MessageEvent) => {
         break;
       }
 
-      generateGifFrames(imageWidth, imageHeight);
+      // `morphFrames` in-between frames per gap, made by `interpolation`
+      generateGifFrames(
+        imageWidth,
+        imageHeight,
+        data.interpolation ?? "none",
+        Math.max(
+          0,
+          Math.min(MAX_IN_BETWEEN_FRAMES, Math.floor(data.morphFrames ?? 0)),
+        ),
+      );
 
       // Resume training if it was active
       if (wasTraining) {
-        isTraining = true;
-        trainingLoop();
+        startTrainingLoop();
       }
       break;
     }
@@ -637,8 +1463,7 @@ self.onmessage = (e: MessageEvent) => {
       }
 
       const snapshot = snapshots[data.snapshotIndex];
-      network.restoreSnapshot(snapshot);
-      const buffer = network.renderToBuffer(imageWidth, imageHeight);
+      const buffer = renderSnapshot(snapshot, imageWidth, imageHeight);
 
       self.postMessage(
         {
@@ -650,10 +1475,239 @@ self.onmessage = (e: MessageEvent) => {
           iteration: snapshot.iteration,
           mse: snapshot.mse,
           learningRate: snapshot.learningRate,
+          metrics: snapshot.metrics,
+          architecture: snapshot.architecture,
         },
         { transfer: [buffer.buffer] },
       );
       break;
     }
+
+    case "exportModel": {
+      if (!network) {
+        self.postMessage({
+          type: "modelError",
+          message: "Network not initialized",
+        });
+        break;
+      }
+      if (imageSet) {
+        self.postMessage({
+          type: "modelError",
+          message: "Model files hold single-image networks only",
+        });
+        break;
+      }
+
+      const encoder = network.getInputEncoder();
+      const model = createModelFile({
+        architecture,
+        omega0,
+        inputEncoding: encoder.config,
+        frequencies: encoder.frequencies,
+        coordinates: DEFAULT_COORDINATES,
+        colorSpace,
+        training: {
+          iteration,
+          mse: lastLoss,
+          learningRate,
+          seed,
+          optimizer,
+          loss: lossConfig,
+          width: imageWidth,
+          height: imageHeight,
+        },
+        params: network.getParams(),
+      });
+      self.postMessage({ type: "modelExported", model });
+      break;
+    }
+
+    case "importModel": {
+      let contents: ReturnType<typeof parseModelFile>;
+      try {
+        contents = parseModelFile(data.model);
+      } catch (error) {
+        self.postMessage({
+          type: "modelError",
+          message: error instanceof Error ? error.message : String(error),
+        });
+        break;
+      }
+
+      // Carry on from the imported weights: same layout, schedule and
+      // iteration count, fresh optimizer state
+      isTraining = false;
+      // Model files hold single-image networks: keep the image on show
+      imageSet = null;
+      clip = false;
+      architecture = contents.architecture;
+      inputEncoding = contents.inputEncoding;
+      omega0 = contents.omega0;
+      colorSpace = contents.colorSpace;
+      if (localShard) localShard.colorSpace = colorSpace;
+      seed = contents.training.seed;
+      lossConfig = lossForColorSpace(
+        contents.training.loss ?? DEFAULT_LOSS,
+        colorSpace,
+      );
+      iteration = contents.training.iteration;
+      lastLoss = contents.training.mse;
+      clearImageMetrics();
+      scheduler = createScheduler();
+      learningRate = scheduler.current();
+      network = restoreNetwork(contents.params, contents.frequencies);
+      runId = createRunId();
+      snapshotRenderer = null;
+      snapshots = [];
+      sampler = createSampler();
+      restartShards();
+      updateSamplingWeights();
+
+      self.postMessage({
+        type: "modelImported",
+        architecture,
+        inputEncoding,
+        omega0,
+        colorSpace,
+        seed,
+        iteration,
+        mse: lastLoss,
+        learningRate,
+        loss: lossConfig,
+      });
+
+      // Show the imported network straight away
+      const buffer = network.renderToBuffer(imageWidth, imageHeight);
+      self.postMessage(
+        {
+          type: "render",
+          buffer,
+          width: imageWidth,
+          height: imageHeight,
+        },
+        { transfer: [buffer.buffer] },
+      );
+      break;
+    }
+
+    case "renderAtSize": {
+      const width = Math.round(data.width);
+      const height = Math.round(data.height);
+      if (!network) {
+        self.postMessage({
+          type: "renderError",
+          requestId: data.requestId,
+          message: "Network not initialized",
+        });
+        break;
+      }
+      if (
+        !(width >= 1 && height >= 1) ||
+        width > MAX_RENDER_SIZE ||
+        height > MAX_RENDER_SIZE
+      ) {
+        self.postMessage({
+          type: "renderError",
+          requestId: data.requestId,
+          message: `Size must be between 1 and ${MAX_RENDER_SIZE} pixels per side`,
+        });
+        break;
+      }
+
+      const renderer = createNetwork();
+      renderer.restoreSnapshot(
+        network.createSnapshot(iteration, lastLoss, learningRate),
+      );
+      renderJob++;
+      renderNextTile(
+        renderJob,
+        data.requestId,
+        renderer,
+        width,
+        height,
+        planTiles(width, height),
+        0,
+      );
+      break;
+    }
+
+    case "cancelRender":
+      renderJob++;
+      break;
+
+    case "saveCheckpoint":
+      writeCheckpoint().catch((error) =>
+        self.postMessage({
+          type: "checkpointError",
+          message: error instanceof Error ? error.message : String(error),
+        }),
+      );
+      break;
+
+    case "resumeCheckpoint":
+      loadCheckpoint()
+        .then((checkpoint) => {
+          if (!checkpoint) throw new Error("No saved checkpoint");
+          resumeCheckpoint(checkpoint);
+          if (!network || !imageData) return;
+
+          self.postMessage({
+            type: "checkpointResumed",
+            checkpoint: summarizeCheckpoint(checkpoint),
+            settings: checkpoint.settings,
+            learningRate,
+            epoch: sampler?.epoch ?? 0,
+            backend: network.getBackendType(),
+            imageData: new Uint8ClampedArray(imageData),
+            importanceMask,
+          });
+
+          const buffer = network.renderToBuffer(imageWidth, imageHeight);
+          self.postMessage(
+            {
+              type: "render",
+              buffer,
+              width: imageWidth,
+              height: imageHeight,
+            },
+            { transfer: [buffer.buffer] },
+          );
+        })
+        .catch((error) =>
+          self.postMessage({
+            type: "checkpointError",
+            message: error instanceof Error ? error.message : String(error),
+          }),
+        );
+      break;
+
+    case "discardCheckpoint":
+      deleteCheckpoint()
+        .then(() => {
+          savedCheckpoint = null;
+          self.postMessage({ type: "checkpointAvailable", checkpoint: null });
+        })
+        .catch((error) =>
+          self.postMessage({
+            type: "checkpointError",
+            message: error instanceof Error ? error.message : String(error),
+          }),
+        );
+      break;
   }
 };
+
+// Offer the checkpoint left by a previous session
+if (isCheckpointStorageAvailable()) {
+  loadCheckpoint()
+    .then((checkpoint) => {
+      if (!checkpoint) return;
+      savedCheckpoint = summarizeCheckpoint(checkpoint);
+      self.postMessage({
+        type: "checkpointAvailable",
+        checkpoint: savedCheckpoint,
+      });
+    })
+    .catch((error) => console.error("Failed to read checkpoint", error));
+}
@@ -0,0 +1,36 @@
+// Optimizer settings shared by the UI and the worker
+
+export type OptimizerType = "sgd" | "adam" | "adamw" | "rmsprop";
+
+export interface OptimizerConfig {
+  type: OptimizerType;
+  // Adam/AdamW moment decay rates
+  beta1: number;
+  beta2: number;
+  // RMSProp squared-gradient decay rate
+  rho: number;
+  epsilon: number;
+  // L2 penalty added to the gradient (SGD, Adam, RMSProp) or decoupled
+  // weight decay applied to the weights directly (AdamW)
+  weightDecay: number;
+}
+
+export const DEFAULT_OPTIMIZER: OptimizerConfig = {
+  type: "sgd",
+  beta1: 0.9,
+  beta2: 0.999,
+  rho: 0.99,
+  epsilon: 1e-8,
+  weightDecay: 0,
+};
+
+export const OPTIMIZER_LABELS: Record<OptimizerType, string> = {
+  sgd: "SGD + momentum",
+  adam: "Adam",
+  adamw: "AdamW",
+  rmsprop: "RMSProp",
+};
+
+// How samples in a batch update the weights: averaged into one step, or one
+// step per sample (the original convnetjs behaviour)
+export type BatchMode = "minibatch" | "perSample";
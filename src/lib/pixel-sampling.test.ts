@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+  AliasTable,
+  errorWeights,
+  imageSetPixelCount,
+  PixelSampler,
+  sampleImageSetBatch,
+  shardWeights,
+} from "./pixel-sampling";
+import { createRandom } from "./random";
+
+describe("AliasTable", () => {
+  it("draws indices in proportion to their weights", () => {
+    const weights = [1, 0, 3, 4];
+    const table = new AliasTable(weights);
+    const random = createRandom(1);
+    const counts = [0, 0, 0, 0];
+    const draws = 80_000;
+    for (let i = 0; i < draws; i++) counts[table.sample(random)]++;
+
+    expect(counts[1]).toBe(0);
+    for (const i of [0, 2, 3]) {
+      expect(counts[i] / draws).toBeCloseTo(weights[i] / 8, 2);
+    }
+  });
+});
+
+describe("PixelSampler importance weights", () => {
+  it("favours weighted pixels and goes back to uniform without weights", () => {
+    const sampler = new PixelSampler(100, "replacement", createRandom(2));
+    const weights = new Float32Array(100).fill(1);
+    weights.fill(9, 0, 10);
+    sampler.setWeights(weights);
+
+    let inside = 0;
+    for (let i = 0; i < 10_000; i++) if (sampler.next() < 10) inside++;
+    // 10 pixels at 9x out of a total weight of 180
+    expect(inside / 10_000).toBeCloseTo(0.5, 1);
+
+    sampler.setWeights(null);
+    inside = 0;
+    for (let i = 0; i < 10_000; i++) if (sampler.next() < 10) inside++;
+    expect(inside / 10_000).toBeCloseTo(0.1, 1);
+  });
+
+  it("slices whole-image weights to a shard's pixels", () => {
+    const weights = Float32Array.from({ length: 10 }, (_, i) => i);
+    const shard = {
+      data: new Uint8ClampedArray(0),
+      width: 5,
+      height: 2,
+      shardIndex: 1,
+      shardCount: 3,
+    };
+    expect(Array.from(shardWeights(weights, shard))).toEqual([1, 4, 7]);
+  });
+});
+
+describe("errorWeights", () => {
+  it("weights pixels by error plus a floor, times the importance mask", () => {
+    // Mean error 0.25, so the floor adds 0.025 to every pixel
+    const errors = Float32Array.from([0, 0.5, 0.5, 0]);
+    const importance = Float32Array.from([1, 1, 2, 4]);
+    const weights = Array.from(errorWeights(errors, importance, 0.1));
+    const expected = [0.025, 0.525, 1.05, 0.1];
+    for (const [i, w] of weights.entries()) {
+      expect(w).toBeCloseTo(expected[i], 6);
+    }
+  });
+
+  it("falls back to the mask alone when nothing is wrong", () => {
+    const importance = Float32Array.from([1, 3]);
+    expect(Array.from(errorWeights(new Float32Array(2), importance))).toEqual([
+      1, 3,
+    ]);
+  });
+});
+
+describe("sampleImageSetBatch", () => {
+  it("draws from every image of the set and says which one", () => {
+    // A 2 x 1 red image and a 1 x 2 blue one
+    const image = (width: number, height: number, rgb: number[]) => ({
+      data: Uint8ClampedArray.from(
+        { length: width * height * 4 },
+        (_, i) => [...rgb, 255][i % 4],
+      ),
+      width,
+      height,
+      shardIndex: 0,
+      shardCount: 1,
+    });
+    const images = [image(2, 1, [255, 0, 0]), image(1, 2, [0, 0, 255])];
+    expect(imageSetPixelCount(images)).toBe(4);
+
+    const sampler = new PixelSampler(4, "epoch", createRandom(3));
+    const coords = new Float32Array(8);
+    const targets = new Float32Array(12);
+    const imageIndices = new Uint16Array(4);
+    sampleImageSetBatch(sampler, images, coords, targets, imageIndices, 4);
+
+    // One epoch visits each pixel once: two from each image
+    expect(Array.from(imageIndices).sort()).toEqual([0, 0, 1, 1]);
+    for (const [b, index] of imageIndices.entries()) {
+      const color = Array.from(targets.subarray(b * 3, b * 3 + 3));
+      expect(color).toEqual(index === 0 ? [1, 0, 0] : [0, 0, 1]);
+      // Each image's short side is one pixel, centered on its long side
+      expect(coords[b * 2 + (index === 0 ? 1 : 0)]).toBe(-0.5);
+    }
+  });
+});
@@ -0,0 +1,281 @@
+// Chooses which training pixels go into each batch
+
+import { type ColorSpace, encodeColor } from "./color-spaces";
+import { pixelToCoordinate } from "./image-layout";
+import { createRandom, type Random, type SeededRandom } from "./random";
+
+// "error" draws at random like "replacement", but with weights that follow
+// the reconstruction error (see errorWeights)
+export type SamplingMode = "replacement" | "epoch" | "error";
+
+export const SAMPLING_LABELS: Record<SamplingMode, string> = {
+  replacement: "Random (with replacement)",
+  epoch: "Shuffled epochs (without replacement)",
+  error: "Error-driven (hard pixels more often)",
+};
+
+// Re-weight pixels by their error this often, in iterations
+export const ERROR_REFRESH_INTERVAL = 2000;
+// Every pixel also gets this fraction of the average error, so pixels that
+// are already right keep being visited and can't drift unnoticed
+export const ERROR_FLOOR = 0.1;
+
+// Walker/Vose alias table: draws index i with probability
+// weights[i] / sum(weights) in constant time
+export class AliasTable {
+  private probability: Float32Array;
+  private alias: Uint32Array;
+
+  constructor(weights: ArrayLike<number>) {
+    const n = weights.length;
+    this.probability = new Float32Array(n);
+    this.alias = new Uint32Array(n);
+
+    let total = 0;
+    for (let i = 0; i < n; i++) total += weights[i];
+
+    // Scale so the average weight is 1, then pair each under-full slot with
+    // an over-full one that tops it up
+    const scaled = new Float64Array(n);
+    const small: number[] = [];
+    const large: number[] = [];
+    for (let i = 0; i < n; i++) {
+      scaled[i] = total > 0 ? (weights[i] * n) / total : 1;
+      (scaled[i] < 1 ? small : large).push(i);
+    }
+    while (small.length > 0 && large.length > 0) {
+      const less = small.pop() as number;
+      const more = large.pop() as number;
+      this.probability[less] = scaled[less];
+      this.alias[less] = more;
+      scaled[more] += scaled[less] - 1;
+      (scaled[more] < 1 ? small : large).push(more);
+    }
+    // Whatever is left is full up to rounding error
+    for (const i of large) this.probability[i] = 1;
+    for (const i of small) this.probability[i] = 1;
+  }
+
+  sample(random: Random): number {
+    const i = Math.floor(random() * this.probability.length);
+    return random() < this.probability[i] ? i : this.alias[i];
+  }
+}
+
+// Everything needed to carry on drawing the same pixel sequence
+export interface SamplerState {
+  mode: SamplingMode;
+  epoch: number;
+  cursor: number;
+  // Current epoch's shuffled order (null until the first epoch starts)
+  order: Uint32Array | null;
+  randomState: number;
+}
+
+export class PixelSampler {
+  private pixelCount: number;
+  private mode: SamplingMode;
+  private random: SeededRandom;
+  // Shuffled pixel order for the current epoch
+  private order: Uint32Array | null = null;
+  private cursor = 0;
+  // Importance weights (random modes only; epochs visit every pixel once)
+  private weighted: AliasTable | null = null;
+  epoch = 0;
+
+  constructor(pixelCount: number, mode: SamplingMode, random: SeededRandom) {
+    this.pixelCount = pixelCount;
+    this.mode = mode;
+    this.random = random;
+  }
+
+  setMode(mode: SamplingMode) {
+    this.mode = mode;
+    this.order = null;
+    this.cursor = 0;
+  }
+
+  // Sample pixels in proportion to `weights` (one per pixel), or uniformly
+  // again with null
+  setWeights(weights: ArrayLike<number> | null) {
+    this.weighted = weights ? new AliasTable(weights) : null;
+  }
+
+  getState(): SamplerState {
+    return {
+      mode: this.mode,
+      epoch: this.epoch,
+      cursor: this.cursor,
+      order: this.order ? new Uint32Array(this.order) : null,
+      randomState: this.random.getState(),
+    };
+  }
+
+  restoreState(state: SamplerState) {
+    this.mode = state.mode;
+    this.epoch = state.epoch;
+    this.cursor = state.cursor;
+    this.order =
+      state.order?.length === this.pixelCount
+        ? new Uint32Array(state.order)
+        : null;
+    this.random = createRandom(state.randomState);
+  }
+
+  // Index of the next pixel to train on (y * width + x)
+  next(): number {
+    if (this.mode !== "epoch") {
+      if (this.weighted) return this.weighted.sample(this.random);
+      return Math.floor(this.random() * this.pixelCount);
+    }
+
+    if (!this.order || this.cursor >= this.pixelCount) {
+      this.shuffle();
+    }
+    return (this.order as Uint32Array)[this.cursor++];
+  }
+
+  // Fisher-Yates shuffle so every pixel is seen exactly once per epoch
+  private shuffle() {
+    if (!this.order) {
+      this.order = new Uint32Array(this.pixelCount);
+      for (let i = 0; i < this.pixelCount; i++) this.order[i] = i;
+    } else {
+      this.epoch++;
+    }
+    const order = this.order;
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      const tmp = order[i];
+      order[i] = order[j];
+      order[j] = tmp;
+    }
+    this.cursor = 0;
+  }
+}
+
+// Pixels of one image, split into `shardCount` interleaved shards: shard k
+// owns pixels k, k + shardCount, k + 2 * shardCount, ...
+export interface ImageShard {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+  shardIndex: number;
+  shardCount: number;
+  // Space the targets are given in (default RGB)
+  colorSpace?: ColorSpace;
+}
+
+// Number of pixels a shard owns (the size its PixelSampler should cover)
+export function shardPixelCount(shard: ImageShard): number {
+  return Math.ceil(
+    (shard.width * shard.height - shard.shardIndex) / shard.shardCount,
+  );
+}
+
+// The part of per-pixel `weights` (for the whole image) a shard samples from
+export function shardWeights(
+  weights: Float32Array,
+  shard: ImageShard,
+): Float32Array {
+  const slice = new Float32Array(shardPixelCount(shard));
+  for (let i = 0; i < slice.length; i++) {
+    slice[i] = weights[shard.shardIndex + i * shard.shardCount];
+  }
+  return slice;
+}
+
+// Sampling weights from per-pixel errors (see pixelErrors), plus the floor,
+// times the importance mask if there is one
+export function errorWeights(
+  errors: Float32Array,
+  importance: Float32Array | null,
+  floor = ERROR_FLOOR,
+): Float32Array {
+  let total = 0;
+  for (let i = 0; i < errors.length; i++) total += errors[i];
+  const mean = total / errors.length;
+  // A perfect fit has nothing to go on: fall back to the mask alone
+  const base = mean > 0 ? floor * mean : 1;
+
+  const weights = new Float32Array(errors.length);
+  for (let i = 0; i < errors.length; i++) {
+    weights[i] = (errors[i] + base) * (importance ? importance[i] : 1);
+  }
+  return weights;
+}
+
+// Write pixel `pixel` of an image into row `row` of a training batch:
+// coords gets (x, y) (see pixelToCoordinate), targets gets the color in the
+// image's color space (see encodeColor)
+function writeSample(
+  image: ImageShard,
+  pixel: number,
+  coords: Float32Array,
+  targets: Float32Array,
+  row: number,
+) {
+  const { data, width, height } = image;
+  const longSide = Math.max(width, height);
+  const idx = pixel * 4;
+  coords[row * 2] = pixelToCoordinate(pixel % width, width, longSide);
+  coords[row * 2 + 1] = pixelToCoordinate(
+    Math.floor(pixel / width),
+    height,
+    longSide,
+  );
+  encodeColor(
+    image.colorSpace ?? "rgb",
+    data[idx] / 255,
+    data[idx + 1] / 255,
+    data[idx + 2] / 255,
+    targets,
+    row * 3,
+  );
+}
+
+// Draw `count` pixels from the shard into a training batch, one sample per
+// row (see writeSample)
+export function sampleBatch(
+  sampler: PixelSampler,
+  shard: ImageShard,
+  coords: Float32Array,
+  targets: Float32Array,
+  count: number,
+) {
+  for (let b = 0; b < count; b++) {
+    const pixel = shard.shardIndex + sampler.next() * shard.shardCount;
+    writeSample(shard, pixel, coords, targets, b);
+  }
+}
+
+// Pixels in a set of whole images, end to end: what a sampler for
+// sampleImageSetBatch should cover
+export function imageSetPixelCount(images: ImageShard[]): number {
+  let total = 0;
+  for (const image of images) total += image.width * image.height;
+  return total;
+}
+
+// Draw `count` pixels from a set of whole images (a conditional network's
+// training set) into a batch like sampleBatch, with each sample's image
+// index in `imageIndices`
+export function sampleImageSetBatch(
+  sampler: PixelSampler,
+  images: ImageShard[],
+  coords: Float32Array,
+  targets: Float32Array,
+  imageIndices: Uint16Array,
+  count: number,
+) {
+  for (let b = 0; b < count; b++) {
+    let pixel = sampler.next();
+    let image = 0;
+    while (pixel >= images[image].width * images[image].height) {
+      pixel -= images[image].width * images[image].height;
+      image++;
+    }
+    writeSample(images[image], pixel, coords, targets, b);
+    imageIndices[b] = image;
+  }
+}
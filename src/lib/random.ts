@@ -0,0 +1,45 @@
+// Seedable pseudo-random numbers, so a run can be reproduced exactly from its
+// seed. Everything in the training worker draws from these instead of
+// Math.random.
+
+// Uniform in [0, 1), like Math.random
+export type Random = () => number;
+
+// A Random that can report its position: createRandom(getState()) continues
+// the sequence exactly where this one is, so a checkpointed run resumes
+// drawing the same numbers
+export interface SeededRandom {
+  (): number;
+  getState(): number;
+}
+
+// Independent streams derived from one run seed, so drawing more numbers for
+// one purpose never shifts another
+export const WEIGHT_INIT_STREAM = 1;
+export const SAMPLING_STREAM = 2;
+
+// mulberry32 - 32 bits of state, fast, and plenty for init and sampling
+export function createRandom(seed: number): SeededRandom {
+  let state = seed >>> 0;
+  const random = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return Object.assign(random, { getState: () => state });
+}
+
+// Seed for a sub-stream of `seed` (murmur3 finalizer over the pair)
+export function deriveSeed(seed: number, stream: number): number {
+  let h = (seed ^ Math.imul(stream, 0x9e3779b9)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+// Fresh seed for a new run
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 2 ** 32);
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { createInputEncoder, DEFAULT_INPUT_ENCODING } from "./input-encoding";
+import { DEFAULT_ARCHITECTURE } from "./network-architecture";
+import { createRandom } from "./random";
+import {
+  interpolateSnapshot,
+  lerpParams,
+  slerpParams,
+} from "./snapshot-interpolation";
+import type { NetworkSnapshot } from "./worker-network";
+
+function norm(values: Float32Array): number {
+  return Math.sqrt(values.reduce((sum, value) => sum + value * value, 0));
+}
+
+function createSnapshot(iteration: number, params: number[]): NetworkSnapshot {
+  return {
+    iteration,
+    mse: 0,
+    learningRate: 0.01,
+    params: new Float32Array(params),
+    inputEncoder: createInputEncoder(DEFAULT_INPUT_ENCODING, createRandom(1)),
+    architecture: DEFAULT_ARCHITECTURE,
+    omega0: 30,
+    colorSpace: "rgb",
+  };
+}
+
+describe("lerpParams", () => {
+  it("moves along the straight line between the two vectors", () => {
+    const a = new Float32Array([0, 2, -4]);
+    const b = new Float32Array([4, 2, 0]);
+    expect(Array.from(lerpParams(a, b, 0))).toEqual([0, 2, -4]);
+    expect(Array.from(lerpParams(a, b, 0.25))).toEqual([1, 2, -3]);
+    expect(Array.from(lerpParams(a, b, 1))).toEqual([4, 2, 0]);
+  });
+});
+
+describe("slerpParams", () => {
+  it("keeps the length of equal-length vectors along the arc", () => {
+    const a = new Float32Array([3, 0]);
+    const b = new Float32Array([0, 3]);
+    const halfway = slerpParams(a, b, 0.5);
+    expect(norm(halfway)).toBeCloseTo(3, 5);
+    expect(halfway[0]).toBeCloseTo(halfway[1], 5);
+    // A straight line cuts the corner
+    expect(norm(lerpParams(a, b, 0.5))).toBeLessThan(2.2);
+
+    expect(Array.from(slerpParams(a, b, 0))).toEqual([3, 0]);
+    const end = slerpParams(a, b, 1);
+    expect(end[0]).toBeCloseTo(0, 5);
+    expect(end[1]).toBeCloseTo(3, 5);
+  });
+
+  it("falls back to a straight line for parallel or zero vectors", () => {
+    const a = new Float32Array([1, 1]);
+    const b = new Float32Array([2, 2]);
+    expect(Array.from(slerpParams(a, b, 0.5))).toEqual([1.5, 1.5]);
+    const zero = new Float32Array(2);
+    expect(Array.from(slerpParams(zero, b, 0.5))).toEqual([1, 1]);
+  });
+});
+
+describe("interpolateSnapshot", () => {
+  it("blends the parameters and iteration of two snapshots", () => {
+    const from = createSnapshot(100, [0, 4]);
+    const to = createSnapshot(300, [2, 0]);
+    const halfway = interpolateSnapshot(from, to, 0.5, "linear");
+    expect(halfway.iteration).toBe(200);
+    expect(Array.from(halfway.params)).toEqual([1, 2]);
+    // The snapshots themselves are left alone
+    expect(Array.from(from.params)).toEqual([0, 4]);
+    expect(Array.from(to.params)).toEqual([2, 0]);
+  });
+
+  it("gives the later snapshot when the layouts differ", () => {
+    const from = createSnapshot(100, [0, 4, 1]);
+    const to = createSnapshot(300, [2, 0]);
+    expect(interpolateSnapshot(from, to, 0.5, "spherical")).toBe(to);
+  });
+});
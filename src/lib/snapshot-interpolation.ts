@@ -0,0 +1,84 @@
+// In-between frames for the GIF journey. Snapshots are logarithmically
+// spaced, so consecutive ones can look very different; these fill the gaps
+// either in weight space (render a network part-way between two snapshots)
+// or in pixel space (cross-fade their renders).
+
+import type { NetworkSnapshot } from "./worker-network";
+
+export type InterpolationMode = "none" | "linear" | "spherical" | "crossfade";
+
+export const INTERPOLATION_LABELS: Record<InterpolationMode, string> = {
+  none: "None (snapshots only)",
+  linear: "Linear weight interpolation",
+  spherical: "Spherical weight interpolation",
+  crossfade: "Pixel cross-fade",
+};
+
+export const DEFAULT_IN_BETWEEN_FRAMES = 3;
+export const MAX_IN_BETWEEN_FRAMES = 10;
+
+// Below this angle (radians) between two parameter vectors, slerp is
+// numerically unstable and indistinguishable from lerp
+const SLERP_MIN_ANGLE = 1e-4;
+
+// a + (b - a) * t, element by element
+export function lerpParams(
+  a: Float32Array,
+  b: Float32Array,
+  t: number,
+  out: Float32Array = new Float32Array(a.length),
+): Float32Array {
+  for (let i = 0; i < a.length; i++) out[i] = a[i] + (b[i] - a[i]) * t;
+  return out;
+}
+
+// Spherical interpolation of the whole parameter vector: moves along the
+// arc between the directions of a and b at a constant angular speed, so
+// the in-between networks don't shrink towards zero the way a straight line
+// between two very different weight vectors does
+export function slerpParams(
+  a: Float32Array,
+  b: Float32Array,
+  t: number,
+  out: Float32Array = new Float32Array(a.length),
+): Float32Array {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  const norms = Math.sqrt(normA * normB);
+  if (norms === 0) return lerpParams(a, b, t, out);
+
+  const angle = Math.acos(Math.max(-1, Math.min(1, dot / norms)));
+  if (angle < SLERP_MIN_ANGLE) return lerpParams(a, b, t, out);
+
+  const sin = Math.sin(angle);
+  const weightA = Math.sin((1 - t) * angle) / sin;
+  const weightB = Math.sin(t * angle) / sin;
+  for (let i = 0; i < a.length; i++) out[i] = a[i] * weightA + b[i] * weightB;
+  return out;
+}
+
+// Snapshot `t` of the way from `from` to `to` in weight space. Snapshots
+// with different layouts can't be blended, so that gives `to` unchanged.
+export function interpolateSnapshot(
+  from: NetworkSnapshot,
+  to: NetworkSnapshot,
+  t: number,
+  mode: "linear" | "spherical",
+): NetworkSnapshot {
+  if (from.params.length !== to.params.length) return to;
+  const params =
+    mode === "spherical"
+      ? slerpParams(from.params, to.params, t)
+      : lerpParams(from.params, to.params, t);
+  return {
+    ...to,
+    iteration: Math.round(from.iteration + (to.iteration - from.iteration) * t),
+    params,
+  };
+}
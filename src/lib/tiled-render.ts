@@ -0,0 +1,36 @@
+// Rendering a trained network at any resolution. The network is a
+// continuous function of (x, y), so a bigger output just samples it more
+// densely; large outputs are split into tiles the worker renders one at a
+// time, so it never holds the whole image and stays responsive.
+
+export const RENDER_TILE_SIZE = 256;
+// Largest side the export accepts (browsers cap canvas dimensions and area)
+export const MAX_RENDER_SIZE = 8192;
+
+export interface RenderTile {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Row-major tiles covering a width x height image, so the output fills in
+// top to bottom
+export function planTiles(
+  width: number,
+  height: number,
+  tileSize = RENDER_TILE_SIZE,
+): RenderTile[] {
+  const tiles: RenderTile[] = [];
+  for (let top = 0; top < height; top += tileSize) {
+    for (let left = 0; left < width; left += tileSize) {
+      tiles.push({
+        left,
+        top,
+        width: Math.min(tileSize, width - left),
+        height: Math.min(tileSize, height - top),
+      });
+    }
+  }
+  return tiles;
+}
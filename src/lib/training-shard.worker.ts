@@ -0,0 +1,134 @@
+// Training shard - started by the training worker (neural-network.worker.ts)
+// when training is spread over several workers. Each step it loads the
+// current weights, computes summed gradients for a batch drawn from its own
+// slice of the image and hands them back; the coordinator owns the optimizer.
+
+import { createInputEncoder } from "./input-encoding";
+import { DEFAULT_OPTIMIZER } from "./optimizers";
+import {
+  type ImageShard,
+  PixelSampler,
+  sampleBatch,
+  shardPixelCount,
+  shardWeights,
+} from "./pixel-sampling";
+import { createRandom, deriveSeed, SAMPLING_STREAM } from "./random";
+import { NeuralNetwork } from "./worker-network";
+
+let network: NeuralNetwork | null = null;
+let shard: ImageShard | null = null;
+let sampler: PixelSampler | null = null;
+let batchCoords = new Float32Array(0);
+let batchTargets = new Float32Array(0);
+// Views of the coordinator's SharedArrayBuffers when cross-origin isolated,
+// otherwise weights and gradients travel in the messages
+let sharedParams: Float32Array | null = null;
+let sharedGradients: Float32Array | null = null;
+
+self.onmessage = (e: MessageEvent) => {
+  const { type, ...data } = e.data;
+
+  switch (type) {
+    case "init": {
+      network = new NeuralNetwork({
+        // Encoder frequencies and weights are overwritten by the
+        // coordinator's, so this network's own init doesn't matter
+        inputEncoder: createInputEncoder(
+          data.inputEncoding,
+          createRandom(0),
+          data.frequencies ?? undefined,
+        ),
+        architecture: data.architecture,
+        outputSize: 3,
+        // The coordinator applies the updates, so these are never used
+        learningRate: 0,
+        momentum: 0,
+        optimizer: DEFAULT_OPTIMIZER,
+        loss: data.loss,
+        colorSpace: data.colorSpace,
+        omega0: data.omega0,
+        backend: data.backend,
+        random: createRandom(0),
+      });
+      shard = {
+        data: data.imageData,
+        width: data.width,
+        height: data.height,
+        shardIndex: data.shardIndex,
+        shardCount: data.shardCount,
+        colorSpace: data.colorSpace,
+      };
+      // Every shard samples from its own stream of the run's sampling seed
+      const samplingSeed = deriveSeed(data.seed, SAMPLING_STREAM);
+      sampler = new PixelSampler(
+        shardPixelCount(shard),
+        data.samplingMode,
+        createRandom(deriveSeed(samplingSeed, data.shardIndex + 1)),
+      );
+      if (data.importance) {
+        sampler.setWeights(shardWeights(data.importance, shard));
+      }
+      sharedParams = data.sharedParams
+        ? new Float32Array(data.sharedParams)
+        : null;
+      sharedGradients = data.sharedGradients
+        ? new Float32Array(data.sharedGradients)
+        : null;
+      break;
+    }
+
+    case "setLoss":
+      network?.setLoss(data.loss);
+      break;
+
+    case "setSamplingMode":
+      sampler?.setMode(data.samplingMode);
+      break;
+
+    case "setImportance":
+      if (shard && sampler) {
+        sampler.setWeights(
+          data.weights ? shardWeights(data.weights, shard) : null,
+        );
+      }
+      break;
+
+    case "step": {
+      if (!network || !shard || !sampler) break;
+      const batchSize: number = data.batchSize;
+
+      if (batchCoords.length < batchSize * 2) {
+        batchCoords = new Float32Array(batchSize * 2);
+        batchTargets = new Float32Array(batchSize * 3);
+      }
+      sampleBatch(sampler, shard, batchCoords, batchTargets, batchSize);
+
+      network.setParams(sharedParams ?? data.params);
+      const loss = network.accumulateGradients(
+        batchCoords,
+        batchTargets,
+        0,
+        batchSize,
+      );
+
+      const reply = {
+        type: "gradients",
+        loss,
+        samples: batchSize,
+        epoch: sampler.epoch,
+      };
+      if (sharedGradients) {
+        sharedGradients.set(network.getGradients());
+        self.postMessage(reply);
+      } else {
+        const gradients = network.getGradients().slice();
+        self.postMessage(
+          { ...reply, gradients },
+          { transfer: [gradients.buffer] },
+        );
+      }
+      network.clearGradients();
+      break;
+    }
+  }
+};
@@ -0,0 +1,183 @@
+// Data-parallel training across several workers
+// The training worker keeps the authoritative network and optimizer. Each
+// step, every shard worker computes gradients on its own interleaved slice of
+// the image at the current weights; the sums are added into the network's
+// accumulators and the coordinator applies one averaged update.
+// With cross-origin isolation the weights and gradients live in
+// SharedArrayBuffers; otherwise they are copied through postMessage.
+
+import type { ColorSpace } from "./color-spaces";
+import type { BackendType } from "./compute-backend";
+import type { InputEncoder } from "./input-encoding";
+import type { LossConfig } from "./loss-functions";
+import type { NetworkArchitecture } from "./network-architecture";
+import type { SamplingMode } from "./pixel-sampling";
+import type { NeuralNetwork } from "./worker-network";
+
+export const MAX_TRAINING_WORKERS = 16;
+
+export interface ShardSetup {
+  inputEncoder: InputEncoder;
+  architecture: NetworkArchitecture;
+  omega0: number;
+  backend: BackendType;
+  loss: LossConfig;
+  colorSpace: ColorSpace;
+  samplingMode: SamplingMode;
+  // Run seed - each shard samples from its own stream derived from it
+  seed: number;
+  imageData: Uint8ClampedArray;
+  width: number;
+  height: number;
+  // Per-pixel sampling weights for the whole image (null = uniform)
+  importance: Float32Array | null;
+}
+
+interface ShardReply {
+  loss: number;
+  samples: number;
+  epoch: number;
+  gradients?: Float32Array;
+}
+
+interface PendingStep {
+  resolve: (reply: ShardReply) => void;
+  reject: (error: Error) => void;
+}
+
+export function canShareMemory(): boolean {
+  return typeof SharedArrayBuffer !== "undefined" && self.crossOriginIsolated;
+}
+
+export class TrainingShards {
+  private workers: Worker[] = [];
+  private pending: PendingStep[][] = [];
+  private sharedParams: Float32Array | null = null;
+  private sharedGradients: Float32Array[] = [];
+  // Fewest full passes any shard has made over its pixels
+  epoch = 0;
+
+  constructor(count: number, setup: ShardSetup, paramCount: number) {
+    if (canShareMemory()) {
+      const bytes = paramCount * Float32Array.BYTES_PER_ELEMENT;
+      this.sharedParams = new Float32Array(new SharedArrayBuffer(bytes));
+      for (let i = 0; i < count; i++) {
+        this.sharedGradients.push(
+          new Float32Array(new SharedArrayBuffer(bytes)),
+        );
+      }
+    }
+
+    for (let i = 0; i < count; i++) {
+      const worker = new Worker(
+        new URL("./training-shard.worker.ts", import.meta.url),
+        { type: "module" },
+      );
+      const pending: PendingStep[] = [];
+      worker.onmessage = (e: MessageEvent) => {
+        pending.shift()?.resolve(e.data);
+      };
+      worker.onerror = (e: ErrorEvent) => {
+        e.preventDefault();
+        const error = new Error(e.message || "Training worker failed");
+        for (const step of pending.splice(0)) step.reject(error);
+      };
+      worker.postMessage({
+        type: "init",
+        inputEncoding: setup.inputEncoder.config,
+        frequencies: setup.inputEncoder.frequencies,
+        architecture: setup.architecture,
+        omega0: setup.omega0,
+        backend: setup.backend,
+        loss: setup.loss,
+        colorSpace: setup.colorSpace,
+        samplingMode: setup.samplingMode,
+        seed: setup.seed,
+        imageData: setup.imageData,
+        width: setup.width,
+        height: setup.height,
+        importance: setup.importance,
+        shardIndex: i,
+        shardCount: count,
+        sharedParams: this.sharedParams?.buffer ?? null,
+        sharedGradients: this.sharedGradients[i]?.buffer ?? null,
+      });
+      this.workers.push(worker);
+      this.pending.push(pending);
+    }
+  }
+
+  get count(): number {
+    return this.workers.length;
+  }
+
+  // One synchronous data-parallel step at the network's current weights.
+  // Adds every shard's gradient sums into the network and returns the summed
+  // loss and sample count, ready for network.applyGradients(samples).
+  async step(
+    network: NeuralNetwork,
+    batchSize: number,
+  ): Promise<{ loss: number; samples: number }> {
+    const params = network.getParams();
+    if (this.sharedParams) {
+      this.sharedParams.set(params);
+    }
+
+    const replies = await Promise.all(
+      this.workers.map(
+        (worker, i) =>
+          new Promise<ShardReply>((resolve, reject) => {
+            this.pending[i].push({ resolve, reject });
+            worker.postMessage(
+              this.sharedParams
+                ? { type: "step", batchSize }
+                : { type: "step", batchSize, params },
+            );
+          }),
+      ),
+    );
+
+    let loss = 0;
+    let samples = 0;
+    let epoch = Number.POSITIVE_INFINITY;
+    replies.forEach((reply, i) => {
+      const gradients = this.sharedGradients[i] ?? reply.gradients;
+      if (gradients) network.addGradients(gradients);
+      loss += reply.loss;
+      samples += reply.samples;
+      epoch = Math.min(epoch, reply.epoch);
+    });
+    this.epoch = epoch;
+
+    return { loss, samples };
+  }
+
+  setLoss(loss: LossConfig) {
+    for (const worker of this.workers) {
+      worker.postMessage({ type: "setLoss", loss });
+    }
+  }
+
+  setSamplingMode(mode: SamplingMode) {
+    for (const worker of this.workers) {
+      worker.postMessage({ type: "setSamplingMode", samplingMode: mode });
+    }
+  }
+
+  // Each shard picks out the weights of its own pixels
+  setImportance(weights: Float32Array | null) {
+    for (const worker of this.workers) {
+      worker.postMessage({ type: "setImportance", weights });
+    }
+  }
+
+  terminate() {
+    for (const worker of this.workers) worker.terminate();
+    const error = new Error("Training workers stopped");
+    for (const pending of this.pending) {
+      for (const step of pending.splice(0)) step.reject(error);
+    }
+    this.workers = [];
+    this.pending = [];
+  }
+}
@@ -0,0 +1,3 @@
+// Generated by scripts/build-wasm.mjs from kernels.wat - do not edit
+export const KERNELS_WASM_BASE64 =
+  "AGFzbQEAAAABLQVgBH9/fX8AYAN/f38BfWAHf39/f39/fwBgBn9/f39/fwBgCH9/f399fX19AAMHBgABAgMCBAUDAQABB00FBm1lbW9yeQIADGRlbnNlRm9yd2FyZAACDWRlbnNlQmFja3dhcmQAAxNhY2N1bXVsYXRlR3JhZGllbnRzAAQLc2dkTW9tZW50dW0ABQrCBwaQAQICfwF7IAL9EyEGIANBfHEhBQJAA0AgBCAFTw0BIAAgBEECdGogACAEQQJ0av0ABAAgBiABIARBAnRq/QAEAP3mAf3kAf0LBAAgBEEEaiEEDAALCwJAA0AgBCADTw0BIAAgBEECdGogACAEQQJ0aioCACACIAEgBEECdGoqAgCUkjgCACAEQQFqIQQMAAsLC5QBAwJ/AXsBfSACQXxxIQQCQANAIAMgBE8NASAFIAAgA0ECdGr9AAQAIAEgA0ECdGr9AAQA/eYB/eQBIQUgA0EEaiEDDAALCyAF/R8AIAX9HwGSIAX9HwIgBf0fA5KSIQYCQANAIAMgAk8NASAGIAAgA0ECdGoqAgAgASADQQJ0aioCAJSSIQYgA0EBaiEDDAALCyAGC3YBBH8CQANAIAcgBE8NASABIAcgBWxBAnRqIQkgACAHIAZsQQJ0aiEKQQAhCAJAA0AgCCAGTw0BIAogCEECdGogAyAIQQJ0aioCACACIAggBWxBAnRqIAkgBRABkjgCACAIQQFqIQgMAAsLIAdBAWohBwwACwsLjAEDAn8BfQJ/IABBACADIARsQQJ0/AsAAkADQCAGIANPDQEgACAGIARsQQJ0aiEJIAEgBiAFbEECdGohCkEAIQcCQANAIAcgBU8NASAKIAdBAnRqKgIAIQggCEMAAAAAXARAIAkgAiAHIARsQQJ0aiAIIAQQAAsgB0EBaiEHDAALCyAGQQFqIQYMAAsLC5QBAwJ/AX0DfwJAA0AgByAETw0BIAMgByAFbEECdGohCiACIAcgBmxBAnRqIQtBACEIAkADQCAIIAZPDQEgCyAIQQJ0aioCACEJIAlDAAAAAFwEQCAAIAggBWxBAnRqIAogCSAFEAAgASAIQQJ0aiEMIAwgDCoCACAJkjgCAAsgCEEBaiEIDAALCyAHQQFqIQcMAAsLC/wBAwN/BnsBfSAE/RMhDSAF/RMhDiAG/RMhDyAH/RMhECADQXxxIQkCQANAIAggCU8NASAIQQJ0IQogACAKav0ABAAhCyAPIAIgCmr9AAQA/eYBIA4gASAKav0ABAAgDf3mASAQIAv95gH95QH95gH95AEhDCACIApqIAz9CwQAIAAgCmogCyAM/eQB/QsEACAIQQRqIQgMAAsLAkADQCAIIANPDQEgCEECdCEKIAYgAiAKaioCAJQgBSABIApqKgIAIASUIAcgACAKaioCAJSTlJIhESACIApqIBE4AgAgACAKaiAAIApqKgIAIBGSOAIAIAhBAWohCAwACwsL";
@@ -0,0 +1,287 @@
+;; SIMD128 versions of the dense-layer kernels in ../matrix-kernels.ts plus
+;; the SGD + momentum update. All pointers are byte offsets into the exported
+;; memory and every buffer holds f32 values, row-major, one sample per row.
+;;
+;; Rebuild the embedded module after editing: npm run build:wasm
+
+(module
+  (memory (export "memory") 1)
+
+  ;; y[i] += a * x[i] for i in [0, n)
+  (func $axpy (param $y i32) (param $x i32) (param $a f32) (param $n i32)
+    (local $i i32)
+    (local $end i32)
+    (local $av v128)
+    (local.set $av (f32x4.splat (local.get $a)))
+    (local.set $end (i32.and (local.get $n) (i32.const -4)))
+    (block $simd_done
+      (loop $simd
+        (br_if $simd_done (i32.ge_u (local.get $i) (local.get $end)))
+        (v128.store
+          (i32.add (local.get $y) (i32.shl (local.get $i) (i32.const 2)))
+          (f32x4.add
+            (v128.load
+              (i32.add (local.get $y) (i32.shl (local.get $i) (i32.const 2))))
+            (f32x4.mul
+              (local.get $av)
+              (v128.load
+                (i32.add (local.get $x) (i32.shl (local.get $i) (i32.const 2)))))))
+        (local.set $i (i32.add (local.get $i) (i32.const 4)))
+        (br $simd)))
+    (block $tail_done
+      (loop $tail
+        (br_if $tail_done (i32.ge_u (local.get $i) (local.get $n)))
+        (f32.store
+          (i32.add (local.get $y) (i32.shl (local.get $i) (i32.const 2)))
+          (f32.add
+            (f32.load
+              (i32.add (local.get $y) (i32.shl (local.get $i) (i32.const 2))))
+            (f32.mul
+              (local.get $a)
+              (f32.load
+                (i32.add (local.get $x) (i32.shl (local.get $i) (i32.const 2)))))))
+        (local.set $i (i32.add (local.get $i) (i32.const 1)))
+        (br $tail))))
+
+  ;; sum_i a[i] * b[i] for i in [0, n)
+  (func $dot (param $a i32) (param $b i32) (param $n i32) (result f32)
+    (local $i i32)
+    (local $end i32)
+    (local $acc v128)
+    (local $sum f32)
+    (local.set $end (i32.and (local.get $n) (i32.const -4)))
+    (block $simd_done
+      (loop $simd
+        (br_if $simd_done (i32.ge_u (local.get $i) (local.get $end)))
+        (local.set $acc
+          (f32x4.add
+            (local.get $acc)
+            (f32x4.mul
+              (v128.load
+                (i32.add (local.get $a) (i32.shl (local.get $i) (i32.const 2))))
+              (v128.load
+                (i32.add (local.get $b) (i32.shl (local.get $i) (i32.const 2)))))))
+        (local.set $i (i32.add (local.get $i) (i32.const 4)))
+        (br $simd)))
+    (local.set $sum
+      (f32.add
+        (f32.add
+          (f32x4.extract_lane 0 (local.get $acc))
+          (f32x4.extract_lane 1 (local.get $acc)))
+        (f32.add
+          (f32x4.extract_lane 2 (local.get $acc))
+          (f32x4.extract_lane 3 (local.get $acc)))))
+    (block $tail_done
+      (loop $tail
+        (br_if $tail_done (i32.ge_u (local.get $i) (local.get $n)))
+        (local.set $sum
+          (f32.add
+            (local.get $sum)
+            (f32.mul
+              (f32.load
+                (i32.add (local.get $a) (i32.shl (local.get $i) (i32.const 2))))
+              (f32.load
+                (i32.add (local.get $b) (i32.shl (local.get $i) (i32.const 2)))))))
+        (local.set $i (i32.add (local.get $i) (i32.const 1)))
+        (br $tail)))
+    (local.get $sum))
+
+  ;; out[b, j] = biases[j] + sum_k weights[j, k] * input[b, k]
+  (func (export "denseForward")
+    (param $out i32) (param $input i32) (param $weights i32) (param $biases i32)
+    (param $batch i32) (param $inputSize i32) (param $outputSize i32)
+    (local $b i32)
+    (local $j i32)
+    (local $inRow i32)
+    (local $outRow i32)
+    (block $batch_done
+      (loop $batch_loop
+        (br_if $batch_done (i32.ge_u (local.get $b) (local.get $batch)))
+        (local.set $inRow
+          (i32.add (local.get $input)
+            (i32.shl (i32.mul (local.get $b) (local.get $inputSize)) (i32.const 2))))
+        (local.set $outRow
+          (i32.add (local.get $out)
+            (i32.shl (i32.mul (local.get $b) (local.get $outputSize)) (i32.const 2))))
+        (local.set $j (i32.const 0))
+        (block $rows_done
+          (loop $rows
+            (br_if $rows_done (i32.ge_u (local.get $j) (local.get $outputSize)))
+            (f32.store
+              (i32.add (local.get $outRow) (i32.shl (local.get $j) (i32.const 2)))
+              (f32.add
+                (f32.load
+                  (i32.add (local.get $biases) (i32.shl (local.get $j) (i32.const 2))))
+                (call $dot
+                  (i32.add (local.get $weights)
+                    (i32.shl (i32.mul (local.get $j) (local.get $inputSize)) (i32.const 2)))
+                  (local.get $inRow)
+                  (local.get $inputSize))))
+            (local.set $j (i32.add (local.get $j) (i32.const 1)))
+            (br $rows)))
+        (local.set $b (i32.add (local.get $b) (i32.const 1)))
+        (br $batch_loop))))
+
+  ;; inputDelta[b, k] = sum_j weights[j, k] * delta[b, j]
+  (func (export "denseBackward")
+    (param $inputDelta i32) (param $delta i32) (param $weights i32)
+    (param $batch i32) (param $inputSize i32) (param $outputSize i32)
+    (local $b i32)
+    (local $j i32)
+    (local $d f32)
+    (local $inRow i32)
+    (local $outRow i32)
+    (memory.fill
+      (local.get $inputDelta)
+      (i32.const 0)
+      (i32.shl (i32.mul (local.get $batch) (local.get $inputSize)) (i32.const 2)))
+    (block $batch_done
+      (loop $batch_loop
+        (br_if $batch_done (i32.ge_u (local.get $b) (local.get $batch)))
+        (local.set $inRow
+          (i32.add (local.get $inputDelta)
+            (i32.shl (i32.mul (local.get $b) (local.get $inputSize)) (i32.const 2))))
+        (local.set $outRow
+          (i32.add (local.get $delta)
+            (i32.shl (i32.mul (local.get $b) (local.get $outputSize)) (i32.const 2))))
+        (local.set $j (i32.const 0))
+        (block $rows_done
+          (loop $rows
+            (br_if $rows_done (i32.ge_u (local.get $j) (local.get $outputSize)))
+            (local.set $d
+              (f32.load
+                (i32.add (local.get $outRow) (i32.shl (local.get $j) (i32.const 2)))))
+            (if (f32.ne (local.get $d) (f32.const 0))
+              (then
+                (call $axpy
+                  (local.get $inRow)
+                  (i32.add (local.get $weights)
+                    (i32.shl (i32.mul (local.get $j) (local.get $inputSize)) (i32.const 2)))
+                  (local.get $d)
+                  (local.get $inputSize))))
+            (local.set $j (i32.add (local.get $j) (i32.const 1)))
+            (br $rows)))
+        (local.set $b (i32.add (local.get $b) (i32.const 1)))
+        (br $batch_loop))))
+
+  ;; weightGrad[j, k] += sum_b delta[b, j] * input[b, k]
+  ;; biasGrad[j] += sum_b delta[b, j]
+  (func (export "accumulateGradients")
+    (param $weightGrad i32) (param $biasGrad i32) (param $delta i32) (param $input i32)
+    (param $batch i32) (param $inputSize i32) (param $outputSize i32)
+    (local $b i32)
+    (local $j i32)
+    (local $d f32)
+    (local $inRow i32)
+    (local $outRow i32)
+    (local $biasPtr i32)
+    (block $batch_done
+      (loop $batch_loop
+        (br_if $batch_done (i32.ge_u (local.get $b) (local.get $batch)))
+        (local.set $inRow
+          (i32.add (local.get $input)
+            (i32.shl (i32.mul (local.get $b) (local.get $inputSize)) (i32.const 2))))
+        (local.set $outRow
+          (i32.add (local.get $delta)
+            (i32.shl (i32.mul (local.get $b) (local.get $outputSize)) (i32.const 2))))
+        (local.set $j (i32.const 0))
+        (block $rows_done
+          (loop $rows
+            (br_if $rows_done (i32.ge_u (local.get $j) (local.get $outputSize)))
+            (local.set $d
+              (f32.load
+                (i32.add (local.get $outRow) (i32.shl (local.get $j) (i32.const 2)))))
+            (if (f32.ne (local.get $d) (f32.const 0))
+              (then
+                (call $axpy
+                  (i32.add (local.get $weightGrad)
+                    (i32.shl (i32.mul (local.get $j) (local.get $inputSize)) (i32.const 2)))
+                  (local.get $inRow)
+                  (local.get $d)
+                  (local.get $inputSize))
+                (local.set $biasPtr
+                  (i32.add (local.get $biasGrad) (i32.shl (local.get $j) (i32.const 2))))
+                (f32.store
+                  (local.get $biasPtr)
+                  (f32.add (f32.load (local.get $biasPtr)) (local.get $d)))))
+            (local.set $j (i32.add (local.get $j) (i32.const 1)))
+            (br $rows)))
+        (local.set $b (i32.add (local.get $b) (i32.const 1)))
+        (br $batch_loop))))
+
+  ;; SGD with momentum and L2 decay over `count` parameters:
+  ;; g = grad * scale - weightDecay * value
+  ;; velocity = momentum * velocity + learningRate * g
+  ;; value += velocity
+  (func (export "sgdMomentum")
+    (param $params i32) (param $grads i32) (param $velocities i32) (param $count i32)
+    (param $scale f32) (param $learningRate f32) (param $momentum f32)
+    (param $weightDecay f32)
+    (local $i i32)
+    (local $end i32)
+    (local $offset i32)
+    (local $value v128)
+    (local $velocity v128)
+    (local $scaleV v128)
+    (local $lrV v128)
+    (local $momentumV v128)
+    (local $decayV v128)
+    (local $v f32)
+    (local.set $scaleV (f32x4.splat (local.get $scale)))
+    (local.set $lrV (f32x4.splat (local.get $learningRate)))
+    (local.set $momentumV (f32x4.splat (local.get $momentum)))
+    (local.set $decayV (f32x4.splat (local.get $weightDecay)))
+    (local.set $end (i32.and (local.get $count) (i32.const -4)))
+    (block $simd_done
+      (loop $simd
+        (br_if $simd_done (i32.ge_u (local.get $i) (local.get $end)))
+        (local.set $offset (i32.shl (local.get $i) (i32.const 2)))
+        (local.set $value
+          (v128.load (i32.add (local.get $params) (local.get $offset))))
+        (local.set $velocity
+          (f32x4.add
+            (f32x4.mul
+              (local.get $momentumV)
+              (v128.load (i32.add (local.get $velocities) (local.get $offset))))
+            (f32x4.mul
+              (local.get $lrV)
+              (f32x4.sub
+                (f32x4.mul
+                  (v128.load (i32.add (local.get $grads) (local.get $offset)))
+                  (local.get $scaleV))
+                (f32x4.mul (local.get $decayV) (local.get $value))))))
+        (v128.store
+          (i32.add (local.get $velocities) (local.get $offset))
+          (local.get $velocity))
+        (v128.store
+          (i32.add (local.get $params) (local.get $offset))
+          (f32x4.add (local.get $value) (local.get $velocity)))
+        (local.set $i (i32.add (local.get $i) (i32.const 4)))
+        (br $simd)))
+    (block $tail_done
+      (loop $tail
+        (br_if $tail_done (i32.ge_u (local.get $i) (local.get $count)))
+        (local.set $offset (i32.shl (local.get $i) (i32.const 2)))
+        (local.set $v
+          (f32.add
+            (f32.mul
+              (local.get $momentum)
+              (f32.load (i32.add (local.get $velocities) (local.get $offset))))
+            (f32.mul
+              (local.get $learningRate)
+              (f32.sub
+                (f32.mul
+                  (f32.load (i32.add (local.get $grads) (local.get $offset)))
+                  (local.get $scale))
+                (f32.mul
+                  (local.get $weightDecay)
+                  (f32.load (i32.add (local.get $params) (local.get $offset))))))))
+        (f32.store (i32.add (local.get $velocities) (local.get $offset)) (local.get $v))
+        (f32.store
+          (i32.add (local.get $params) (local.get $offset))
+          (f32.add
+            (f32.load (i32.add (local.get $params) (local.get $offset)))
+            (local.get $v)))
+        (local.set $i (i32.add (local.get $i) (i32.const 1)))
+        (br $tail))))
+)
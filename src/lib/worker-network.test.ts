@@ -0,0 +1,357 @@
+import { describe, expect, it } from "vitest";
+import { type BackendType, isWasmSupported } from "./compute-backend";
+import { createInputEncoder, DEFAULT_INPUT_ENCODING } from "./input-encoding";
+import { DEFAULT_SCHEDULER, LearningRateScheduler } from "./lr-schedulers";
+import { DEFAULT_OPTIMIZER } from "./optimizers";
+import { PixelSampler, sampleBatch } from "./pixel-sampling";
+import { createRandom } from "./random";
+import { planTiles } from "./tiled-render";
+import {
+  DEFAULT_TIME_OCTAVES,
+  frameToTime,
+  type ImageEmbeddings,
+  NeuralNetwork,
+} from "./worker-network";
+
+function createNetwork(backend: BackendType, seed: number): NeuralNetwork {
+  const random = createRandom(seed);
+  return new NeuralNetwork({
+    inputEncoder: createInputEncoder(DEFAULT_INPUT_ENCODING, random),
+    architecture: {
+      hiddenLayers: [
+        { size: 21, activation: "relu" },
+        { size: 16, activation: "relu" },
+        { size: 9, activation: "tanh" },
+      ],
+    },
+    outputSize: 3,
+    learningRate: 0.01,
+    momentum: 0.9,
+    optimizer: DEFAULT_OPTIMIZER,
+    omega0: 30,
+    backend,
+    random,
+  });
+}
+
+// A fixed batch of coordinates in [-1, 1] with smooth target colours
+function createBatch(size: number, seed: number) {
+  const random = createRandom(seed);
+  const coords = new Float32Array(size * 2);
+  const targets = new Float32Array(size * 3);
+  for (let i = 0; i < size; i++) {
+    const x = random() * 2 - 1;
+    const y = random() * 2 - 1;
+    coords.set([x, y], i * 2);
+    targets.set([(x + 1) / 2, (y + 1) / 2, (x * y + 1) / 2], i * 3);
+  }
+  return { coords, targets };
+}
+
+describe("NeuralNetwork compute backends", () => {
+  it.skipIf(!isWasmSupported())(
+    "WASM matches JS for forward, backward and momentum updates",
+    () => {
+      const js = createNetwork("js", 42);
+      const wasm = createNetwork("wasm", 42);
+      expect(wasm.getBackendType()).toBe("wasm");
+
+      const initialJs = js.createSnapshot(0, 0, 0).params;
+      const initialWasm = wasm.createSnapshot(0, 0, 0).params;
+      expect(Array.from(initialWasm)).toEqual(Array.from(initialJs));
+
+      for (let step = 0; step < 25; step++) {
+        const { coords, targets } = createBatch(8, step);
+        const jsLoss = js.train(coords, targets, 0, 8);
+        const wasmLoss = wasm.train(coords, targets, 0, 8);
+        expect(wasmLoss).toBeCloseTo(jsLoss, 4);
+      }
+
+      const trainedJs = js.createSnapshot(0, 0, 0).params;
+      const trainedWasm = wasm.createSnapshot(0, 0, 0).params;
+      for (let i = 0; i < trainedJs.length; i++) {
+        expect(trainedWasm[i]).toBeCloseTo(trainedJs[i], 4);
+      }
+
+      for (const [x, y] of [
+        [-1, -1],
+        [0.25, -0.5],
+        [0.9, 0.3],
+      ]) {
+        const expected = js.predict(x, y);
+        const actual = wasm.predict(x, y);
+        for (let c = 0; c < 3; c++) {
+          expect(actual[c]).toBeCloseTo(expected[c], 4);
+        }
+      }
+
+      // Full-frame rendering goes through the batched path (256 pixels at a time)
+      const jsFrame = js.renderToBuffer(24, 24);
+      const wasmFrame = wasm.renderToBuffer(24, 24);
+      for (let i = 0; i < jsFrame.length; i++) {
+        expect(Math.abs(wasmFrame[i] - jsFrame[i])).toBeLessThanOrEqual(1);
+      }
+    },
+  );
+});
+
+describe("NeuralNetwork seeding", () => {
+  function trainSeeded(seed: number): Float32Array {
+    const network = createNetwork("js", seed);
+    const image = new Uint8ClampedArray(16 * 16 * 4).map((_, i) => i * 7);
+    const shard = {
+      data: image,
+      width: 16,
+      height: 16,
+      shardIndex: 0,
+      shardCount: 1,
+    };
+    const sampler = new PixelSampler(256, "epoch", createRandom(seed + 1));
+    const coords = new Float32Array(8 * 2);
+    const targets = new Float32Array(8 * 3);
+    for (let step = 0; step < 40; step++) {
+      sampleBatch(sampler, shard, coords, targets, 8);
+      network.train(coords, targets, 0, 8);
+    }
+    return network.createSnapshot(0, 0, 0).params;
+  }
+
+  it("trains bit-identically from the same seed", () => {
+    expect(trainSeeded(7)).toEqual(trainSeeded(7));
+  });
+
+  it("starts from different weights with a different seed", () => {
+    expect(trainSeeded(7)).not.toEqual(trainSeeded(8));
+  });
+});
+
+describe("NeuralNetwork checkpoints", () => {
+  const image = new Uint8ClampedArray(16 * 16 * 4).map((_, i) => i * 13);
+  const shard = {
+    data: image,
+    width: 16,
+    height: 16,
+    shardIndex: 0,
+    shardCount: 1,
+  };
+
+  function createRun(seed: number) {
+    const network = createNetwork("js", seed);
+    network.setOptimizer({ ...DEFAULT_OPTIMIZER, type: "adam" });
+    const sampler = new PixelSampler(256, "epoch", createRandom(seed + 1));
+    const scheduler = new LearningRateScheduler(
+      { ...DEFAULT_SCHEDULER, type: "cosine" },
+      { baseLearningRate: 0.01, minLearningRate: 0.0001, totalIterations: 60 },
+    );
+    return { network, sampler, scheduler, iteration: 0 };
+  }
+
+  function trainSteps(run: ReturnType<typeof createRun>, steps: number) {
+    const coords = new Float32Array(8 * 2);
+    const targets = new Float32Array(8 * 3);
+    for (let step = 0; step < steps; step++) {
+      sampleBatch(run.sampler, shard, coords, targets, 8);
+      const loss = run.network.train(coords, targets, 0, 8);
+      run.network.setLearningRate(run.scheduler.update(run.iteration++, loss));
+    }
+  }
+
+  it("resumes bit-identically from optimizer, schedule and sampler state", () => {
+    const uninterrupted = createRun(3);
+    trainSteps(uninterrupted, 60);
+
+    const first = createRun(3);
+    trainSteps(first, 30);
+    const params = new Float32Array(first.network.getParams());
+    const optimizerState = first.network.getOptimizerState();
+    const schedulerState = first.scheduler.getState();
+    const samplerState = first.sampler.getState();
+
+    // A fresh run from another seed, loaded with the saved state
+    const resumed = createRun(9);
+    resumed.iteration = first.iteration;
+    resumed.network.setParams(params);
+    resumed.network.setOptimizerState(optimizerState);
+    resumed.network.setLearningRate(schedulerState.learningRate);
+    resumed.scheduler.restoreState(schedulerState);
+    resumed.sampler.restoreState(samplerState);
+    trainSteps(resumed, 30);
+
+    expect(resumed.network.getParams()).toEqual(
+      uninterrupted.network.getParams(),
+    );
+  });
+});
+
+describe("NeuralNetwork tiled rendering", () => {
+  it("assembles tiles into the same image as a full-frame render", () => {
+    const network = createNetwork("js", 11);
+    const width = 45;
+    const height = 30;
+    const full = network.renderToBuffer(width, height);
+
+    const assembled = new Uint8ClampedArray(width * height * 4);
+    for (const tile of planTiles(width, height, 16)) {
+      const buffer = network.renderRegion(
+        width,
+        height,
+        tile.left,
+        tile.top,
+        tile.width,
+        tile.height,
+      );
+      for (let row = 0; row < tile.height; row++) {
+        const start = row * tile.width * 4;
+        assembled.set(
+          buffer.subarray(start, start + tile.width * 4),
+          ((tile.top + row) * width + tile.left) * 4,
+        );
+      }
+    }
+    expect(assembled).toEqual(full);
+  });
+});
+
+// Mean color of a render
+function meanColor(pixels: Uint8ClampedArray): number[] {
+  const sum = [0, 0, 0];
+  for (let i = 0; i < pixels.length; i += 4) {
+    for (let c = 0; c < 3; c++) sum[c] += pixels[i + c] / 255;
+  }
+  return sum.map((value) => value / (pixels.length / 4));
+}
+
+describe("NeuralNetwork image embeddings", () => {
+  function createConditionalNetwork(seed: number): NeuralNetwork {
+    const random = createRandom(seed);
+    const embeddings: ImageEmbeddings = { size: 4, count: 2 };
+    return new NeuralNetwork({
+      inputEncoder: createInputEncoder(DEFAULT_INPUT_ENCODING, random),
+      architecture: {
+        hiddenLayers: [
+          { size: 16, activation: "relu" },
+          { size: 16, activation: "relu" },
+        ],
+      },
+      outputSize: 3,
+      learningRate: 0.01,
+      momentum: 0.9,
+      optimizer: { ...DEFAULT_OPTIMIZER, type: "adam" },
+      embeddings,
+      omega0: 30,
+      backend: "js",
+      random,
+    });
+  }
+
+  it("paints each image from its own embedding and blends between them", () => {
+    const network = createConditionalNetwork(5);
+    // Image 0 is red, image 1 is blue, sampled alternately
+    const coords = new Float32Array(16 * 2);
+    const targets = new Float32Array(16 * 3);
+    const images = new Uint8Array(16);
+    const random = createRandom(6);
+    for (let step = 0; step < 400; step++) {
+      for (let b = 0; b < 16; b++) {
+        coords.set([random() * 2 - 1, random() * 2 - 1], b * 2);
+        images[b] = b % 2;
+        targets.set(b % 2 === 0 ? [1, 0, 0] : [0, 0, 1], b * 3);
+      }
+      network.train(coords, targets, 0, 16, images);
+    }
+
+    network.setRenderImages(0);
+    const red = meanColor(network.renderToBuffer(8, 8));
+    network.setRenderImages(1);
+    const blue = meanColor(network.renderToBuffer(8, 8));
+    network.setRenderImages(0, 1, 0.5);
+    const blend = meanColor(network.renderToBuffer(8, 8));
+
+    expect(red[0]).toBeGreaterThan(0.9);
+    expect(red[2]).toBeLessThan(0.1);
+    expect(blue[0]).toBeLessThan(0.1);
+    expect(blue[2]).toBeGreaterThan(0.9);
+    // Halfway is neither image
+    const distance = (a: number[], b: number[]) =>
+      Math.max(...a.map((value, c) => Math.abs(value - b[c])));
+    expect(distance(blend, red)).toBeGreaterThan(0.05);
+    expect(distance(blend, blue)).toBeGreaterThan(0.05);
+
+    // The embeddings travel with the snapshot
+    const restored = createConditionalNetwork(99);
+    restored.restoreSnapshot(network.createSnapshot(400, 0, 0.01));
+    restored.setRenderImages(1);
+    network.setRenderImages(1);
+    expect(restored.renderToBuffer(8, 8)).toEqual(network.renderToBuffer(8, 8));
+  });
+});
+
+describe("NeuralNetwork time input", () => {
+  function createClipNetwork(seed: number, frameCount?: number) {
+    const random = createRandom(seed);
+    return new NeuralNetwork({
+      inputEncoder: createInputEncoder(DEFAULT_INPUT_ENCODING, random),
+      architecture: {
+        hiddenLayers: [
+          { size: 16, activation: "relu" },
+          { size: 16, activation: "relu" },
+        ],
+      },
+      outputSize: 3,
+      learningRate: 0.01,
+      momentum: 0.9,
+      optimizer: { ...DEFAULT_OPTIMIZER, type: "adam" },
+      time: frameCount
+        ? { frameCount, octaves: DEFAULT_TIME_OCTAVES }
+        : undefined,
+      omega0: 30,
+      backend: "js",
+      random,
+    });
+  }
+
+  it("spaces frames evenly from -1 to 1", () => {
+    expect([0, 1, 2].map((frame) => frameToTime(frame, 3))).toEqual([
+      -1, 0, 1,
+    ]);
+    expect(frameToTime(0, 1)).toBe(0);
+  });
+
+  it("paints each frame at its own time", () => {
+    const network = createClipNetwork(5, 3);
+    // A red, a green and a blue frame
+    const colors = [
+      [1, 0, 0],
+      [0, 1, 0],
+      [0, 0, 1],
+    ];
+    const coords = new Float32Array(15 * 2);
+    const targets = new Float32Array(15 * 3);
+    const frames = new Uint8Array(15);
+    const random = createRandom(6);
+    for (let step = 0; step < 600; step++) {
+      for (let b = 0; b < 15; b++) {
+        coords.set([random() * 2 - 1, random() * 2 - 1], b * 2);
+        frames[b] = b % 3;
+        targets.set(colors[b % 3], b * 3);
+      }
+      network.train(coords, targets, 0, 15, frames);
+    }
+
+    for (const [frame, color] of colors.entries()) {
+      network.setRenderTime(frameToTime(frame, 3));
+      const mean = meanColor(network.renderToBuffer(8, 8));
+      for (let c = 0; c < 3; c++) {
+        expect(Math.abs(mean[c] - color[c])).toBeLessThan(0.1);
+      }
+    }
+
+    // The time input travels with the snapshot
+    const restored = createClipNetwork(99);
+    restored.restoreSnapshot(network.createSnapshot(600, 0, 0.01));
+    expect(restored.getTime()).toEqual(network.getTime());
+    restored.setRenderTime(0.3);
+    network.setRenderTime(0.3);
+    expect(restored.renderToBuffer(8, 8)).toEqual(network.renderToBuffer(8, 8));
+  });
+});
@@ -0,0 +1,871 @@
+// Network trained by the worker: a fully connected coordinate MLP whose
+// parameters, optimizer state and batch scratch live in flat Float32Arrays
+// owned by a compute backend (plain JS or WebAssembly SIMD)
+
+import {
+  activateBatch,
+  type LayerActivation,
+  multiplyByDerivative,
+  weightBound,
+} from "./activations";
+import { type ColorSpace, decodeColor } from "./color-spaces";
+import {
+  type BackendType,
+  type ComputeBackend,
+  createComputeBackend,
+} from "./compute-backend";
+import { pixelToCoordinate } from "./image-layout";
+import type { ImageMetrics } from "./image-metrics";
+import type { InputEncoder } from "./input-encoding";
+import { computeLoss, DEFAULT_LOSS, type LossConfig } from "./loss-functions";
+import {
+  getLayerSizes,
+  type NetworkArchitecture,
+} from "./network-architecture";
+import type { OptimizerConfig } from "./optimizers";
+import type { Random } from "./random";
+
+// A network conditioned on which of `count` images to paint: each image has
+// a learned vector of `size` numbers, appended to the encoded coordinates
+export interface ImageEmbeddings {
+  size: number;
+  count: number;
+}
+
+export const DEFAULT_EMBEDDING_SIZE = 8;
+// Embeddings start uniform in [-scale, scale], spread apart so each image
+// has its own corner of the input space from the first step
+const EMBEDDING_INIT_SCALE = 0.5;
+
+// A network for a clip of `frameCount` frames, learning (x, y, t) -> rgb.
+// The time t in [-1, 1] goes in after the coordinates (and embeddings), as
+// itself followed by sin and cos of it at `octaves` doubling frequencies.
+export interface TimeInput {
+  frameCount: number;
+  octaves: number;
+}
+
+export const DEFAULT_TIME_OCTAVES = 4;
+
+// Time of frame `frame` of a clip: the first frame at -1, the last at 1
+export function frameToTime(frame: number, frameCount: number): number {
+  return frameCount > 1 ? (frame / (frameCount - 1)) * 2 - 1 : 0;
+}
+
+function timeInputSize(time: TimeInput | null | undefined): number {
+  return time ? 1 + time.octaves * 2 : 0;
+}
+
+export interface NetworkConfig {
+  inputEncoder: InputEncoder;
+  architecture: NetworkArchitecture;
+  outputSize: number;
+  learningRate: number;
+  momentum: number;
+  optimizer: OptimizerConfig;
+  // Defaults to MSE
+  loss?: LossConfig;
+  // Space the outputs (and training targets) are in; defaults to RGB
+  colorSpace?: ColorSpace;
+  // Per-image embeddings (none = a network for a single image)
+  embeddings?: ImageEmbeddings;
+  // Time input for a clip (none = a still image)
+  time?: TimeInput;
+  omega0: number;
+  // Falls back to "js" when WebAssembly SIMD isn't available
+  backend: BackendType;
+  // Source for the initial weights
+  random: Random;
+}
+
+export interface NetworkSnapshot {
+  iteration: number;
+  mse: number;
+  learningRate: number;
+  // Copy of the flat parameter buffer (see NeuralNetwork.params)
+  params: Float32Array;
+  // Encoder the weights were trained against (input layer size depends on it)
+  inputEncoder: InputEncoder;
+  // Layer layout and per-layer activations the weights were trained with
+  architecture: NetworkArchitecture;
+  omega0: number;
+  colorSpace: ColorSpace;
+  embeddings?: ImageEmbeddings;
+  time?: TimeInput;
+  // Full-image quality when the snapshot was taken
+  metrics?: ImageMetrics;
+}
+
+// Optimizer buffers (same layout as the parameters) and step count, so a
+// checkpointed run resumes with its momentum and moment estimates intact
+export interface OptimizerState {
+  step: number;
+  velocities: Float32Array;
+  moments: Float32Array;
+  squares: Float32Array;
+}
+
+// Pixels pushed through the network at once when rendering a frame
+const RENDER_BATCH_SIZE = 256;
+
+export class NeuralNetwork {
+  private layerSizes: number[];
+  private inputEncoder: InputEncoder;
+  private architecture: NetworkArchitecture;
+  // Activation of each hidden layer (index l is the output of weights[l])
+  private layerActivations: LayerActivation[];
+  private omega0: number;
+  private learningRate: number;
+  private momentum: number;
+  private optimizer: OptimizerConfig;
+  private loss: LossConfig;
+  private colorSpace: ColorSpace;
+  private embeddings: ImageEmbeddings | null;
+  private time: TimeInput | null;
+  private backend: ComputeBackend;
+
+  // Every weight and bias in one buffer, layer by layer: [W0, b0, W1, b1, ...],
+  // then the image embeddings (one row per image) if there are any.
+  // Gradients and optimizer state share the same layout, so an optimizer
+  // step is a single pass over flat arrays.
+  private params!: Float32Array;
+  private gradients!: Float32Array;
+  // Momentum velocities (SGD)
+  private velocities!: Float32Array;
+  // First/second moment estimates (Adam, AdamW; RMSProp uses the second only)
+  private moments!: Float32Array;
+  private squares!: Float32Array;
+  private optimizerStep = 0;
+  // Adam bias corrections for the current step: 1 - beta^t
+  private biasCorrection1 = 1;
+  private biasCorrection2 = 1;
+
+  // Per-layer views into params / gradients
+  private weightOffsets: number[] = [];
+  private biasOffsets: number[] = [];
+  private weights: Float32Array[] = [];
+  private biases: Float32Array[] = [];
+  private weightGradients: Float32Array[] = [];
+  private biasGradients: Float32Array[] = [];
+  private embeddingOffset = 0;
+  private embeddingTable: Float32Array = new Float32Array(0);
+  private embeddingGradients: Float32Array = new Float32Array(0);
+  // Rendering paints image `from`, or a blend of it with `to`: the embedding
+  // `amount` of the way from one to the other
+  private renderImages = { from: 0, to: 0, amount: 0 };
+  // Time renders are painted at
+  private renderTime = 0;
+
+  // Scratch space for a batch, one sample per row. activations[0] holds the
+  // encoded inputs, activations[l + 1] and zValues[l] the output of layer l,
+  // deltas[l] the error at that output. Grown on demand, never shrunk.
+  private batchCapacity = 0;
+  private activations: Float32Array[] = [];
+  private zValues: Float32Array[] = [];
+  private deltas: Float32Array[] = [];
+  // Error at the network's inputs, for the embedding gradients
+  private inputDeltas: Float32Array = new Float32Array(0);
+
+  constructor(config: NetworkConfig) {
+    this.learningRate = config.learningRate;
+    this.momentum = config.momentum;
+    this.optimizer = config.optimizer;
+    this.loss = config.loss ?? DEFAULT_LOSS;
+    this.colorSpace = config.colorSpace ?? "rgb";
+    this.embeddings = config.embeddings ?? null;
+    this.time = config.time ?? null;
+    this.inputEncoder = config.inputEncoder;
+    this.architecture = config.architecture;
+    this.layerActivations = config.architecture.hiddenLayers.map(
+      (layer) => layer.activation,
+    );
+    this.omega0 = config.omega0;
+    this.backend = createComputeBackend(config.backend);
+    this.layerSizes = getLayerSizes(
+      config.architecture,
+      config.inputEncoder.outputSize +
+        (this.embeddings?.size ?? 0) +
+        timeInputSize(this.time),
+      config.outputSize,
+    );
+    this.allocate(1);
+
+    const numLayers = this.layerSizes.length - 1;
+    for (let i = 0; i < numLayers; i++) {
+      const inputSize = this.layerSizes[i];
+      const outputSize = this.layerSizes[i + 1];
+      // He for ReLU, Xavier for tanh, SIREN's uniform scheme for sine layers.
+      // The linear output layer follows the scheme of the layer feeding it.
+      const layerActivation =
+        this.layerActivations[Math.min(i, this.layerActivations.length - 1)] ??
+        "relu";
+      const isSiren = layerActivation === "sine";
+      const scale = weightBound(
+        layerActivation,
+        inputSize,
+        outputSize,
+        i === 0 && i < numLayers - 1,
+      );
+
+      const weights = this.weights[i];
+      for (let j = 0; j < weights.length; j++) {
+        weights[j] = (config.random() * 2 - 1) * scale;
+      }
+
+      // SIREN spreads biases so each unit starts at a different phase
+      if (isSiren) {
+        const biases = this.biases[i];
+        const biasScale = 1 / Math.sqrt(inputSize);
+        for (let j = 0; j < biases.length; j++) {
+          biases[j] = (config.random() * 2 - 1) * biasScale;
+        }
+      }
+    }
+
+    for (let i = 0; i < this.embeddingTable.length; i++) {
+      this.embeddingTable[i] = (config.random() * 2 - 1) * EMBEDDING_INIT_SCALE;
+    }
+  }
+
+  // (Re)create the flat buffers, per-layer views and batch scratch for
+  // layerSizes. Everything comes from one backend allocation so the WASM
+  // kernels can address it; parameters and optimizer state start at zero.
+  private allocate(batchCapacity: number) {
+    this.weightOffsets = [];
+    this.biasOffsets = [];
+    let total = 0;
+    for (let l = 0; l < this.layerSizes.length - 1; l++) {
+      this.weightOffsets.push(total);
+      total += this.layerSizes[l] * this.layerSizes[l + 1];
+      this.biasOffsets.push(total);
+      total += this.layerSizes[l + 1];
+    }
+    this.embeddingOffset = total;
+    total += this.embeddings ? this.embeddings.size * this.embeddings.count : 0;
+
+    const hiddenAndOutput = this.layerSizes.slice(1);
+    const buffers = this.backend.allocate([
+      total,
+      total,
+      total,
+      total,
+      total,
+      ...this.layerSizes.map((size) => batchCapacity * size),
+      ...hiddenAndOutput.map((size) => batchCapacity * size),
+      ...hiddenAndOutput.map((size) => batchCapacity * size),
+      this.embeddings ? batchCapacity * this.layerSizes[0] : 0,
+    ]);
+    [this.params, this.gradients, this.velocities, this.moments, this.squares] =
+      buffers;
+    const zStart = 5 + this.layerSizes.length;
+    const deltaStart = zStart + hiddenAndOutput.length;
+    this.activations = buffers.slice(5, zStart);
+    this.zValues = buffers.slice(zStart, deltaStart);
+    this.deltas = buffers.slice(deltaStart, deltaStart + hiddenAndOutput.length);
+    this.inputDeltas = buffers[buffers.length - 1];
+    this.embeddingTable = this.params.subarray(this.embeddingOffset);
+    this.embeddingGradients = this.gradients.subarray(this.embeddingOffset);
+    this.batchCapacity = batchCapacity;
+
+    this.weights = [];
+    this.biases = [];
+    this.weightGradients = [];
+    this.biasGradients = [];
+    for (let l = 0; l < this.weightOffsets.length; l++) {
+      const weightEnd = this.biasOffsets[l];
+      const biasEnd = weightEnd + this.layerSizes[l + 1];
+      this.weights.push(this.params.subarray(this.weightOffsets[l], weightEnd));
+      this.biases.push(this.params.subarray(weightEnd, biasEnd));
+      this.weightGradients.push(
+        this.gradients.subarray(this.weightOffsets[l], weightEnd),
+      );
+      this.biasGradients.push(this.gradients.subarray(weightEnd, biasEnd));
+    }
+  }
+
+  // Grow the batch scratch, carrying the parameters and optimizer state over
+  // (a new allocation invalidates the old buffers)
+  private ensureBatchCapacity(batch: number) {
+    if (batch <= this.batchCapacity) return;
+    const saved = [
+      this.params,
+      this.gradients,
+      this.velocities,
+      this.moments,
+      this.squares,
+    ].map((buffer) => buffer.slice());
+    this.allocate(batch);
+    this.params.set(saved[0]);
+    this.gradients.set(saved[1]);
+    this.velocities.set(saved[2]);
+    this.moments.set(saved[3]);
+    this.squares.set(saved[4]);
+  }
+
+  getBackendType(): BackendType {
+    return this.backend.type;
+  }
+
+  setLearningRate(lr: number) {
+    this.learningRate = lr;
+  }
+
+  getLearningRate(): number {
+    return this.learningRate;
+  }
+
+  setMomentum(m: number) {
+    this.momentum = m;
+  }
+
+  // Switching to a different optimizer starts it from a clean state
+  setOptimizer(optimizer: OptimizerConfig) {
+    if (optimizer.type !== this.optimizer.type) {
+      this.velocities.fill(0);
+      this.moments.fill(0);
+      this.squares.fill(0);
+      this.optimizerStep = 0;
+    }
+    this.optimizer = optimizer;
+  }
+
+  setLoss(loss: LossConfig) {
+    this.loss = loss;
+  }
+
+  getColorSpace(): ColorSpace {
+    return this.colorSpace;
+  }
+
+  // Frequency multiplier for a hidden layer: omega_0 on the first layer,
+  // later sine layers have it folded into their initialization
+  private layerOmega(layer: number): number {
+    return layer === 0 ? this.omega0 : 1;
+  }
+
+  getArchitecture(): NetworkArchitecture {
+    return this.architecture;
+  }
+
+  getInputEncoder(): InputEncoder {
+    return this.inputEncoder;
+  }
+
+  getEmbeddings(): ImageEmbeddings | null {
+    return this.embeddings;
+  }
+
+  // Paint image `from`, or blend it with image `to` by moving `amount` of
+  // the way to its embedding (no effect without embeddings)
+  setRenderImages(from: number, to = from, amount = 0) {
+    this.renderImages = { from, to, amount };
+  }
+
+  getTime(): TimeInput | null {
+    return this.time;
+  }
+
+  // Paint a clip at time t in [-1, 1] (no effect on still images)
+  setRenderTime(t: number) {
+    this.renderTime = t;
+  }
+
+  // Embedding row `image` of the table, or the blend renders use when null
+  private writeEmbedding(
+    image: number | null,
+    input: Float32Array,
+    offset: number,
+  ) {
+    if (!this.embeddings) return;
+    const size = this.embeddings.size;
+    const last = this.embeddings.count - 1;
+    const table = this.embeddingTable;
+    if (image !== null) {
+      input.set(table.subarray(image * size, (image + 1) * size), offset);
+      return;
+    }
+    const from = Math.min(this.renderImages.from, last) * size;
+    const to = Math.min(this.renderImages.to, last) * size;
+    const amount = this.renderImages.amount;
+    for (let k = 0; k < size; k++) {
+      input[offset + k] =
+        table[from + k] + (table[to + k] - table[from + k]) * amount;
+    }
+  }
+
+  // Time features of frame `frame` of the clip, or of the render time when
+  // null
+  private writeTime(
+    frame: number | null,
+    input: Float32Array,
+    offset: number,
+  ) {
+    if (!this.time) return;
+    const t =
+      frame === null
+        ? this.renderTime
+        : frameToTime(frame, this.time.frameCount);
+    input[offset] = t;
+    for (let k = 0; k < this.time.octaves; k++) {
+      const freq = 2 ** k * Math.PI;
+      input[offset + 1 + k * 2] = Math.sin(freq * t);
+      input[offset + 2 + k * 2] = Math.cos(freq * t);
+    }
+  }
+
+  // Inputs after the encoded coordinates: the embedding, then the time,
+  // for one sample's image (or frame), or for renders when null
+  private writeConditioning(
+    image: number | null,
+    input: Float32Array,
+    offset: number,
+  ) {
+    this.writeEmbedding(image, input, offset);
+    this.writeTime(image, input, offset + (this.embeddings?.size ?? 0));
+  }
+
+  // Encode (x, y) pairs from coords[start..start + count) into the input rows,
+  // followed by the embedding or time of each sample's image (see
+  // accumulateGradients)
+  private encodeBatch(
+    coords: Float32Array,
+    start: number,
+    count: number,
+    images: ArrayLike<number> | null,
+  ) {
+    const input = this.activations[0];
+    const inputSize = this.layerSizes[0];
+    const encodedSize = this.inputEncoder.outputSize;
+    for (let b = 0; b < count; b++) {
+      const i = (start + b) * 2;
+      this.inputEncoder.encode(coords[i], coords[i + 1], input, b * inputSize);
+      this.writeConditioning(
+        images ? images[start + b] : null,
+        input,
+        b * inputSize + encodedSize,
+      );
+    }
+  }
+
+  // Add the error at each sample's embedding inputs to its image's row
+  private accumulateEmbeddingGradients(
+    images: ArrayLike<number>,
+    start: number,
+    count: number,
+  ) {
+    if (!this.embeddings) return;
+    const size = this.embeddings.size;
+    const inputSize = this.layerSizes[0];
+    const encodedSize = this.inputEncoder.outputSize;
+    this.backend.denseBackward(
+      this.inputDeltas,
+      this.deltas[0],
+      this.weights[0],
+      count,
+      inputSize,
+      this.layerSizes[1],
+    );
+    for (let b = 0; b < count; b++) {
+      const row = images[start + b] * size;
+      const delta = b * inputSize + encodedSize;
+      for (let k = 0; k < size; k++) {
+        this.embeddingGradients[row + k] += this.inputDeltas[delta + k];
+      }
+    }
+  }
+
+  // Forward pass for `batch` samples already encoded into activations[0]
+  private forwardBatch(batch: number) {
+    const numLayers = this.weights.length;
+
+    for (let l = 0; l < numLayers; l++) {
+      const inputSize = this.layerSizes[l];
+      const outputSize = this.layerSizes[l + 1];
+      const z = this.zValues[l];
+      const out = this.activations[l + 1];
+      const count = batch * outputSize;
+
+      this.backend.denseForward(
+        z,
+        this.activations[l],
+        this.weights[l],
+        this.biases[l],
+        batch,
+        inputSize,
+        outputSize,
+      );
+
+      // Layer activation for hidden layers, linear for output (regression)
+      if (l === numLayers - 1) {
+        // Clamp output to [0, 1] for RGB
+        for (let i = 0; i < count; i++) {
+          out[i] = Math.max(0, Math.min(1, z[i]));
+        }
+      } else {
+        activateBatch(
+          this.layerActivations[l],
+          z,
+          out,
+          count,
+          this.layerOmega(l),
+        );
+      }
+    }
+  }
+
+  // Forward + backward for samples [start, start + count) of the batch,
+  // adding their gradients to the accumulators without touching the weights.
+  // Call applyGradients once the batch is done. Returns the summed loss,
+  // averaged over the three channels. With embeddings or a time input,
+  // `images` (indexed like the samples) says which image or frame each one
+  // comes from; without it the samples all get the render blend and time,
+  // and the embeddings aren't trained.
+  accumulateGradients(
+    coords: Float32Array,
+    targets: Float32Array,
+    start: number,
+    count: number,
+    images: ArrayLike<number> | null = null,
+  ): number {
+    const numLayers = this.weights.length;
+    this.ensureBatchCapacity(count);
+    this.encodeBatch(coords, start, count, images);
+    this.forwardBatch(count);
+
+    // Output layer delta (linear activation, derivative = 1) and loss
+    const loss = computeLoss(
+      this.loss,
+      this.activations[numLayers],
+      targets,
+      start,
+      this.deltas[numLayers - 1],
+      count,
+    );
+
+    // Hidden layers (activation derivative)
+    for (let l = numLayers - 2; l >= 0; l--) {
+      const outputSize = this.layerSizes[l + 1];
+      this.backend.denseBackward(
+        this.deltas[l],
+        this.deltas[l + 1],
+        this.weights[l + 1],
+        count,
+        outputSize,
+        this.layerSizes[l + 2],
+      );
+      multiplyByDerivative(
+        this.layerActivations[l],
+        this.zValues[l],
+        this.deltas[l],
+        count * outputSize,
+        this.layerOmega(l),
+      );
+    }
+    if (images) this.accumulateEmbeddingGradients(images, start, count);
+
+    for (let l = 0; l < numLayers; l++) {
+      this.backend.accumulateGradients(
+        this.weightGradients[l],
+        this.biasGradients[l],
+        this.deltas[l],
+        this.activations[l],
+        count,
+        this.layerSizes[l],
+        this.layerSizes[l + 1],
+      );
+    }
+
+    return loss / 3;
+  }
+
+  // Flat parameter buffer. Only valid until the next call that may grow the
+  // batch scratch (accumulateGradients, renderToBuffer, restoreSnapshot).
+  getParams(): Float32Array {
+    return this.params;
+  }
+
+  // Overwrite the parameters, e.g. with weights broadcast by a coordinator
+  setParams(params: Float32Array) {
+    this.params.set(params);
+  }
+
+  // Accumulated gradient sums since the last apply/clear (same layout as
+  // getParams, same validity caveat)
+  getGradients(): Float32Array {
+    return this.gradients;
+  }
+
+  // Add gradient sums computed elsewhere (another worker's shard)
+  addGradients(gradients: Float32Array) {
+    const own = this.gradients;
+    for (let i = 0; i < own.length; i++) own[i] += gradients[i];
+  }
+
+  clearGradients() {
+    this.gradients.fill(0);
+  }
+
+  // Copy of the optimizer state
+  getOptimizerState(): OptimizerState {
+    return {
+      step: this.optimizerStep,
+      velocities: new Float32Array(this.velocities),
+      moments: new Float32Array(this.moments),
+      squares: new Float32Array(this.squares),
+    };
+  }
+
+  // Load optimizer state saved from a network with the same layout
+  setOptimizerState(state: OptimizerState) {
+    if (state.velocities.length !== this.params.length) {
+      throw new Error(
+        `Optimizer state has ${state.velocities.length} values, network has ${this.params.length} parameters`,
+      );
+    }
+    this.optimizerStep = state.step;
+    this.velocities.set(state.velocities);
+    this.moments.set(state.moments);
+    this.squares.set(state.squares);
+  }
+
+  // Update weights and biases with the configured optimizer using the
+  // average gradient of the accumulated samples, then clear the batch
+  applyGradients(sampleCount: number) {
+    const scale = 1 / sampleCount;
+
+    this.optimizerStep++;
+    this.biasCorrection1 = 1 - this.optimizer.beta1 ** this.optimizerStep;
+    this.biasCorrection2 = 1 - this.optimizer.beta2 ** this.optimizerStep;
+
+    // Weight decay applies to weights only, not biases
+    for (let l = 0; l < this.weights.length; l++) {
+      const biasStart = this.biasOffsets[l];
+      this.optimizerStepRange(this.weightOffsets[l], biasStart, scale, true);
+      this.optimizerStepRange(
+        biasStart,
+        biasStart + this.layerSizes[l + 1],
+        scale,
+        false,
+      );
+    }
+    if (this.embeddingOffset < this.params.length) {
+      this.optimizerStepRange(
+        this.embeddingOffset,
+        this.params.length,
+        scale,
+        false,
+      );
+    }
+
+    this.gradients.fill(0);
+  }
+
+  // Apply one optimizer step to params[start..end). Gradients point downhill
+  // (target - output convention), so updates are added to the values.
+  private optimizerStepRange(
+    start: number,
+    end: number,
+    scale: number,
+    decay: boolean,
+  ) {
+    const { type, beta1, beta2, rho, epsilon } = this.optimizer;
+    const weightDecay = decay ? this.optimizer.weightDecay : 0;
+    const lr = this.learningRate;
+    const params = this.params;
+    const gradients = this.gradients;
+
+    switch (type) {
+      case "adam":
+      case "adamw": {
+        // Adam folds L2 into the gradient, AdamW decays the weight directly
+        const l2 = type === "adam" ? weightDecay : 0;
+        const decoupled = type === "adamw" ? lr * weightDecay : 0;
+        const moments = this.moments;
+        const squares = this.squares;
+        for (let i = start; i < end; i++) {
+          const value = params[i];
+          const g = gradients[i] * scale - l2 * value;
+          moments[i] = beta1 * moments[i] + (1 - beta1) * g;
+          squares[i] = beta2 * squares[i] + (1 - beta2) * g * g;
+          const mHat = moments[i] / this.biasCorrection1;
+          const vHat = squares[i] / this.biasCorrection2;
+          params[i] =
+            value + (lr * mHat) / (Math.sqrt(vHat) + epsilon) - decoupled * value;
+        }
+        break;
+      }
+
+      case "rmsprop": {
+        const squares = this.squares;
+        for (let i = start; i < end; i++) {
+          const value = params[i];
+          const g = gradients[i] * scale - weightDecay * value;
+          squares[i] = rho * squares[i] + (1 - rho) * g * g;
+          params[i] = value + (lr * g) / (Math.sqrt(squares[i]) + epsilon);
+        }
+        break;
+      }
+
+      default:
+        // SGD with momentum and L2 decay
+        this.backend.sgdMomentum(
+          params,
+          gradients,
+          this.velocities,
+          start,
+          end - start,
+          scale,
+          lr,
+          this.momentum,
+          weightDecay,
+        );
+    }
+  }
+
+  // Combined forward + backward for a batch, updating the weights once
+  train(
+    coords: Float32Array,
+    targets: Float32Array,
+    start: number,
+    count: number,
+    images: ArrayLike<number> | null = null,
+  ): number {
+    const loss = this.accumulateGradients(
+      coords,
+      targets,
+      start,
+      count,
+      images,
+    );
+    this.applyGradients(count);
+    return loss;
+  }
+
+  // Raw outputs for one point, in the network's color space
+  predict(inputX: number, inputY: number): [number, number, number] {
+    this.inputEncoder.encode(inputX, inputY, this.activations[0], 0);
+    this.writeConditioning(
+      null,
+      this.activations[0],
+      this.inputEncoder.outputSize,
+    );
+    this.forwardBatch(1);
+    const output = this.activations[this.weights.length];
+    return [output[0], output[1], output[2]];
+  }
+
+  // Render entire image, RENDER_BATCH_SIZE pixels at a time
+  renderToBuffer(width: number, height: number): Uint8ClampedArray {
+    return this.renderRegion(width, height, 0, 0, width, height);
+  }
+
+  // Render one tile of a width x height image: the tileWidth x tileHeight
+  // pixels starting at (left, top). Coordinates follow pixelToCoordinate, so
+  // any output with the training image's aspect ratio lines up with it.
+  renderRegion(
+    width: number,
+    height: number,
+    left: number,
+    top: number,
+    tileWidth: number,
+    tileHeight: number,
+  ): Uint8ClampedArray {
+    const buffer = new Uint8ClampedArray(tileWidth * tileHeight * 4);
+    const pixelCount = tileWidth * tileHeight;
+    const inputSize = this.layerSizes[0];
+    const longSide = Math.max(width, height);
+    this.ensureBatchCapacity(RENDER_BATCH_SIZE);
+    const input = this.activations[0];
+    const output = this.activations[this.weights.length];
+    const encodedSize = this.inputEncoder.outputSize;
+    const rgb = new Float32Array(3);
+
+    for (let start = 0; start < pixelCount; start += RENDER_BATCH_SIZE) {
+      const count = Math.min(RENDER_BATCH_SIZE, pixelCount - start);
+      for (let b = 0; b < count; b++) {
+        const pixel = start + b;
+        const x = left + (pixel % tileWidth);
+        const y = top + Math.floor(pixel / tileWidth);
+        const inputX = pixelToCoordinate(x, width, longSide);
+        const inputY = pixelToCoordinate(y, height, longSide);
+        this.inputEncoder.encode(inputX, inputY, input, b * inputSize);
+        this.writeConditioning(null, input, b * inputSize + encodedSize);
+      }
+      this.forwardBatch(count);
+
+      for (let b = 0; b < count; b++) {
+        const idx = (start + b) * 4;
+        const o = b * 3;
+        decodeColor(
+          this.colorSpace,
+          output[o],
+          output[o + 1],
+          output[o + 2],
+          rgb,
+          0,
+        );
+        buffer[idx] = Math.round(rgb[0] * 255);
+        buffer[idx + 1] = Math.round(rgb[1] * 255);
+        buffer[idx + 2] = Math.round(rgb[2] * 255);
+        buffer[idx + 3] = 255;
+      }
+    }
+
+    return buffer;
+  }
+
+  // Create a snapshot of current network state
+  createSnapshot(
+    iteration: number,
+    mse: number,
+    learningRate: number,
+    metrics?: ImageMetrics,
+  ): NetworkSnapshot {
+    return {
+      iteration,
+      mse,
+      learningRate,
+      metrics,
+      params: new Float32Array(this.params),
+      inputEncoder: this.inputEncoder,
+      architecture: this.architecture,
+      omega0: this.omega0,
+      colorSpace: this.colorSpace,
+      embeddings: this.embeddings ?? undefined,
+      time: this.time ?? undefined,
+    };
+  }
+
+  // Restore network from a snapshot
+  restoreSnapshot(snapshot: NetworkSnapshot): void {
+    const embeddings = snapshot.embeddings ?? null;
+    const layerSizes = getLayerSizes(
+      snapshot.architecture,
+      snapshot.inputEncoder.outputSize +
+        (embeddings?.size ?? 0) +
+        timeInputSize(snapshot.time),
+      this.layerSizes[this.layerSizes.length - 1],
+    );
+    const sameLayout =
+      layerSizes.length === this.layerSizes.length &&
+      layerSizes.every((size, i) => size === this.layerSizes[i]) &&
+      embeddings?.size === this.embeddings?.size &&
+      embeddings?.count === this.embeddings?.count;
+
+    this.inputEncoder = snapshot.inputEncoder;
+    this.architecture = snapshot.architecture;
+    this.layerActivations = snapshot.architecture.hiddenLayers.map(
+      (layer) => layer.activation,
+    );
+    this.layerSizes = layerSizes;
+    this.omega0 = snapshot.omega0;
+    this.colorSpace = snapshot.colorSpace;
+    this.embeddings = embeddings;
+    this.time = snapshot.time ?? null;
+    if (!sameLayout) {
+      this.allocate(this.batchCapacity);
+      this.optimizerStep = 0;
+    }
+    this.params.set(snapshot.params);
+  }
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { readZip } from "./zip-reader";
+
+interface TestEntry {
+  name: string;
+  data: Uint8Array<ArrayBuffer>;
+  deflate?: boolean;
+}
+
+async function deflateRaw(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// A zip archive as an archiver would write it (CRCs left at zero, which the
+// reader doesn't check), with a trailing comment
+async function createZip(entries: TestEntry[]): Promise<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const local: number[] = [];
+  const central: number[] = [];
+  const u16 = (out: number[], value: number) =>
+    out.push(value & 0xff, value >>> 8);
+  const u32 = (out: number[], value: number) =>
+    out.push(
+      value & 0xff,
+      (value >>> 8) & 0xff,
+      (value >>> 16) & 0xff,
+      value >>> 24,
+    );
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const body = entry.deflate ? await deflateRaw(entry.data) : entry.data;
+    const method = entry.deflate ? 8 : 0;
+    const offset = local.length;
+
+    u32(local, 0x04034b50);
+    u16(local, 20);
+    u16(local, 0);
+    u16(local, method);
+    u32(local, 0); // time, date
+    u32(local, 0); // crc
+    u32(local, body.length);
+    u32(local, entry.data.length);
+    u16(local, name.length);
+    u16(local, 4); // extra field
+    local.push(...name, 0, 0, 0, 0, ...body);
+
+    u32(central, 0x02014b50);
+    u16(central, 20);
+    u16(central, 20);
+    u16(central, 0);
+    u16(central, method);
+    u32(central, 0);
+    u32(central, 0);
+    u32(central, body.length);
+    u32(central, entry.data.length);
+    u16(central, name.length);
+    u16(central, 0);
+    u16(central, 0);
+    u16(central, 0);
+    u16(central, 0);
+    u32(central, 0);
+    u32(central, offset);
+    central.push(...name);
+  }
+
+  const end: number[] = [];
+  u32(end, 0x06054b50);
+  u16(end, 0);
+  u16(end, 0);
+  u16(end, entries.length);
+  u16(end, entries.length);
+  u32(end, central.length);
+  u32(end, local.length);
+  const comment = encoder.encode("frames");
+  u16(end, comment.length);
+  end.push(...comment);
+
+  return new Uint8Array([...local, ...central, ...end]).buffer;
+}
+
+describe("readZip", () => {
+  it("reads stored and deflated entries and skips folders", async () => {
+    const repeated = new Uint8Array(1000).map((_, i) => i % 7);
+    const zip = await createZip([
+      { name: "frames/", data: new Uint8Array(0) },
+      { name: "frames/001.png", data: new Uint8Array([1, 2, 3]) },
+      { name: "frames/002.png", data: repeated, deflate: true },
+    ]);
+
+    const entries = await readZip(zip);
+    expect(entries.map((entry) => entry.name)).toEqual([
+      "frames/001.png",
+      "frames/002.png",
+    ]);
+    expect(Array.from(entries[0].data)).toEqual([1, 2, 3]);
+    expect(entries[1].data).toEqual(repeated);
+  });
+
+  it("rejects data that isn't a zip", async () => {
+    await expect(readZip(new Uint8Array(64).buffer)).rejects.toThrow(
+      "Not a zip file",
+    );
+  });
+});
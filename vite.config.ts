@@ -5,6 +5,11 @@ import tailwindcss from '@tailwindcss/vite'
 
 import { fileURLToPath, URL } from 'node:url'
 
+const crossOriginIsolationHeaders = {
+  'Cross-Origin-Opener-Policy': 'same-origin',
+  'Cross-Origin-Embedder-Policy': 'require-corp',
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [devtools(), viteReact(), tailwindcss()],
@@ -13,4 +18,10 @@ export default defineConfig({
       '@': fileURLToPath(new URL('./src', import.meta.url)),
     },
   },
+  // Cross-origin isolation lets the training workers share weights and
+  // gradients through SharedArrayBuffer instead of copying them every step
+  server: { headers: crossOriginIsolationHeaders },
+  preview: { headers: crossOriginIsolationHeaders },
+  // Training workers start shard workers, so worker chunks must be ES modules
+  worker: { format: 'es' },
 })